@@ -0,0 +1,97 @@
+export type ProviderType = 'openai' | 'azure' | 'local';
+
+export interface UpstreamConfig {
+  type: ProviderType;
+  baseUrl: string;
+  model: string; // Deployment name for Azure OpenAI
+  models: string[]; // Models clients may choose, starting with model
+  apiKey?: string;
+  apiVersion?: string; // Azure OpenAI only
+}
+
+export interface ProxyConfig {
+  port: number;
+  allowedOrigins: string[];
+  rateLimit: {
+    maxRequests: number;           // Per user id, within one client address
+    maxRequestsPerAddress: number; // Per client address, whatever user ids it sends
+    windowMs: number;
+  };
+  maxBodyBytes: number;
+  logFile?: string;
+  providers: Partial<Record<ProviderType, UpstreamConfig>>;
+  defaultProvider: ProviderType;
+}
+
+// Reads the proxy configuration from environment variables. Only providers
+// whose required settings are present are enabled.
+export function loadConfig(env: NodeJS.ProcessEnv = process.env): ProxyConfig {
+  const providers: Partial<Record<ProviderType, UpstreamConfig>> = {};
+
+  if (env.OPENAI_API_KEY) {
+    providers.openai = {
+      type: 'openai',
+      baseUrl: env.OPENAI_BASE_URL || 'https://api.openai.com/v1',
+      model: env.OPENAI_MODEL || 'gpt-4',
+      models: parseModels(env.OPENAI_MODEL || 'gpt-4', env.OPENAI_MODELS),
+      apiKey: env.OPENAI_API_KEY
+    };
+  }
+
+  if (env.AZURE_OPENAI_ENDPOINT && env.AZURE_OPENAI_DEPLOYMENT && env.AZURE_OPENAI_API_KEY) {
+    providers.azure = {
+      type: 'azure',
+      baseUrl: env.AZURE_OPENAI_ENDPOINT,
+      model: env.AZURE_OPENAI_DEPLOYMENT,
+      models: parseModels(env.AZURE_OPENAI_DEPLOYMENT, env.AZURE_OPENAI_DEPLOYMENTS),
+      apiKey: env.AZURE_OPENAI_API_KEY,
+      apiVersion: env.AZURE_OPENAI_API_VERSION || '2024-02-01'
+    };
+  }
+
+  if (env.LOCAL_LLM_BASE_URL) {
+    providers.local = {
+      type: 'local',
+      baseUrl: env.LOCAL_LLM_BASE_URL,
+      model: env.LOCAL_LLM_MODEL || 'llama3',
+      models: parseModels(env.LOCAL_LLM_MODEL || 'llama3', env.LOCAL_LLM_MODELS),
+      apiKey: env.LOCAL_LLM_API_KEY
+    };
+  }
+
+  const configured = Object.keys(providers) as ProviderType[];
+  if (configured.length === 0) {
+    throw new Error('No LLM provider configured. Set OPENAI_API_KEY, the AZURE_OPENAI_* variables or LOCAL_LLM_BASE_URL.');
+  }
+
+  const requestedDefault = env.DEFAULT_PROVIDER as ProviderType | undefined;
+  const maxRequests = parseInteger(env.RATE_LIMIT_MAX_REQUESTS, 20);
+
+  return {
+    port: parseInteger(env.PROXY_PORT, 3001),
+    allowedOrigins: (env.ALLOWED_ORIGINS || 'https://localhost:3000')
+      .split(',')
+      .map(origin => origin.trim())
+      .filter(Boolean),
+    rateLimit: {
+      maxRequests,
+      maxRequestsPerAddress: parseInteger(env.RATE_LIMIT_MAX_REQUESTS_PER_IP, maxRequests * 5),
+      windowMs: parseInteger(env.RATE_LIMIT_WINDOW_MS, 60000)
+    },
+    maxBodyBytes: parseInteger(env.MAX_BODY_BYTES, 256 * 1024),
+    logFile: env.PROXY_LOG_FILE || undefined,
+    providers,
+    defaultProvider: requestedDefault && providers[requestedDefault] ? requestedDefault : configured[0]
+  };
+}
+
+// The default model followed by a comma-separated list of other allowed models
+function parseModels(model: string, others: string | undefined): string[] {
+  const listed = (others || '').split(',').map(name => name.trim()).filter(Boolean);
+  return Array.from(new Set([model, ...listed]));
+}
+
+function parseInteger(value: string | undefined, fallback: number): number {
+  const parsed = value ? parseInt(value, 10) : NaN;
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
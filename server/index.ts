@@ -0,0 +1,279 @@
+import { createServer, IncomingMessage, ServerResponse } from 'http';
+import { randomUUID } from 'crypto';
+import { loadConfig, ProviderType } from './config';
+import { createUpstreamClient, ChatMessage, CompletionRequest, UpstreamError } from './upstream';
+import { PerUserRateLimiter } from './rateLimiter';
+import { RequestLogger, RequestLogEntry } from './logger';
+
+class HttpError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+const MESSAGE_ROLES = new Set(['system', 'user', 'assistant']);
+const USER_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+const config = loadConfig();
+const rateLimiter = new PerUserRateLimiter(config.rateLimit.maxRequests, config.rateLimit.windowMs);
+const addressRateLimiter = new PerUserRateLimiter(config.rateLimit.maxRequestsPerAddress, config.rateLimit.windowMs);
+const logger = new RequestLogger(config.logFile);
+
+const server = createServer(async (req, res) => {
+  const startTime = Date.now();
+  const path = (req.url || '/').split('?')[0];
+  const entry: RequestLogEntry = {
+    timestamp: new Date(startTime).toISOString(),
+    requestId: randomUUID(),
+    userId: getUserId(req),
+    method: req.method || 'GET',
+    path,
+    status: 200,
+    durationMs: 0
+  };
+
+  applyCors(req, res);
+
+  try {
+    if (req.method === 'OPTIONS') {
+      entry.status = 204;
+      res.writeHead(204).end();
+    } else if (req.method === 'GET' && path === '/api/health') {
+      sendJson(res, 200, { status: 'ok' });
+    } else if (req.method === 'GET' && path === '/api/providers') {
+      sendJson(res, 200, {
+        defaultProvider: config.defaultProvider,
+        providers: Object.values(config.providers).map(provider => ({
+          type: provider!.type,
+          model: provider!.model,
+          models: provider!.models
+        }))
+      });
+    } else if (req.method === 'POST' && path === '/api/chat/completions') {
+      await handleCompletion(req, res, entry);
+    } else {
+      throw new HttpError(404, `Not found: ${req.method} ${path}`);
+    }
+  } catch (error) {
+    const status = error instanceof HttpError ? error.status : error instanceof UpstreamError ? 502 : 500;
+    const message = error instanceof UpstreamError
+      ? `Upstream provider error (${error.status}): ${error.message}`
+      : error instanceof Error ? error.message : 'Unknown error';
+
+    entry.status = status;
+    entry.error = message;
+    if (!res.headersSent) {
+      sendJson(res, status, { error: { message } });
+    }
+  } finally {
+    entry.durationMs = Date.now() - startTime;
+    logger.log(entry);
+  }
+});
+
+async function handleCompletion(req: IncomingMessage, res: ServerResponse, entry: RequestLogEntry): Promise<void> {
+  // The client address is always limited. The X-User-Id header only splits
+  // an address's allowance between users, so sending new ids doesn't escape it.
+  // Both limits are checked before either records the request, so a request
+  // refused by one doesn't use up the other.
+  const address = getClientAddress(req);
+  const userKey = `${address}|${entry.userId}`;
+  const now = Date.now();
+  const addressDecision = addressRateLimiter.peek(address, now);
+  const userDecision = rateLimiter.peek(userKey, now);
+  const decision = !addressDecision.allowed ? addressDecision : userDecision;
+  if (decision.allowed) {
+    addressRateLimiter.check(address, now);
+    rateLimiter.check(userKey, now);
+  }
+  res.setHeader('X-RateLimit-Limit', String(config.rateLimit.maxRequests));
+  res.setHeader('X-RateLimit-Remaining', String(decision.remaining));
+
+  if (!decision.allowed) {
+    const retryAfterSeconds = Math.ceil(decision.retryAfterMs / 1000);
+    res.setHeader('Retry-After', String(retryAfterSeconds));
+    throw new HttpError(429, `Rate limit exceeded. Try again in ${retryAfterSeconds} seconds.`);
+  }
+
+  const body = await readJsonBody(req);
+  const providerType: ProviderType = body.provider || config.defaultProvider;
+  // An own-property check, so names such as "constructor" are not looked up on the prototype
+  const upstreamConfig = Object.prototype.hasOwnProperty.call(config.providers, providerType)
+    ? config.providers[providerType]
+    : undefined;
+  if (!upstreamConfig) {
+    throw new HttpError(400, `Provider "${providerType}" is not configured on the proxy`);
+  }
+
+  // Clients pick a model from the proxy's list; endpoints and keys stay here
+  const model = body.model === undefined || body.model === null ? upstreamConfig.model : body.model;
+  if (!upstreamConfig.models.includes(model)) {
+    throw new HttpError(400, `Model "${model}" is not allowed for ${providerType}. Allowed: ${upstreamConfig.models.join(', ')}`);
+  }
+
+  const messages = parseMessages(body.messages);
+  entry.provider = providerType;
+
+  const client = createUpstreamClient({ ...upstreamConfig, model });
+  const request = {
+    messages,
+    temperature: clamp(Number(body.temperature ?? 0.3), 0, 2),
+    maxTokens: Math.round(clamp(Number(body.maxTokens ?? 1000), 1, 8000)),
+    responseFormat: body.responseFormat === 'json' ? 'json' as const : 'text' as const
+  };
+
+  if (body.stream === true) {
+    await streamCompletion(client, request, res, entry);
+    return;
+  }
+
+  const upstreamAbort = abortOnClose(res);
+  let result;
+  try {
+    result = await client.complete(request, upstreamAbort.signal);
+  } catch (error) {
+    if (!upstreamAbort.signal.aborted) throw error;
+    entry.status = 499;
+    entry.error = 'Client closed the connection';
+    return;
+  }
+
+  entry.model = result.model;
+  entry.promptTokens = result.usage?.promptTokens;
+  entry.completionTokens = result.usage?.completionTokens;
+  sendJson(res, 200, result);
+}
+
+// Relays deltas as server-sent events: {type:'delta'} per chunk, then {type:'done'} with
+// the full result or {type:'error'}. The event stream starts with the first delta, so
+// errors before it still get a normal JSON error response.
+async function streamCompletion(
+  client: ReturnType<typeof createUpstreamClient>,
+  request: CompletionRequest,
+  res: ServerResponse,
+  entry: RequestLogEntry
+): Promise<void> {
+  // Stop the upstream request when the client disconnects or presses Stop
+  const upstreamAbort = abortOnClose(res);
+
+  const send = (event: Record<string, unknown>) => {
+    if (!res.headersSent) {
+      res.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache', Connection: 'keep-alive' });
+    }
+    res.write(`data: ${JSON.stringify(event)}\n\n`);
+  };
+
+  try {
+    const result = await client.stream(request, delta => send({ type: 'delta', content: delta }), upstreamAbort.signal);
+    entry.model = result.model;
+    entry.promptTokens = result.usage?.promptTokens;
+    entry.completionTokens = result.usage?.completionTokens;
+    send({ type: 'done', result });
+    res.end();
+  } catch (error) {
+    if (upstreamAbort.signal.aborted) {
+      entry.status = 499;
+      entry.error = 'Client closed the stream';
+      return;
+    }
+    if (!res.headersSent) throw error;
+
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    entry.status = 502;
+    entry.error = message;
+    send({ type: 'error', message: `Upstream provider error: ${message}` });
+    res.end();
+  }
+}
+
+// Aborts when the client goes away before the response is complete
+function abortOnClose(res: ServerResponse): AbortController {
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) controller.abort();
+  });
+  return controller;
+}
+
+// Request helpers
+
+function getClientAddress(req: IncomingMessage): string {
+  return req.socket.remoteAddress || 'unknown';
+}
+
+function getUserId(req: IncomingMessage): string {
+  const header = req.headers['x-user-id'];
+  const userId = Array.isArray(header) ? header[0] : header;
+  if (userId && USER_ID_PATTERN.test(userId)) {
+    return userId;
+  }
+  return `ip:${getClientAddress(req)}`;
+}
+
+function applyCors(req: IncomingMessage, res: ServerResponse): void {
+  const origin = req.headers.origin;
+  if (origin && (config.allowedOrigins.includes('*') || config.allowedOrigins.includes(origin))) {
+    res.setHeader('Access-Control-Allow-Origin', origin);
+    res.setHeader('Vary', 'Origin');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, X-User-Id');
+    res.setHeader('Access-Control-Expose-Headers', 'Retry-After, X-RateLimit-Limit, X-RateLimit-Remaining');
+  }
+}
+
+function readJsonBody(req: IncomingMessage): Promise<any> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > config.maxBodyBytes) {
+        reject(new HttpError(413, 'Request body too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}'));
+      } catch {
+        reject(new HttpError(400, 'Request body must be valid JSON'));
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+function parseMessages(value: unknown): ChatMessage[] {
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new HttpError(400, 'messages must be a non-empty array');
+  }
+
+  return value.map((message, index) => {
+    if (!message || !MESSAGE_ROLES.has(message.role) || typeof message.content !== 'string') {
+      throw new HttpError(400, `messages[${index}] must have a role and string content`);
+    }
+    return { role: message.role, content: message.content };
+  });
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Number.isFinite(value) ? Math.min(Math.max(value, min), max) : min;
+}
+
+setInterval(() => {
+  rateLimiter.prune();
+  addressRateLimiter.prune();
+}, config.rateLimit.windowMs).unref();
+
+server.listen(config.port, () => {
+  console.log(`LLM proxy listening on port ${config.port} (providers: ${Object.keys(config.providers).join(', ')})`);
+});
@@ -0,0 +1,34 @@
+import { appendFile } from 'fs';
+
+export interface RequestLogEntry {
+  timestamp: string;
+  requestId: string;
+  userId: string;
+  method: string;
+  path: string;
+  status: number;
+  durationMs: number;
+  provider?: string;
+  model?: string;
+  promptTokens?: number;
+  completionTokens?: number;
+  error?: string;
+}
+
+// Writes one JSON line per request. Prompts and completions are never logged.
+export class RequestLogger {
+  constructor(private readonly logFile?: string) {}
+
+  log(entry: RequestLogEntry): void {
+    const line = JSON.stringify(entry);
+    console.log(line);
+
+    if (this.logFile) {
+      appendFile(this.logFile, line + '\n', error => {
+        if (error) {
+          console.error('Error writing request log:', error);
+        }
+      });
+    }
+  }
+}
@@ -0,0 +1,51 @@
+export interface RateLimitDecision {
+  allowed: boolean;
+  remaining: number;
+  retryAfterMs: number;
+}
+
+// Sliding-window limiter keyed by user id or client address
+export class PerUserRateLimiter {
+  private readonly requests = new Map<string, number[]>();
+
+  constructor(private readonly maxRequests: number, private readonly windowMs: number) {}
+
+  // Records the request if the user is under the limit
+  check(userId: string, now: number = Date.now()): RateLimitDecision {
+    const decision = this.peek(userId, now);
+    if (decision.allowed) {
+      this.requests.set(userId, [...(this.requests.get(userId) || []).filter(time => time > now - this.windowMs), now]);
+    }
+    return decision;
+  }
+
+  // The decision check would make, without recording a request
+  peek(userId: string, now: number = Date.now()): RateLimitDecision {
+    const windowStart = now - this.windowMs;
+    const timestamps = (this.requests.get(userId) || []).filter(time => time > windowStart);
+
+    if (timestamps.length >= this.maxRequests) {
+      return {
+        allowed: false,
+        remaining: 0,
+        retryAfterMs: timestamps[0] + this.windowMs - now
+      };
+    }
+
+    return {
+      allowed: true,
+      remaining: this.maxRequests - timestamps.length - 1,
+      retryAfterMs: 0
+    };
+  }
+
+  // Drops users with no requests in the current window
+  prune(now: number = Date.now()): void {
+    const windowStart = now - this.windowMs;
+    this.requests.forEach((timestamps, userId) => {
+      if (!timestamps.some(time => time > windowStart)) {
+        this.requests.delete(userId);
+      }
+    });
+  }
+}
@@ -0,0 +1,169 @@
+import { UpstreamConfig } from './config';
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface CompletionRequest {
+  messages: ChatMessage[];
+  temperature: number;
+  maxTokens: number;
+  responseFormat?: 'text' | 'json';
+}
+
+export interface CompletionResult {
+  content: string;
+  model: string;
+  usage?: {
+    promptTokens: number;
+    completionTokens: number;
+  };
+}
+
+export type DeltaHandler = (delta: string) => void;
+
+export class UpstreamError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'UpstreamError';
+  }
+}
+
+// Shared implementation of the OpenAI chat completions wire format
+class OpenAICompatibleClient {
+  constructor(readonly config: UpstreamConfig) {}
+
+  async complete(request: CompletionRequest, signal?: AbortSignal): Promise<CompletionResult> {
+    const response = await fetch(this.getEndpoint(), {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...this.getAuthHeaders()
+      },
+      body: JSON.stringify(this.buildRequestBody(request)),
+      signal
+    });
+
+    if (!response.ok) {
+      throw new UpstreamError(await this.readErrorMessage(response), response.status);
+    }
+
+    const data: any = await response.json();
+    return {
+      content: data.choices?.[0]?.message?.content || '',
+      model: data.model || this.config.model,
+      usage: data.usage
+        ? { promptTokens: data.usage.prompt_tokens || 0, completionTokens: data.usage.completion_tokens || 0 }
+        : undefined
+    };
+  }
+
+  // Streams the completion with server-sent events, passing each content delta to onDelta
+  async stream(request: CompletionRequest, onDelta: DeltaHandler, signal?: AbortSignal): Promise<CompletionResult> {
+    const response = await fetch(this.getEndpoint(), {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...this.getAuthHeaders()
+      },
+      body: JSON.stringify({
+        ...this.buildRequestBody(request),
+        stream: true,
+        // Local servers may not accept stream_options, so usage is only requested from hosted providers
+        ...(this.config.type !== 'local' ? { stream_options: { include_usage: true } } : {})
+      }),
+      signal
+    });
+
+    if (!response.ok || !response.body) {
+      throw new UpstreamError(await this.readErrorMessage(response), response.status);
+    }
+
+    const result: CompletionResult = { content: '', model: this.config.model };
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+
+      for (const line of lines) {
+        const data = line.trim().replace(/^data:\s*/, '');
+        if (!line.startsWith('data:') || data === '[DONE]') continue;
+
+        const chunk = JSON.parse(data);
+        const delta: string = chunk.choices?.[0]?.delta?.content || '';
+        if (chunk.model) result.model = chunk.model;
+        if (chunk.usage) {
+          result.usage = { promptTokens: chunk.usage.prompt_tokens || 0, completionTokens: chunk.usage.completion_tokens || 0 };
+        }
+        if (delta) {
+          result.content += delta;
+          onDelta(delta);
+        }
+      }
+    }
+
+    return result;
+  }
+
+  protected getEndpoint(): string {
+    return `${trimTrailingSlash(this.config.baseUrl)}/chat/completions`;
+  }
+
+  protected getAuthHeaders(): Record<string, string> {
+    return this.config.apiKey ? { Authorization: `Bearer ${this.config.apiKey}` } : {};
+  }
+
+  protected buildRequestBody(request: CompletionRequest): Record<string, unknown> {
+    return {
+      model: this.config.model,
+      messages: request.messages,
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      top_p: 0.9,
+      ...(request.responseFormat === 'json' ? { response_format: { type: 'json_object' } } : {})
+    };
+  }
+
+  private async readErrorMessage(response: Response): Promise<string> {
+    try {
+      const body: any = await response.json();
+      return body.error?.message || response.statusText;
+    } catch {
+      return response.statusText;
+    }
+  }
+}
+
+class AzureOpenAIClient extends OpenAICompatibleClient {
+  protected getEndpoint(): string {
+    const deployment = encodeURIComponent(this.config.model);
+    const apiVersion = encodeURIComponent(this.config.apiVersion || '');
+    return `${trimTrailingSlash(this.config.baseUrl)}/openai/deployments/${deployment}/chat/completions?api-version=${apiVersion}`;
+  }
+
+  protected getAuthHeaders(): Record<string, string> {
+    return this.config.apiKey ? { 'api-key': this.config.apiKey } : {};
+  }
+
+  protected buildRequestBody(request: CompletionRequest): Record<string, unknown> {
+    // The deployment in the URL selects the model
+    const { model, ...body } = super.buildRequestBody(request);
+    return body;
+  }
+}
+
+export function createUpstreamClient(config: UpstreamConfig): OpenAICompatibleClient {
+  return config.type === 'azure' ? new AzureOpenAIClient(config) : new OpenAICompatibleClient(config);
+}
+
+function trimTrailingSlash(url: string): string {
+  return url.trim().replace(/\/+$/, '');
+}
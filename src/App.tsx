@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { Stack, Text, MessageBar, MessageBarType, Toggle, Spinner, SpinnerSize, IconButton, Pivot, PivotItem, DefaultButton } from '@fluentui/react';
 import InputBox from './components/InputBox';
 import RunQueryButton from './components/RunQueryButton';
@@ -11,14 +11,28 @@ import ErrorBoundary from './components/ErrorBoundary';
 import AdvancedOptions from './components/AdvancedOptions';
 import QueryHistory from './components/QueryHistory';
 import SchemaManager from './components/SchemaManager';
+import ProviderSettings from './components/ProviderSettings';
+import RedactionSettings from './components/RedactionSettings';
 import SQLValidator from './components/SQLValidator';
 import ExportOptionsComponent from './components/ExportOptions';
-import { getWorksheetNames } from './utils/excelHelpers';
-import { openAIService, SQLGenerationOptions } from './utils/openaiService';
+import ResultsPreview from './components/ResultsPreview';
+import GenerationReport from './components/GenerationReport';
+import ConversationThread from './components/ConversationThread';
+import UsageMeter from './components/UsageMeter';
+import ClarificationChips from './components/ClarificationChips';
+import { getWorksheetNames, getWorkbookDataTables, insertDataToRange } from './utils/excelHelpers';
+import { openAIService, SQLGenerationOptions, SQLGenerationResult, SQLClarification, ClarificationAnswer, isClarification } from './utils/openaiService';
+import { OperationCancelledError, OperationTimeoutError, throwIfCancelled } from './utils/cancellation';
 import { mockDataGenerator } from './utils/mockDataGenerator';
-import { queryHistoryManager } from './utils/queryHistory';
+import { offlineSQLGenerator } from './utils/offlineSQLGenerator';
+import { queryEngine } from './utils/queryEngine';
+import { queryHistoryManager, QueryGenerationDetails } from './utils/queryHistory';
+import { conversationManager, Conversation, ConversationTurn } from './utils/conversationManager';
 import { schemaManager, DatabaseSchema } from './utils/schemaManager';
-import { sqlValidator, ValidationResult } from './utils/sqlValidator';
+import { sqlValidator, ValidationResult, UnsafeSQLError } from './utils/sqlValidator';
+import { DEFAULT_DIALECT } from './utils/sqlDialects';
+import { usageTracker, UsageSummary } from './utils/usageTracker';
+import { RequestWaitState, describeWaitState } from './utils/rateLimiting';
 
 const App: React.FC = () => {
   const [loading, setLoading] = useState(false);
@@ -33,18 +47,31 @@ const App: React.FC = () => {
     includeComments: true,
     limitResults: 100,
     preferCTEs: false,
-    includePerformanceHints: false
+    includePerformanceHints: false,
+    maxRepairAttempts: 2,
+    maxExamples: 3,
+    allowClarification: true
   });
-  const [apiStats, setApiStats] = useState({ requestCount: 0, lastRequestTime: 0 });
+  const [usageSummary, setUsageSummary] = useState<UsageSummary | null>(null);
   const [showAdvancedOptions, setShowAdvancedOptions] = useState(false);
   const [currentSchema, setCurrentSchema] = useState<DatabaseSchema | null>(null);
   const [validationResult, setValidationResult] = useState<ValidationResult | null>(null);
-  const [mockData, setMockData] = useState<any[][]>([]);
+  const [resultData, setResultData] = useState<any[][]>([]);
+  const [generationResult, setGenerationResult] = useState<SQLGenerationResult | null>(null);
+  const [conversation, setConversation] = useState<Conversation | null>(null);
   const [executionTime, setExecutionTime] = useState<number>(0);
+  const [streaming, setStreaming] = useState<{ sql: string; attempt: number } | null>(null);
+  const [clarification, setClarification] = useState<SQLClarification | null>(null);
+  const [clarificationAnswers, setClarificationAnswers] = useState<ClarificationAnswer[]>([]);
+  const [waitState, setWaitState] = useState<RequestWaitState | null>(null);
+  const [inserting, setInserting] = useState(false);
+  const operationController = useRef<AbortController | null>(null);
   
   // UI State
   const [showQueryHistory, setShowQueryHistory] = useState(false);
   const [showSchemaManager, setShowSchemaManager] = useState(false);
+  const [showProviderSettings, setShowProviderSettings] = useState(false);
+  const [showRedactionSettings, setShowRedactionSettings] = useState(false);
   const [showExportOptions, setShowExportOptions] = useState(false);
   const [activeTab, setActiveTab] = useState('main');
 
@@ -52,14 +79,18 @@ const App: React.FC = () => {
     // Load worksheets and default schema on component mount
     loadWorksheets();
     loadDefaultSchema();
+    conversationManager.getConversation().then(setConversation);
   }, []);
 
   useEffect(() => {
-    // Update API stats
-    const stats = openAIService.getUsageStats();
-    setApiStats(stats);
+    // Update token usage and budget status
+    loadUsageSummary();
   }, [loading]);
 
+  const loadUsageSummary = async () => {
+    setUsageSummary(await usageTracker.getSummary());
+  };
+
   const loadWorksheets = async () => {
     try {
       const names = await getWorksheetNames();
@@ -81,7 +112,20 @@ const App: React.FC = () => {
     }
   };
 
-  const handleRunQuery = async () => {
+  const handleRunQuery = () => runQuery([]);
+
+  // Regenerates the question with the option the user picked added to their earlier answers
+  const handleClarificationAnswer = (answer: string) => {
+    if (!clarification) return;
+    runQuery([...clarificationAnswers, { question: clarification.question, answer }]);
+  };
+
+  const handleQuestionChange = (value: string) => {
+    setQuestion(value);
+    setClarification(null);
+  };
+
+  const runQuery = async (clarifications: ClarificationAnswer[]) => {
     if (!question.trim()) {
       setError('Please enter a question first.');
       return;
@@ -89,139 +133,175 @@ const App: React.FC = () => {
     
     setLoading(true);
     setError(null);
+    setResultData([]);
+    setGenerationResult(null);
+    setClarification(null);
     const startTime = Date.now();
+    // Answers to clarifying questions are kept with the question in the thread and history
+    const recordedQuestion = clarifications.length > 0
+      ? `${question} (${clarifications.map(c => c.answer).join('; ')})`
+      : question;
+    const controller = new AbortController();
+    operationController.current = controller;
+    let generatedSQL = '';
+    let details: QueryGenerationDetails | undefined;
     
     try {
-      let generatedSQL: string;
-      
       if (useOpenAI) {
-        // Use OpenAI API for SQL generation
-        generatedSQL = await openAIService.generateSQL(question, sqlOptions);
+        // Generate SQL with the configured model, repairing validation errors.
+        // The active conversation thread gives follow-ups the earlier queries.
+        // The SQL streams into the preview; validation and execution wait for the final SQL.
+        const thread = conversation ? conversationManager.getThread(conversation) : [];
+        const generation = await openAIService.generateSQL(question, { ...sqlOptions, clarifications }, currentSchema, thread, {
+          onPartialSQL: (partialSQL, attempt) => setStreaming({ sql: partialSQL, attempt }),
+          onWaitState: setWaitState,
+          signal: controller.signal
+        });
+        setStreaming(null);
+        if (isClarification(generation)) {
+          // Wait for the user to pick an option before generating SQL
+          setClarification(generation);
+          setClarificationAnswers(clarifications);
+          return;
+        }
+        setGenerationResult(generation);
+        generatedSQL = generation.sql;
+        details = { assumptions: generation.assumptions, confidence: generation.confidence };
       } else {
-        // Use fallback mock SQL generation
-        generatedSQL = generateMockSQL(question);
-        await new Promise(resolve => setTimeout(resolve, 1000)); // Simulate delay
+        // Build the SQL offline from the schema's tables and columns
+        const schema = currentSchema || await schemaManager.getDefaultSchema();
+        const offline = offlineSQLGenerator.generate(question, schema, {
+          dialect: sqlOptions.dialect,
+          limitResults: sqlOptions.limitResults,
+          includeComments: sqlOptions.includeComments
+        });
+        generatedSQL = offline.sql;
+        details = { assumptions: offline.assumptions };
+        throwIfCancelled(controller.signal);
       }
       
       setSql(generatedSQL);
+      setConversation(await conversationManager.addTurn(recordedQuestion, generatedSQL));
       
-      // Generate mock data for preview
-      const data = mockDataGenerator.generateDataFromSQL(generatedSQL, {
-        includeHeaders: true,
-        formatForExcel: true,
-        maxRows: 20
-      });
-      setMockData(data);
+      // Execute the SQL against the workbook's worksheets and Excel tables,
+      // unless the schema's safety policy blocks it
+      try {
+        sqlValidator.assertSafe(generatedSQL, currentSchema?.safetyPolicy);
+        const tables = await getWorkbookDataTables({ signal: controller.signal });
+        const result = queryEngine.execute(generatedSQL, tables);
+        setResultData(queryEngine.toGrid(result));
+      } catch (execError) {
+        if (execError instanceof OperationCancelledError) throw execError;
+        console.error('SQL execution error:', execError);
+        const errorMessage = execError instanceof Error ? execError.message : 'Unknown error';
+        setError(execError instanceof UnsafeSQLError
+          ? `The generated SQL was not run. ${errorMessage}`
+          : `The generated SQL could not be run against the workbook data: ${errorMessage}`);
+        await queryHistoryManager.addQuery(recordedQuestion, generatedSQL, 'failed', Date.now() - startTime, errorMessage, details);
+        return;
+      }
       
       // Add to query history
-      await queryHistoryManager.addQuery(question, generatedSQL, true, Date.now() - startTime);
+      await queryHistoryManager.addQuery(recordedQuestion, generatedSQL, 'success', Date.now() - startTime, undefined, details);
       
     } catch (err) {
+      if (err instanceof OperationCancelledError) {
+        setError(generatedSQL ? 'Query cancelled before the results were loaded.' : 'Query cancelled before the SQL was complete.');
+        await queryHistoryManager.addQuery(recordedQuestion, generatedSQL, 'cancelled', Date.now() - startTime, undefined, details);
+        return;
+      }
       console.error('SQL generation error:', err);
       const errorMessage = err instanceof Error ? err.message : 'Unknown error';
       setError(`Failed to convert question to SQL: ${errorMessage}`);
       
       // Add failed query to history
-      await queryHistoryManager.addQuery(question, '', false, Date.now() - startTime, errorMessage);
+      await queryHistoryManager.addQuery(recordedQuestion, '', 'failed', Date.now() - startTime, errorMessage);
     } finally {
+      operationController.current = null;
+      setStreaming(null);
+      setWaitState(null);
       setExecutionTime(Date.now() - startTime);
       setLoading(false);
     }
   };
 
-  const generateMockSQL = (question: string): string => {
-    const lowerQuestion = question.toLowerCase();
-    
-    if (lowerQuestion.includes('carrier') && lowerQuestion.includes('cost')) {
-      return `-- Carrier cost analysis
-SELECT 
-  carrier, 
-  SUM(cost) as total_cost,
-  COUNT(*) as shipments,
-  AVG(cost) as avg_cost_per_shipment
-FROM freight_data 
-WHERE quarter = 'Q1 2025' 
-GROUP BY carrier
-ORDER BY total_cost DESC`;
-    }
-    
-    if (lowerQuestion.includes('quarter') || lowerQuestion.includes('q1')) {
-      return `-- Quarterly analysis
-SELECT 
-  quarter,
-  carrier,
-  SUM(cost) as total_cost,
-  COUNT(*) as shipment_count
-FROM freight_data 
-WHERE quarter = 'Q1 2025' 
-GROUP BY quarter, carrier
-ORDER BY quarter, total_cost DESC`;
-    }
-    
-    if (lowerQuestion.includes('total') || lowerQuestion.includes('sum')) {
-      return `-- Total freight analysis
-SELECT 
-  SUM(cost) as total_freight_cost,
-  COUNT(*) as total_shipments,
-  AVG(cost) as avg_shipment_cost
-FROM freight_data 
-WHERE quarter = 'Q1 2025'`;
-    }
-    
-    if (lowerQuestion.includes('performance') || lowerQuestion.includes('delivery')) {
-      return `-- Performance metrics
-SELECT 
-  carrier,
-  AVG(delivery_time_days) as avg_delivery_time,
-  COUNT(*) as total_shipments,
-  SUM(CASE WHEN status = 'Delivered' THEN 1 ELSE 0 END) as delivered_shipments
-FROM freight_data 
-WHERE quarter = 'Q1 2025'
-GROUP BY carrier
-ORDER BY avg_delivery_time ASC`;
-    }
-    
-    // Default SQL for any question
-    return `-- General freight data
-SELECT 
-  carrier,
-  quarter,
-  cost,
-  shipment_date,
-  service_type
-FROM freight_data 
-WHERE quarter = 'Q1 2025'
-ORDER BY shipment_date DESC
-LIMIT 100`;
+  // Cancels whichever of query generation, execution or insertion is running
+  const handleCancel = () => {
+    operationController.current?.abort();
   };
 
   const handleInsertToExcel = async () => {
+    if (resultData.length === 0) {
+      setError('Run the query first to produce results to insert.');
+      return;
+    }
+    
+    const controller = new AbortController();
+    operationController.current = controller;
+    setInserting(true);
+    
     try {
-      // Use existing mock data or generate new data
-      const dataToInsert = mockData.length > 0 ? mockData : mockDataGenerator.generateDataFromSQL(sql, {
-        includeHeaders: true,
-        formatForExcel: true,
-        maxRows: 50
-      });
-      
       // Insert data to Excel
       if (selectedRange && selectedWorksheet) {
-        await mockDataGenerator.insertDataToRange(selectedWorksheet, selectedRange, dataToInsert);
+        await insertDataToRange(selectedWorksheet, selectedRange, resultData, { signal: controller.signal });
       } else {
         // Insert to active worksheet if no specific range selected
-        await mockDataGenerator.insertDataToActiveWorksheet(dataToInsert);
+        await mockDataGenerator.insertDataToActiveWorksheet(resultData, { signal: controller.signal });
       }
     } catch (err) {
+      if (err instanceof OperationCancelledError) {
+        setError('Insertion cancelled. Nothing was written to the worksheet.');
+        return;
+      }
       console.error('Failed to insert data to Excel:', err);
-      setError('Failed to insert data to Excel. Please try again.');
+      setError(err instanceof OperationTimeoutError ? `${err.message}. Please try again.` : 'Failed to insert data to Excel. Please try again.');
+    } finally {
+      operationController.current = null;
+      setInserting(false);
     }
   };
 
+  const handleSelectTurn = async (turn: ConversationTurn) => {
+    // The selected turn becomes the parent of the next question
+    setConversation(await conversationManager.setActiveTurn(turn.id));
+    showTurn(turn);
+  };
+
+  const handleSwitchBranch = async (turn: ConversationTurn) => {
+    if (!conversation) return;
+    const leaf = conversationManager.getLatestLeaf(conversation, turn.id) || turn;
+    setConversation(await conversationManager.setActiveTurn(leaf.id));
+    showTurn(leaf);
+  };
+
+  const handleNewConversation = async () => {
+    setConversation(await conversationManager.startNewConversation());
+    setQuestion('');
+    setClarification(null);
+    setSql('');
+    setResultData([]);
+    setGenerationResult(null);
+  };
+
+  const showTurn = (turn: ConversationTurn) => {
+    setSql(turn.sql);
+    setResultData([]);
+    setGenerationResult(null);
+    setError(null);
+  };
+
   const handleSelectQueryFromHistory = (question: string, sql: string) => {
     setQuestion(question);
+    setClarification(null);
     setSql(sql);
+    setResultData([]);
+    setGenerationResult(null);
   };
 
+  // Generated SQL keeps the dialect it was written for; otherwise the options or schema decide
+  const metricFormats = Object.fromEntries((currentSchema?.metrics || []).map(metric => [metric.name, metric.format || 'number']));
+  const sqlDialect = generationResult?.dialect || sqlOptions.dialect || currentSchema?.dialect || DEFAULT_DIALECT;
+
   const handleSchemaChange = (schema: DatabaseSchema) => {
     setCurrentSchema(schema);
   };
@@ -246,6 +326,16 @@ LIMIT 100`;
               title="Schema Manager"
               onClick={() => setShowSchemaManager(true)}
             />
+            <IconButton
+              iconProps={{ iconName: 'Settings' }}
+              title="Model Provider"
+              onClick={() => setShowProviderSettings(true)}
+            />
+            <IconButton
+              iconProps={{ iconName: 'Lock' }}
+              title="Data Redaction"
+              onClick={() => setShowRedactionSettings(true)}
+            />
             <IconButton
               iconProps={{ iconName: 'Download' }}
               title="Export Options"
@@ -261,17 +351,17 @@ LIMIT 100`;
               <Stack horizontal horizontalAlign="space-between" verticalAlign="center">
                 <TooltipHelp />
                 <Toggle 
-                  label="Use OpenAI" 
+                  label="Use AI Model" 
                   checked={useOpenAI} 
-                  onText="OpenAI" 
-                  offText="Mock" 
+                  onText="LLM" 
+                  offText="Offline" 
                   onChange={(_, checked) => setUseOpenAI(checked || false)}
                 />
               </Stack>
         
               {useOpenAI && (
                 <Stack tokens={{ childrenGap: 8 }}>
-                  <Text variant="small">API Requests: {apiStats.requestCount}</Text>
+                  <UsageMeter summary={usageSummary} onChange={loadUsageSummary} />
                   <AdvancedOptions 
                     options={sqlOptions}
                     onOptionsChange={setSqlOptions}
@@ -281,19 +371,54 @@ LIMIT 100`;
                 </Stack>
               )}
               
+              {conversation && (
+                <ConversationThread
+                  conversation={conversation}
+                  onSelectTurn={handleSelectTurn}
+                  onSwitchBranch={handleSwitchBranch}
+                  onNewConversation={handleNewConversation}
+                />
+              )}
+              
               <InputBox 
                 value={question} 
-                onChange={setQuestion} 
-                placeholder="Ask a question about your freight data..."
+                onChange={handleQuestionChange} 
+                placeholder={conversation?.activeTurnId
+                  ? 'Ask a follow-up, e.g. "now only for Express shipments"...'
+                  : `Ask a question about your ${currentSchema?.name || 'data'}...`}
               />
               
+              {clarification && (
+                <ClarificationChips
+                  clarification={clarification}
+                  onSelect={handleClarificationAnswer}
+                  onDismiss={() => setClarification(null)}
+                  disabled={loading}
+                />
+              )}
+              
               <RunQueryButton 
                 onClick={handleRunQuery} 
+                onCancel={handleCancel}
                 loading={loading} 
-                disabled={!question.trim()}
+                disabled={!question.trim() || inserting || (useOpenAI && usageSummary?.status.level === 'blocked')}
               />
               
-              {loading && <LoadingSpinner />}
+              {loading && !streaming && <LoadingSpinner />}
+              
+              {waitState && (
+                <MessageBar messageBarType={MessageBarType.info}>
+                  {describeWaitState(waitState)}
+                </MessageBar>
+              )}
+              
+              {streaming && (
+                <SQLPreview
+                  sql={streaming.sql}
+                  streamingStatus={streaming.attempt > 1 ? `Repairing (attempt ${streaming.attempt})...` : 'Generating...'}
+                  onStop={handleCancel}
+                />
+              )}
               
               {error && (
                 <MessageBar messageBarType={MessageBarType.error} onDismiss={() => setError(null)}>
@@ -301,10 +426,14 @@ LIMIT 100`;
                 </MessageBar>
               )}
               
-              {sql && (
+              {sql && !streaming && (
                 <Stack tokens={{ childrenGap: 8 }}>
                   <SQLPreview sql={sql} onCopy={() => console.log('SQL copied')} />
                   
+                  {generationResult && <GenerationReport result={generationResult} />}
+                  
+                  <ResultsPreview data={resultData} executionTime={executionTime} columnFormats={metricFormats} />
+                  
                   <Stack horizontal tokens={{ childrenGap: 8 }}>
                     <WorksheetDropdown 
                       worksheets={worksheets} 
@@ -318,11 +447,19 @@ LIMIT 100`;
                     />
                   </Stack>
                   
-                  <DefaultButton 
-                    text="Insert Data to Excel" 
-                    onClick={handleInsertToExcel}
-                    disabled={!sql.trim()}
-                  />
+                  {inserting ? (
+                    <DefaultButton 
+                      text="Cancel Insertion" 
+                      iconProps={{ iconName: 'Cancel' }}
+                      onClick={handleCancel}
+                    />
+                  ) : (
+                    <DefaultButton 
+                      text="Insert Data to Excel" 
+                      onClick={handleInsertToExcel}
+                      disabled={!sql.trim() || resultData.length === 0 || loading}
+                    />
+                  )}
                 </Stack>
               )}
             </Stack>
@@ -332,6 +469,7 @@ LIMIT 100`;
             <SQLValidator 
               sql={sql} 
               schema={currentSchema}
+              dialect={sqlDialect}
               onValidationComplete={handleValidationComplete}
             />
           </PivotItem>
@@ -350,11 +488,23 @@ LIMIT 100`;
           onSchemaChange={handleSchemaChange}
         />
         
+        <ProviderSettings
+          isVisible={showProviderSettings}
+          onClose={() => setShowProviderSettings(false)}
+        />
+        
+        <RedactionSettings
+          isVisible={showRedactionSettings}
+          onClose={() => setShowRedactionSettings(false)}
+        />
+        
         <ExportOptionsComponent
           sql={sql}
           question={question}
-          data={mockData}
+          data={resultData}
           executionTime={executionTime}
+          dialect={sqlDialect}
+          safetyPolicy={currentSchema?.safetyPolicy}
           isVisible={showExportOptions}
           onClose={() => setShowExportOptions(false)}
         />
@@ -1,6 +1,15 @@
 import React from 'react';
-import { Stack, Toggle, Text, SpinButton, DefaultButton } from '@fluentui/react';
+import { Stack, Toggle, Text, SpinButton, DefaultButton, Dropdown, IDropdownOption } from '@fluentui/react';
 import { SQLGenerationOptions } from '../utils/openaiService';
+import { SQL_DIALECTS, SQLDialect } from '../utils/sqlDialects';
+import { DEFAULT_TIMEOUTS } from '../utils/cancellation';
+
+const SCHEMA_DIALECT_KEY = 'schema';
+
+const dialectOptions: IDropdownOption[] = [
+  { key: SCHEMA_DIALECT_KEY, text: 'Use schema dialect' },
+  ...Object.values(SQL_DIALECTS).map(dialect => ({ key: dialect.id, text: dialect.label }))
+];
 
 interface AdvancedOptionsProps {
   options: SQLGenerationOptions;
@@ -26,6 +35,34 @@ const AdvancedOptions: React.FC<AdvancedOptionsProps> = ({
     }
   };
 
+  const handleRepairAttemptsChange = (value: string) => {
+    const numValue = parseInt(value, 10);
+    if (!isNaN(numValue) && numValue >= 0 && numValue <= 5) {
+      onOptionsChange({ ...options, maxRepairAttempts: numValue });
+    }
+  };
+
+  const handleExamplesChange = (value: string) => {
+    const numValue = parseInt(value, 10);
+    if (!isNaN(numValue) && numValue >= 0 && numValue <= 10) {
+      onOptionsChange({ ...options, maxExamples: numValue });
+    }
+  };
+
+  const handleRetriesChange = (value: string) => {
+    const numValue = parseInt(value, 10);
+    if (!isNaN(numValue) && numValue >= 0 && numValue <= 5) {
+      onOptionsChange({ ...options, maxRetries: numValue });
+    }
+  };
+
+  const handleTimeoutChange = (value: string) => {
+    const seconds = parseInt(value, 10);
+    if (!isNaN(seconds) && seconds >= 10 && seconds <= 300) {
+      onOptionsChange({ ...options, timeoutMs: seconds * 1000 });
+    }
+  };
+
   return (
     <Stack tokens={{ childrenGap: 8 }}>
       <DefaultButton 
@@ -64,6 +101,24 @@ const AdvancedOptions: React.FC<AdvancedOptionsProps> = ({
             onChange={(_, checked) => handleToggleChange('includePerformanceHints', checked || false)}
           />
           
+          <Toggle 
+            label="Ask Clarifying Questions" 
+            checked={options.allowClarification} 
+            onText="On" 
+            offText="Off"
+            onChange={(_, checked) => handleToggleChange('allowClarification', checked || false)}
+          />
+          
+          <Dropdown
+            label="SQL Dialect"
+            selectedKey={options.dialect || SCHEMA_DIALECT_KEY}
+            options={dialectOptions}
+            onChange={(_, option) => onOptionsChange({
+              ...options,
+              dialect: option?.key === SCHEMA_DIALECT_KEY ? undefined : option?.key as SQLDialect
+            })}
+          />
+          
           <SpinButton
             label="Result Limit"
             value={options.limitResults?.toString() || '100'}
@@ -74,6 +129,50 @@ const AdvancedOptions: React.FC<AdvancedOptionsProps> = ({
             onDecrement={(value) => handleLimitChange((parseInt(value) - 10).toString())}
             onValidate={handleLimitChange}
           />
+          
+          <SpinButton
+            label="Repair Attempts"
+            value={(options.maxRepairAttempts ?? 2).toString()}
+            min={0}
+            max={5}
+            step={1}
+            onIncrement={(value) => handleRepairAttemptsChange((parseInt(value) + 1).toString())}
+            onDecrement={(value) => handleRepairAttemptsChange((parseInt(value) - 1).toString())}
+            onValidate={handleRepairAttemptsChange}
+          />
+          
+          <SpinButton
+            label="Favorite Examples"
+            value={(options.maxExamples ?? 3).toString()}
+            min={0}
+            max={10}
+            step={1}
+            onIncrement={(value) => handleExamplesChange((parseInt(value) + 1).toString())}
+            onDecrement={(value) => handleExamplesChange((parseInt(value) - 1).toString())}
+            onValidate={handleExamplesChange}
+          />
+          
+          <SpinButton
+            label="Request Retries"
+            value={(options.maxRetries ?? 3).toString()}
+            min={0}
+            max={5}
+            step={1}
+            onIncrement={(value) => handleRetriesChange((parseInt(value) + 1).toString())}
+            onDecrement={(value) => handleRetriesChange((parseInt(value) - 1).toString())}
+            onValidate={handleRetriesChange}
+          />
+          
+          <SpinButton
+            label="Timeout (seconds)"
+            value={Math.round((options.timeoutMs ?? DEFAULT_TIMEOUTS.generation) / 1000).toString()}
+            min={10}
+            max={300}
+            step={10}
+            onIncrement={(value) => handleTimeoutChange((parseInt(value) + 10).toString())}
+            onDecrement={(value) => handleTimeoutChange((parseInt(value) - 10).toString())}
+            onValidate={handleTimeoutChange}
+          />
         </Stack>
       )}
     </Stack>
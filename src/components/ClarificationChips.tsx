@@ -0,0 +1,49 @@
+import React from 'react';
+import { Stack, Text, DefaultButton, IconButton } from '@fluentui/react';
+import { SQLClarification } from '../utils/openaiService';
+
+interface ClarificationChipsProps {
+  clarification: SQLClarification;
+  onSelect: (option: string) => void;
+  onDismiss: () => void;
+  disabled?: boolean;
+}
+
+const chipStyles = {
+  root: { borderRadius: 16, height: 28, minWidth: 0, padding: '0 12px', borderColor: '#0078d4' },
+  label: { fontWeight: 'normal', fontSize: 12 }
+};
+
+// Shows the model's clarifying question with one chip per answer
+const ClarificationChips: React.FC<ClarificationChipsProps> = ({ clarification, onSelect, onDismiss, disabled = false }) => {
+  return (
+    <Stack tokens={{ childrenGap: 6 }} styles={{ root: { padding: 8, background: '#f3f9fd', borderRadius: 4 } }}>
+      <Stack horizontal horizontalAlign="space-between" verticalAlign="center">
+        <Text variant="small" styles={{ root: { fontWeight: 600 } }}>{clarification.question}</Text>
+        <IconButton
+          iconProps={{ iconName: 'Cancel' }}
+          title="Dismiss"
+          ariaLabel="Dismiss clarifying question"
+          onClick={onDismiss}
+          styles={{ root: { height: 24, width: 24 } }}
+        />
+      </Stack>
+      <Stack horizontal wrap tokens={{ childrenGap: 6 }}>
+        {clarification.options.map(option => (
+          <DefaultButton
+            key={option}
+            text={option}
+            onClick={() => onSelect(option)}
+            disabled={disabled}
+            styles={chipStyles}
+          />
+        ))}
+      </Stack>
+      <Text variant="small" styles={{ root: { color: '#666' } }}>
+        Pick an option, or edit the question to say what you meant.
+      </Text>
+    </Stack>
+  );
+};
+
+export default ClarificationChips;
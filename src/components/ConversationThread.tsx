@@ -0,0 +1,105 @@
+import React from 'react';
+import { Stack, Text, IconButton, DefaultButton, TooltipHost } from '@fluentui/react';
+import { conversationManager, Conversation, ConversationTurn } from '../utils/conversationManager';
+
+interface ConversationThreadProps {
+  conversation: Conversation;
+  onSelectTurn: (turn: ConversationTurn) => void;
+  onSwitchBranch: (turn: ConversationTurn) => void;
+  onNewConversation: () => void;
+}
+
+const ConversationThread: React.FC<ConversationThreadProps> = ({
+  conversation,
+  onSelectTurn,
+  onSwitchBranch,
+  onNewConversation
+}) => {
+  const thread = conversationManager.getThread(conversation);
+  if (conversation.turns.length === 0) return null;
+
+  const activeTurn = thread[thread.length - 1];
+  const branchesFromActive = activeTurn ? conversationManager.getChildren(conversation, activeTurn.id).length : 0;
+
+  const renderBranchSwitcher = (turn: ConversationTurn) => {
+    const siblings = conversationManager.getSiblings(conversation, turn.id);
+    if (siblings.length < 2) return null;
+
+    const index = siblings.findIndex(sibling => sibling.id === turn.id);
+    return (
+      <Stack horizontal verticalAlign="center">
+        <IconButton
+          iconProps={{ iconName: 'ChevronLeft' }}
+          title="Previous branch"
+          disabled={index === 0}
+          onClick={() => onSwitchBranch(siblings[index - 1])}
+          styles={{ root: { width: 20, height: 20 }, icon: { fontSize: 10 } }}
+        />
+        <Text variant="tiny">{index + 1}/{siblings.length}</Text>
+        <IconButton
+          iconProps={{ iconName: 'ChevronRight' }}
+          title="Next branch"
+          disabled={index === siblings.length - 1}
+          onClick={() => onSwitchBranch(siblings[index + 1])}
+          styles={{ root: { width: 20, height: 20 }, icon: { fontSize: 10 } }}
+        />
+      </Stack>
+    );
+  };
+
+  return (
+    <Stack tokens={{ childrenGap: 6 }} styles={{ root: { padding: 8, background: '#f8f9fa', borderRadius: 4 } }}>
+      <Stack horizontal horizontalAlign="space-between" verticalAlign="center">
+        <span style={{ fontWeight: 'bold' }}>Conversation</span>
+        <DefaultButton
+          text="New conversation"
+          iconProps={{ iconName: 'Add' }}
+          onClick={onNewConversation}
+          styles={{ root: { height: 24, padding: '0 6px' }, label: { fontSize: 12 } }}
+        />
+      </Stack>
+
+      {thread.length === 0 && (
+        <Text variant="small" styles={{ root: { color: '#666' } }}>
+          The next question starts a new branch.
+        </Text>
+      )}
+
+      {thread.map((turn, index) => {
+        const isActive = turn.id === activeTurn?.id;
+        return (
+          <Stack key={turn.id} horizontal verticalAlign="center" tokens={{ childrenGap: 4 }}>
+            <Text variant="small" styles={{ root: { color: '#666', minWidth: 16 } }}>{index + 1}.</Text>
+            <TooltipHost content={isActive ? 'Current turn' : 'Branch from this turn'}>
+              <div
+                role="button"
+                tabIndex={0}
+                onClick={() => onSelectTurn(turn)}
+                onKeyDown={(event) => event.key === 'Enter' && onSelectTurn(turn)}
+                style={{
+                  cursor: 'pointer',
+                  padding: '2px 6px',
+                  borderRadius: 4,
+                  fontSize: 12,
+                  background: isActive ? '#deecf9' : 'transparent',
+                  border: isActive ? '1px solid #0078d4' : '1px solid transparent'
+                }}
+              >
+                {turn.question}
+              </div>
+            </TooltipHost>
+            {renderBranchSwitcher(turn)}
+          </Stack>
+        );
+      })}
+
+      {branchesFromActive > 0 && (
+        <Text variant="small" styles={{ root: { color: '#666' } }}>
+          The next question adds a new branch after turn {thread.length}.
+        </Text>
+      )}
+    </Stack>
+  );
+};
+
+export default ConversationThread;
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useRef } from 'react';
 import { 
   Stack, 
   Text, 
@@ -17,12 +17,18 @@ import {
   SpinnerSize
 } from '@fluentui/react';
 import { exportManager, ExportData, ExportOptions } from '../utils/exportManager';
+import { sqlExplainer, SQLExplanation } from '../utils/sqlExplainer';
+import { SQLDialect } from '../utils/sqlDialects';
+import { OperationCancelledError, OperationTimeoutError } from '../utils/cancellation';
+import { SafetyPolicy, UnsafeSQLError } from '../utils/sqlValidator';
 
 interface ExportOptionsProps {
   sql: string;
   question: string;
   data?: any[][];
   executionTime?: number;
+  dialect?: SQLDialect;
+  safetyPolicy?: SafetyPolicy;
   isVisible: boolean;
   onClose: () => void;
 }
@@ -32,15 +38,19 @@ const ExportOptionsComponent: React.FC<ExportOptionsProps> = ({
   question, 
   data, 
   executionTime, 
+  dialect,
+  safetyPolicy,
   isVisible, 
   onClose 
 }) => {
   const [exportFormat, setExportFormat] = useState<string>('csv');
   const [includeHeaders, setIncludeHeaders] = useState(true);
   const [includeMetadata, setIncludeMetadata] = useState(true);
+  const [includeExplanation, setIncludeExplanation] = useState(true);
   const [customFilename, setCustomFilename] = useState('');
   const [exporting, setExporting] = useState(false);
   const [showSuccess, setShowSuccess] = useState(false);
+  const exportController = useRef<AbortController | null>(null);
 
   const formatOptions: IDropdownOption[] = [
     { key: 'csv', text: 'CSV File' },
@@ -57,11 +67,15 @@ const ExportOptionsComponent: React.FC<ExportOptionsProps> = ({
     }
 
     setExporting(true);
+    exportController.current = new AbortController();
     try {
       const exportData: ExportData = {
         sql,
         question,
         data,
+        dialect,
+        safetyPolicy,
+        explanation: getExplanation(),
         metadata: {
           generatedAt: new Date().toISOString(),
           executionTime,
@@ -74,23 +88,39 @@ const ExportOptionsComponent: React.FC<ExportOptionsProps> = ({
         format: exportFormat as any,
         includeHeaders,
         includeMetadata,
+        includeExplanation,
         filename: customFilename || undefined
       };
 
-      await exportManager.exportData(exportData, options);
+      await exportManager.exportData(exportData, options, exportController.current.signal);
       setShowSuccess(true);
       setTimeout(() => {
         setShowSuccess(false);
         onClose();
       }, 2000);
     } catch (error) {
+      if (error instanceof OperationCancelledError) return;
+      if (error instanceof UnsafeSQLError) {
+        alert(error.unparsed ? `Export stopped. ${error.message}` : `Export blocked: ${error.message}`);
+        return;
+      }
       console.error('Export error:', error);
-      alert('Export failed. Please try again.');
+      alert(error instanceof OperationTimeoutError ? `${error.message}. Please try again.` : 'Export failed. Please try again.');
     } finally {
+      exportController.current = null;
       setExporting(false);
     }
   };
 
+  const getExplanation = (): SQLExplanation | undefined => {
+    try {
+      return sqlExplainer.explain(sql);
+    } catch (error) {
+      // SQL the parser can't read is exported without an explanation
+      return undefined;
+    }
+  };
+
   const handleFormatChange = (event: React.FormEvent<HTMLDivElement>, option?: IDropdownOption) => {
     setExportFormat(option?.key as string || 'csv');
   };
@@ -171,6 +201,13 @@ const ExportOptionsComponent: React.FC<ExportOptionsProps> = ({
             checked={includeMetadata}
             onChange={(_, checked) => setIncludeMetadata(checked || false)}
           />
+          {(exportFormat === 'markdown' || exportFormat === 'json') && (
+            <Toggle
+              label="Include plain-English explanation"
+              checked={includeExplanation}
+              onChange={(_, checked) => setIncludeExplanation(checked || false)}
+            />
+          )}
         </Stack>
 
         {/* Preview */}
@@ -195,7 +232,10 @@ const ExportOptionsComponent: React.FC<ExportOptionsProps> = ({
 
         {/* Export Actions */}
         <Stack horizontal tokens={{ childrenGap: 8 }} horizontalAlign="end">
-          <DefaultButton text="Cancel" onClick={onClose} disabled={exporting} />
+          <DefaultButton 
+            text={exporting ? 'Cancel Export' : 'Cancel'} 
+            onClick={exporting ? () => exportController.current?.abort() : onClose} 
+          />
           <PrimaryButton 
             text={exporting ? 'Exporting...' : 'Export'} 
             onClick={handleExport} 
@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import { Stack, Text, MessageBar, MessageBarType, Link } from '@fluentui/react';
+import { SQLGenerationResult } from '../utils/openaiService';
+import { formatCost } from '../utils/usageTracker';
+import { REDACTION_SOURCE_LABELS } from '../utils/redaction';
+
+interface GenerationReportProps {
+  result: SQLGenerationResult;
+}
+
+const getConfidenceColor = (confidence: number): string => {
+  if (confidence >= 0.8) return '#107c10';
+  if (confidence >= 0.5) return '#ca5010';
+  return '#a4262c';
+};
+
+const GenerationReport: React.FC<GenerationReportProps> = ({ result }) => {
+  const [showDetails, setShowDetails] = useState(false);
+  const [showExamples, setShowExamples] = useState(false);
+  const [showRedactions, setShowRedactions] = useState(false);
+  const repairCount = result.attempts.length - 1;
+  const hasRepairs = repairCount > 0 || result.remainingErrors.length > 0;
+
+  const hasRemainingErrors = result.remainingErrors.length > 0;
+  const summary = hasRemainingErrors
+    ? `The SQL still has ${result.remainingErrors.length} validation error${result.remainingErrors.length !== 1 ? 's' : ''} after ${repairCount} repair attempt${repairCount !== 1 ? 's' : ''}.`
+    : `Fixed ${result.fixedErrors.length} validation error${result.fixedErrors.length !== 1 ? 's' : ''} in ${repairCount} repair attempt${repairCount !== 1 ? 's' : ''}.`;
+
+  return (
+    <Stack tokens={{ childrenGap: 8 }}>
+      <Stack tokens={{ childrenGap: 4 }} styles={{ root: { padding: 8, background: '#f8f9fa', borderRadius: 4 } }}>
+        <Text variant="small">
+          Model confidence:{' '}
+          <span style={{ fontWeight: 'bold', color: getConfidenceColor(result.confidence) }}>
+            {Math.round(result.confidence * 100)}%
+          </span>
+        </Text>
+        <Text variant="small" styles={{ root: { color: '#666' } }}>
+          {result.usage.estimated ? 'About ' : ''}{result.usage.promptTokens.toLocaleString()} prompt + {result.usage.completionTokens.toLocaleString()} completion tokens
+          {result.usage.cost > 0 ? ` · ${formatCost(result.usage.cost)}` : ''}
+        </Text>
+        {result.examples.length > 0 && (
+          <Stack tokens={{ childrenGap: 2 }}>
+            <Text variant="small">
+              Based on {result.examples.length} favorite quer{result.examples.length !== 1 ? 'ies' : 'y'}{' '}
+              <Link onClick={() => setShowExamples(!showExamples)}>
+                {showExamples ? 'Hide examples' : 'Show examples'}
+              </Link>
+            </Text>
+            {showExamples && result.examples.map(example => (
+              <Text key={example.id} variant="small">
+                • {example.question}{' '}
+                <span style={{ color: '#666' }}>
+                  ({Math.round(example.score * 100)}% match{example.matchedTags.length > 0 ? `; tags: ${example.matchedTags.join(', ')}` : ''})
+                </span>
+              </Text>
+            ))}
+          </Stack>
+        )}
+        {result.redactions.length > 0 && (
+          <Stack tokens={{ childrenGap: 2 }}>
+            <Text variant="small">
+              {result.redactions.length} value{result.redactions.length !== 1 ? 's were' : ' was'} masked before sending{' '}
+              <Link onClick={() => setShowRedactions(!showRedactions)}>
+                {showRedactions ? 'Hide' : 'Show'}
+              </Link>
+            </Text>
+            {showRedactions && result.redactions.map(item => (
+              <Text key={item.placeholder} variant="small">
+                • {item.placeholder}: {item.preview}{' '}
+                <span style={{ color: '#666' }}>({item.rule}, from the {REDACTION_SOURCE_LABELS[item.source]})</span>
+              </Text>
+            ))}
+          </Stack>
+        )}
+        {result.assumptions.length > 0 && (
+          <Stack tokens={{ childrenGap: 2 }}>
+            <Text variant="small" styles={{ root: { fontWeight: 600 } }}>Assumptions</Text>
+            {result.assumptions.map((assumption, index) => (
+              <Text key={index} variant="small">• {assumption}</Text>
+            ))}
+          </Stack>
+        )}
+      </Stack>
+
+      {hasRepairs && (
+        <MessageBar messageBarType={hasRemainingErrors ? MessageBarType.warning : MessageBarType.success}>
+          <Stack tokens={{ childrenGap: 4 }}>
+            <Text variant="small">
+              {summary}{' '}
+              <Link onClick={() => setShowDetails(!showDetails)}>
+                {showDetails ? 'Hide details' : 'Show details'}
+              </Link>
+            </Text>
+
+            {showDetails && result.attempts.map(attempt => (
+              <Stack key={attempt.attempt} tokens={{ childrenGap: 2 }}>
+                <Text variant="small" styles={{ root: { fontWeight: 'bold' } }}>
+                  Attempt {attempt.attempt}: {attempt.errors.length === 0 ? 'valid' : `${attempt.errors.length} error${attempt.errors.length !== 1 ? 's' : ''}`}
+                </Text>
+                {attempt.errors.map((error, index) => (
+                  <Text key={index} variant="small">
+                    • {error.message}{error.line ? ` (line ${error.line})` : ''}
+                  </Text>
+                ))}
+              </Stack>
+            ))}
+          </Stack>
+        </MessageBar>
+      )}
+    </Stack>
+  );
+};
+
+export default GenerationReport;
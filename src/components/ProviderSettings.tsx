@@ -0,0 +1,206 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Stack,
+  Text,
+  DefaultButton,
+  PrimaryButton,
+  Dropdown,
+  IDropdownOption,
+  TextField,
+  SpinButton,
+  Dialog,
+  DialogType,
+  MessageBar,
+  MessageBarType
+} from '@fluentui/react';
+import {
+  llmProviderManager,
+  LLMProviderConfig,
+  LLMProviderSettings,
+  LLMProviderType,
+  ProxyStatus,
+  PROVIDER_LABELS
+} from '../utils/llmProviders';
+
+interface ProviderSettingsProps {
+  isVisible: boolean;
+  onClose: () => void;
+}
+
+const ProviderSettings: React.FC<ProviderSettingsProps> = ({ isVisible, onClose }) => {
+  const [settings, setSettings] = useState<LLMProviderSettings | null>(null);
+  const [proxyStatus, setProxyStatus] = useState<ProxyStatus | null>(null);
+  const [proxyError, setProxyError] = useState<string | null>(null);
+  const [checking, setChecking] = useState(false);
+  const [showSuccess, setShowSuccess] = useState(false);
+
+  useEffect(() => {
+    if (isVisible) {
+      llmProviderManager.getSettings().then(loaded => {
+        setSettings(loaded);
+        checkProxy(loaded.proxyUrl);
+      });
+    }
+  }, [isVisible]);
+
+  const checkProxy = async (proxyUrl: string) => {
+    setChecking(true);
+    setProxyError(null);
+    try {
+      setProxyStatus(await llmProviderManager.getProxyStatus(proxyUrl));
+    } catch (error) {
+      setProxyStatus(null);
+      setProxyError(`Could not reach the proxy server at ${proxyUrl}`);
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const providerOptions: IDropdownOption[] = (Object.keys(PROVIDER_LABELS) as LLMProviderType[]).map(type => {
+    const info = proxyStatus?.providers.find(provider => provider.type === type);
+    return {
+      key: type,
+      text: info ? `${PROVIDER_LABELS[type]} (${info.model})` : PROVIDER_LABELS[type],
+      disabled: !!proxyStatus && !info
+    };
+  });
+
+  const updateActiveConfig = (updates: Partial<LLMProviderConfig>) => {
+    if (!settings) return;
+    const type = settings.activeProvider;
+    setSettings({
+      ...settings,
+      providers: {
+        ...settings.providers,
+        [type]: { ...settings.providers[type], ...updates }
+      }
+    });
+  };
+
+  const handleSave = async () => {
+    if (!settings) return;
+    // Models the proxy no longer allows fall back to its default
+    const providers = { ...settings.providers };
+    proxyStatus?.providers.forEach(info => {
+      const { model, ...rest } = providers[info.type];
+      if (model && !info.models.includes(model)) providers[info.type] = rest;
+    });
+    await llmProviderManager.saveSettings({ ...settings, providers });
+    setShowSuccess(true);
+    setTimeout(() => {
+      setShowSuccess(false);
+      onClose();
+    }, 1500);
+  };
+
+  if (!isVisible || !settings) return null;
+
+  const config = settings.providers[settings.activeProvider];
+  const activeInfo = proxyStatus?.providers.find(provider => provider.type === settings.activeProvider);
+  const activeIsConfigured = !proxyStatus || !!activeInfo;
+  // A saved model the proxy no longer allows is shown as the default
+  const selectedModel = activeInfo && config.model && activeInfo.models.includes(config.model) ? config.model : activeInfo?.model;
+
+  return (
+    <Dialog
+      hidden={!isVisible}
+      onDismiss={onClose}
+      dialogContentProps={{
+        type: DialogType.normal,
+        title: 'Model Provider',
+        subText: 'Requests are sent through the proxy server, which holds the API keys'
+      }}
+      maxWidth={600}
+    >
+      <Stack tokens={{ childrenGap: 16 }}>
+        {showSuccess && (
+          <MessageBar messageBarType={MessageBarType.success}>
+            Provider settings saved!
+          </MessageBar>
+        )}
+
+        {/* Proxy */}
+        <Stack tokens={{ childrenGap: 8 }}>
+          <Stack horizontal tokens={{ childrenGap: 8 }} verticalAlign="end">
+            <Stack.Item grow>
+              <TextField
+                label="Proxy server URL"
+                value={settings.proxyUrl}
+                onChange={(_, value) => setSettings({ ...settings, proxyUrl: value || '' })}
+                required
+              />
+            </Stack.Item>
+            <DefaultButton
+              text={checking ? 'Checking...' : 'Check'}
+              onClick={() => checkProxy(settings.proxyUrl)}
+              disabled={checking || !settings.proxyUrl.trim()}
+            />
+          </Stack>
+          {proxyError && (
+            <MessageBar messageBarType={MessageBarType.warning}>
+              {proxyError}
+            </MessageBar>
+          )}
+        </Stack>
+
+        {/* Provider Selection */}
+        <Stack tokens={{ childrenGap: 8 }}>
+          <Dropdown
+            label="Provider"
+            options={providerOptions}
+            selectedKey={settings.activeProvider}
+            onChange={(_, option) => option && setSettings({ ...settings, activeProvider: option.key as LLMProviderType })}
+          />
+          {!activeIsConfigured && (
+            <Text variant="small" styles={{ root: { color: '#a4262c' } }}>
+              This provider is not configured on the proxy server.
+            </Text>
+          )}
+          {activeInfo && (
+            <Dropdown
+              label="Model"
+              options={activeInfo.models.map(model => ({
+                key: model,
+                text: model === activeInfo.model ? `${model} (default)` : model
+              }))}
+              selectedKey={selectedModel}
+              onChange={(_, option) => option && updateActiveConfig({ model: String(option.key) })}
+            />
+          )}
+        </Stack>
+
+        {/* Generation */}
+        <Stack horizontal tokens={{ childrenGap: 16 }}>
+          <SpinButton
+            label="Temperature"
+            min={0}
+            max={2}
+            step={0.1}
+            value={String(config.temperature)}
+            onChange={(_, value) => value !== undefined && updateActiveConfig({ temperature: Number(value) })}
+          />
+          <SpinButton
+            label="Max tokens"
+            min={100}
+            max={8000}
+            step={100}
+            value={String(config.maxTokens)}
+            onChange={(_, value) => value !== undefined && updateActiveConfig({ maxTokens: Number(value) })}
+          />
+        </Stack>
+
+        {/* Actions */}
+        <Stack horizontal tokens={{ childrenGap: 8 }} horizontalAlign="end">
+          <DefaultButton text="Cancel" onClick={onClose} />
+          <PrimaryButton
+            text="Save"
+            onClick={handleSave}
+            disabled={!settings.proxyUrl.trim()}
+          />
+        </Stack>
+      </Stack>
+    </Dialog>
+  );
+};
+
+export default ProviderSettings;
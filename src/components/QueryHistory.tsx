@@ -18,9 +18,21 @@ import {
   DialogFooter,
   PrimaryButton
 } from '@fluentui/react';
-import { queryHistoryManager, QueryHistoryItem, QueryCategory } from '../utils/queryHistory';
+import { queryHistoryManager, QueryHistoryItem, QueryCategory, QueryStatus, getQueryStatus } from '../utils/queryHistory';
 import { exportManager } from '../utils/exportManager';
 
+const STATUS_LABELS: Record<QueryStatus, string> = {
+  success: 'Success',
+  failed: 'Failed',
+  cancelled: 'Cancelled'
+};
+
+const STATUS_COLORS: Record<QueryStatus, string> = {
+  success: '#107c10',
+  failed: '#a4262c',
+  cancelled: '#8a6d00'
+};
+
 interface QueryHistoryProps {
   onSelectQuery: (question: string, sql: string) => void;
   isVisible: boolean;
@@ -181,10 +193,17 @@ const QueryHistory: React.FC<QueryHistoryProps> = ({ onSelectQuery, isVisible, o
         </Stack>
 
         <Text variant="small" styles={{ root: { color: '#666' } }}>
-          {date} • {item.success ? 'Success' : 'Failed'}
+          {date} • <span style={{ color: STATUS_COLORS[getQueryStatus(item)] }}>{STATUS_LABELS[getQueryStatus(item)]}</span>
           {item.executionTime && ` • ${item.executionTime}ms`}
+          {item.confidence !== undefined && ` • ${Math.round(item.confidence * 100)}% confidence`}
         </Text>
 
+        {item.assumptions && item.assumptions.length > 0 && (
+          <Text variant="small" styles={{ root: { color: '#666' } }}>
+            Assumptions: {item.assumptions.join('; ')}
+          </Text>
+        )}
+
         {category && (
           <Stack horizontal tokens={{ childrenGap: 4 }}>
             <div 
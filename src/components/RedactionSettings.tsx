@@ -0,0 +1,236 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Stack,
+  Text,
+  DefaultButton,
+  PrimaryButton,
+  IconButton,
+  TextField,
+  Toggle,
+  Dialog,
+  DialogType,
+  MessageBar,
+  MessageBarType,
+  Link
+} from '@fluentui/react';
+import {
+  redactionManager,
+  RedactionSettings as RedactionSettingsValue,
+  RedactionPattern,
+  RedactionAuditEntry,
+  REDACTION_SOURCE_LABELS
+} from '../utils/redaction';
+
+interface RedactionSettingsProps {
+  isVisible: boolean;
+  onClose: () => void;
+}
+
+const RedactionSettings: React.FC<RedactionSettingsProps> = ({ isVisible, onClose }) => {
+  const [settings, setSettings] = useState<RedactionSettingsValue | null>(null);
+  const [auditLog, setAuditLog] = useState<RedactionAuditEntry[]>([]);
+  const [expandedEntry, setExpandedEntry] = useState<string | null>(null);
+  const [newPatternName, setNewPatternName] = useState('');
+  const [newPattern, setNewPattern] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [showSuccess, setShowSuccess] = useState(false);
+
+  useEffect(() => {
+    if (isVisible) {
+      setError(null);
+      redactionManager.getSettings().then(setSettings);
+      redactionManager.getAuditLog().then(setAuditLog);
+    }
+  }, [isVisible]);
+
+  const updatePattern = (id: string, updates: Partial<RedactionPattern>) => {
+    if (!settings) return;
+    setSettings({
+      ...settings,
+      patterns: settings.patterns.map(pattern => (pattern.id === id ? { ...pattern, ...updates } : pattern))
+    });
+  };
+
+  const handleAddPattern = () => {
+    if (!settings) return;
+    if (!redactionManager.isValidPattern(newPattern)) {
+      setError(`"${newPattern}" is not a valid regular expression`);
+      return;
+    }
+    setSettings({
+      ...settings,
+      patterns: [
+        ...settings.patterns,
+        {
+          id: Date.now().toString(36),
+          name: newPatternName.trim() || newPattern,
+          pattern: newPattern,
+          enabled: true
+        }
+      ]
+    });
+    setNewPatternName('');
+    setNewPattern('');
+    setError(null);
+  };
+
+  const handleClearAudit = async () => {
+    await redactionManager.clearAuditLog();
+    setAuditLog([]);
+  };
+
+  const handleSave = async () => {
+    if (!settings) return;
+    try {
+      await redactionManager.saveSettings(settings);
+      setShowSuccess(true);
+      setTimeout(() => {
+        setShowSuccess(false);
+        onClose();
+      }, 1500);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save redaction settings');
+    }
+  };
+
+  if (!isVisible || !settings) return null;
+
+  return (
+    <Dialog
+      hidden={!isVisible}
+      onDismiss={onClose}
+      dialogContentProps={{
+        type: DialogType.normal,
+        title: 'Data Redaction',
+        subText: 'Matching values are replaced with placeholders before anything is sent to the model, and restored in the returned SQL'
+      }}
+      maxWidth={640}
+    >
+      <Stack tokens={{ childrenGap: 16 }}>
+        {showSuccess && (
+          <MessageBar messageBarType={MessageBarType.success}>
+            Redaction settings saved!
+          </MessageBar>
+        )}
+        {error && (
+          <MessageBar messageBarType={MessageBarType.error} onDismiss={() => setError(null)}>
+            {error}
+          </MessageBar>
+        )}
+
+        {/* Rules */}
+        <Stack tokens={{ childrenGap: 4 }}>
+          <Toggle
+            label="Redact before sending"
+            checked={settings.enabled}
+            onChange={(_, checked) => setSettings({ ...settings, enabled: !!checked })}
+            inlineLabel
+          />
+          <Toggle
+            label="Quoted values in questions and SQL"
+            checked={settings.maskLiterals}
+            disabled={!settings.enabled}
+            onChange={(_, checked) => setSettings({ ...settings, maskLiterals: !!checked })}
+            inlineLabel
+          />
+          <Toggle
+            label="Email addresses"
+            checked={settings.maskEmails}
+            disabled={!settings.enabled}
+            onChange={(_, checked) => setSettings({ ...settings, maskEmails: !!checked })}
+            inlineLabel
+          />
+          <Toggle
+            label="Values of columns marked sensitive"
+            checked={settings.maskSensitiveColumns}
+            disabled={!settings.enabled}
+            onChange={(_, checked) => setSettings({ ...settings, maskSensitiveColumns: !!checked })}
+            inlineLabel
+          />
+        </Stack>
+
+        {/* Patterns */}
+        <Stack tokens={{ childrenGap: 8 }}>
+          <Text variant="mediumPlus" styles={{ root: { fontWeight: 600 } }}>Patterns</Text>
+          {settings.patterns.map(pattern => (
+            <Stack key={pattern.id} horizontal verticalAlign="center" tokens={{ childrenGap: 8 }}>
+              <Toggle
+                checked={pattern.enabled}
+                disabled={!settings.enabled}
+                onChange={(_, checked) => updatePattern(pattern.id, { enabled: !!checked })}
+                styles={{ root: { marginBottom: 0 } }}
+              />
+              <Stack.Item grow>
+                <Text>{pattern.name}</Text>
+                <Text variant="small" block styles={{ root: { fontFamily: 'monospace', color: '#666' } }}>
+                  {pattern.pattern}
+                </Text>
+              </Stack.Item>
+              <IconButton
+                iconProps={{ iconName: 'Delete' }}
+                title="Remove pattern"
+                onClick={() => setSettings({ ...settings, patterns: settings.patterns.filter(p => p.id !== pattern.id) })}
+              />
+            </Stack>
+          ))}
+          <Stack horizontal tokens={{ childrenGap: 8 }} verticalAlign="end">
+            <TextField
+              label="Name"
+              value={newPatternName}
+              onChange={(_, value) => setNewPatternName(value || '')}
+              placeholder="Customer IDs"
+            />
+            <Stack.Item grow>
+              <TextField
+                label="Regular expression"
+                value={newPattern}
+                onChange={(_, value) => setNewPattern(value || '')}
+                placeholder="CUST-\d+"
+              />
+            </Stack.Item>
+            <DefaultButton text="Add" onClick={handleAddPattern} disabled={!newPattern.trim()} />
+          </Stack>
+        </Stack>
+
+        {/* Audit Log */}
+        <Stack tokens={{ childrenGap: 8 }}>
+          <Stack horizontal horizontalAlign="space-between" verticalAlign="center">
+            <Text variant="mediumPlus" styles={{ root: { fontWeight: 600 } }}>Recent redactions</Text>
+            <DefaultButton text="Clear" onClick={handleClearAudit} disabled={auditLog.length === 0} />
+          </Stack>
+          {auditLog.length === 0 ? (
+            <Text variant="small" styles={{ root: { color: '#666' } }}>Nothing has been redacted yet.</Text>
+          ) : (
+            <Stack tokens={{ childrenGap: 6 }} styles={{ root: { maxHeight: 240, overflowY: 'auto' } }}>
+              {auditLog.map(entry => (
+                <Stack key={entry.id} tokens={{ childrenGap: 2 }} styles={{ root: { padding: 8, background: '#f8f9fa', borderRadius: 4 } }}>
+                  <Text variant="small">{entry.question}</Text>
+                  <Text variant="small" styles={{ root: { color: '#666' } }}>
+                    {new Date(entry.timestamp).toLocaleString()} · {entry.items.length} value{entry.items.length !== 1 ? 's' : ''} masked{' '}
+                    <Link onClick={() => setExpandedEntry(expandedEntry === entry.id ? null : entry.id)}>
+                      {expandedEntry === entry.id ? 'Hide' : 'Show'}
+                    </Link>
+                  </Text>
+                  {expandedEntry === entry.id && entry.items.map(item => (
+                    <Text key={item.placeholder} variant="small">
+                      • {item.placeholder}: {item.preview}{' '}
+                      <span style={{ color: '#666' }}>({item.rule}, from the {REDACTION_SOURCE_LABELS[item.source]})</span>
+                    </Text>
+                  ))}
+                </Stack>
+              ))}
+            </Stack>
+          )}
+        </Stack>
+
+        {/* Actions */}
+        <Stack horizontal tokens={{ childrenGap: 8 }} horizontalAlign="end">
+          <DefaultButton text="Cancel" onClick={onClose} />
+          <PrimaryButton text="Save" onClick={handleSave} />
+        </Stack>
+      </Stack>
+    </Dialog>
+  );
+};
+
+export default RedactionSettings;
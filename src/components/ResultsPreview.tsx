@@ -0,0 +1,79 @@
+import React from 'react';
+import { Stack, Text } from '@fluentui/react';
+import { MetricFormat, formatMetricValue } from '../utils/schemaManager';
+
+interface ResultsPreviewProps {
+  data: any[][];
+  executionTime?: number;
+  maxRows?: number;
+  columnFormats?: Record<string, MetricFormat>; // Display formats of metric columns, by name
+}
+
+const ResultsPreview: React.FC<ResultsPreviewProps> = ({ data, executionTime, maxRows = 20, columnFormats = {} }) => {
+  if (data.length === 0) return null;
+
+  const [headers, ...rows] = data;
+  const visibleRows = rows.slice(0, maxRows);
+
+  return (
+    <Stack tokens={{ childrenGap: 8 }}>
+      <Stack horizontal horizontalAlign="space-between" verticalAlign="center">
+        <span style={{ fontWeight: 'bold' }}>Results</span>
+        <Text variant="small" styles={{ root: { color: '#666' } }}>
+          {rows.length} row{rows.length !== 1 ? 's' : ''}
+          {executionTime ? ` • ${executionTime}ms` : ''}
+        </Text>
+      </Stack>
+
+      <div style={{ overflowX: 'auto', maxHeight: 300, border: '1px solid #e0e0e0', borderRadius: 4 }}>
+        <table style={{ borderCollapse: 'collapse', fontSize: 12, width: '100%' }}>
+          <thead>
+            <tr>
+              {headers.map((header, index) => (
+                <th
+                  key={index}
+                  style={{
+                    background: '#4472C4',
+                    color: 'white',
+                    padding: '4px 8px',
+                    textAlign: 'left',
+                    whiteSpace: 'nowrap',
+                    position: 'sticky',
+                    top: 0
+                  }}
+                >
+                  {header}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {visibleRows.map((row, rowIndex) => (
+              <tr key={rowIndex} style={{ background: rowIndex % 2 ? '#f8f9fa' : '#fff' }}>
+                {row.map((cell, cellIndex) => (
+                  <td key={cellIndex} style={{ padding: '4px 8px', whiteSpace: 'nowrap' }}>
+                    {columnFormats[headers[cellIndex]] ? formatMetricValue(cell, columnFormats[headers[cellIndex]]) : String(cell)}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {rows.length > visibleRows.length && (
+        <Text variant="small" styles={{ root: { color: '#666' } }}>
+          Showing first {visibleRows.length} of {rows.length} rows. All rows are inserted into Excel.
+        </Text>
+      )}
+
+      {rows.length === 0 && (
+        <Text variant="small" styles={{ root: { color: '#666' } }}>
+          The query returned no rows.
+        </Text>
+      )}
+    </Stack>
+  );
+};
+
+export default ResultsPreview;
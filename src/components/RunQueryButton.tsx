@@ -1,13 +1,24 @@
 import React from 'react';
-import { PrimaryButton } from '@fluentui/react';
+import { PrimaryButton, DefaultButton } from '@fluentui/react';
 
 interface RunQueryButtonProps {
   loading: boolean;
   onClick: () => void;
+  onCancel?: () => void;
   disabled?: boolean;
 }
 
-const RunQueryButton: React.FC<RunQueryButtonProps> = ({ loading, onClick, disabled = false }) => {
+const RunQueryButton: React.FC<RunQueryButtonProps> = ({ loading, onClick, onCancel, disabled = false }) => {
+  if (loading && onCancel) {
+    return (
+      <DefaultButton 
+        text="Cancel" 
+        onClick={onCancel} 
+        iconProps={{ iconName: 'Cancel' }}
+      />
+    );
+  }
+
   return (
     <PrimaryButton 
       text="Run Query" 
@@ -18,4 +29,4 @@ const RunQueryButton: React.FC<RunQueryButtonProps> = ({ loading, onClick, disab
   );
 };
 
-export default RunQueryButton; 
\ No newline at end of file
+export default RunQueryButton;
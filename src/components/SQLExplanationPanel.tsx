@@ -0,0 +1,47 @@
+import React, { useMemo } from 'react';
+import { Stack, Text, MessageBar, MessageBarType } from '@fluentui/react';
+import { sqlExplainer } from '../utils/sqlExplainer';
+
+interface SQLExplanationPanelProps {
+  sql: string;
+}
+
+const SQLExplanationPanel: React.FC<SQLExplanationPanelProps> = ({ sql }) => {
+  const { explanation, error } = useMemo(() => {
+    try {
+      return { explanation: sqlExplainer.explain(sql), error: null };
+    } catch (err) {
+      return { explanation: null, error: err instanceof Error ? err.message : 'Unknown error' };
+    }
+  }, [sql]);
+
+  if (error || !explanation) {
+    return (
+      <MessageBar messageBarType={MessageBarType.warning}>
+        {error}
+      </MessageBar>
+    );
+  }
+
+  return (
+    <Stack tokens={{ childrenGap: 8 }} styles={{ root: { padding: 8, background: '#f8f9fa', borderRadius: 4 } }}>
+      <Text variant="small" styles={{ root: { fontWeight: 'bold' } }}>
+        {explanation.summary}
+      </Text>
+      {explanation.sections.map(section => (
+        <Stack key={section.title} tokens={{ childrenGap: 2 }}>
+          <Text variant="small" styles={{ root: { fontWeight: 600, color: '#0078d4' } }}>
+            {section.title}
+          </Text>
+          {section.items.map((item, index) => (
+            <Text key={index} variant="small">
+              • {item}
+            </Text>
+          ))}
+        </Stack>
+      ))}
+    </Stack>
+  );
+};
+
+export default SQLExplanationPanel;
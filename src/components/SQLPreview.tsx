@@ -1,80 +1,66 @@
 import React, { useState } from 'react';
-import { TextField, Stack, DefaultButton, IconButton, PrimaryButton } from '@fluentui/react';
+import { TextField, Stack, Text, DefaultButton, IconButton, PrimaryButton, Spinner, SpinnerSize } from '@fluentui/react';
+import SQLExplanationPanel from './SQLExplanationPanel';
 
 interface SQLPreviewProps {
   sql: string;
   setSql?: (sql: string) => void;
   onInsertToExcel?: () => void;
   onCopy?: () => void;
+  streamingStatus?: string; // Set while the SQL is still streaming in
+  onStop?: () => void;
 }
 
-const SQLPreview: React.FC<SQLPreviewProps> = ({ sql, setSql, onInsertToExcel, onCopy }) => {
+const SQLPreview: React.FC<SQLPreviewProps> = ({ sql, setSql, onInsertToExcel, onCopy, streamingStatus, onStop }) => {
   const [editing, setEditing] = useState(false);
+  const [explaining, setExplaining] = useState(false);
+
+  const streaming = streamingStatus !== undefined;
 
   const handleCopy = () => {
     navigator.clipboard.writeText(sql);
     onCopy?.();
   };
 
-  const handleInsertToExcel = async () => {
-    try {
-      // Use the mock data generator for sophisticated data generation
-      const { mockDataGenerator } = await import('../utils/mockDataGenerator');
-      const mockData = mockDataGenerator.generateDataFromSQL(sql, {
-        includeHeaders: true,
-        formatForExcel: true,
-        maxRows: 50
-      });
-      
-      await Excel.run(async (context) => {
-        const range = context.workbook.worksheets.getActiveWorksheet().getRange('A1');
-        
-        // Insert data with headers
-        if (mockData.length > 0) {
-          const rows = mockData.length;
-          const cols = mockData[0].length;
-          const targetRange = range.getResizedRange(rows - 1, cols - 1);
-          targetRange.values = mockData;
-          
-          // Format headers
-          const headerRange = range.getResizedRange(0, cols - 1);
-          headerRange.format.fill.color = '#4472C4';
-          headerRange.format.font.color = 'white';
-          headerRange.format.font.bold = true;
-        }
-        
-        await context.sync();
-      });
-      
-      onInsertToExcel?.();
-    } catch (err) {
-      console.error('Failed to insert data to Excel:', err);
-    }
-  };
-
   return (
     <Stack tokens={{ childrenGap: 8 }}>
       <Stack horizontal horizontalAlign="space-between" verticalAlign="center">
         <span style={{ fontWeight: 'bold' }}>SQL Preview</span>
-        <Stack horizontal tokens={{ childrenGap: 4 }}>
-          <IconButton 
-            iconProps={{ iconName: 'Copy' }} 
-            title="Copy SQL" 
-            ariaLabel="Copy SQL" 
-            onClick={handleCopy} 
-            disabled={!sql} 
-          />
-          {setSql && (
+        {streaming ? (
+          <Stack horizontal verticalAlign="center" tokens={{ childrenGap: 8 }}>
+            <Spinner size={SpinnerSize.xSmall} />
+            <Text variant="small" styles={{ root: { color: '#666' } }}>{streamingStatus}</Text>
+            {onStop && (
+              <DefaultButton text="Stop" iconProps={{ iconName: 'CircleStop' }} onClick={onStop} />
+            )}
+          </Stack>
+        ) : (
+          <Stack horizontal tokens={{ childrenGap: 4 }}>
+            <IconButton 
+              iconProps={{ iconName: 'Copy' }} 
+              title="Copy SQL" 
+              ariaLabel="Copy SQL" 
+              onClick={handleCopy} 
+              disabled={!sql} 
+            />
             <DefaultButton 
-              text={editing ? 'Save' : 'Edit SQL'} 
-              onClick={() => setEditing(!editing)} 
+              text={explaining ? 'Hide Explanation' : 'Explain'} 
+              iconProps={{ iconName: 'TextDocument' }}
+              onClick={() => setExplaining(!explaining)} 
               disabled={!sql} 
             />
-          )}
-        </Stack>
+            {setSql && (
+              <DefaultButton 
+                text={editing ? 'Save' : 'Edit SQL'} 
+                onClick={() => setEditing(!editing)} 
+                disabled={!sql} 
+              />
+            )}
+          </Stack>
+        )}
       </Stack>
       
-      {editing && setSql ? (
+      {editing && setSql && !streaming ? (
         <TextField
           multiline
           value={sql}
@@ -92,13 +78,16 @@ const SQLPreview: React.FC<SQLPreviewProps> = ({ sql, setSql, onInsertToExcel, o
           margin: 0
         }}>
           {sql}
+          {streaming && <span style={{ color: '#0078d4' }}>▍</span>}
         </pre>
       )}
       
-      {!editing && sql && (
+      {explaining && !editing && !streaming && sql && <SQLExplanationPanel sql={sql} />}
+      
+      {!editing && !streaming && sql && onInsertToExcel && (
         <PrimaryButton 
           text="Insert to Excel" 
-          onClick={handleInsertToExcel}
+          onClick={onInsertToExcel}
           iconProps={{ iconName: 'ExcelLogo' }}
         />
       )}
@@ -11,14 +11,16 @@ import {
   SpinnerSize
 } from '@fluentui/react';
 import { sqlValidator, ValidationResult, ValidationError } from '../utils/sqlValidator';
+import { SQLDialect } from '../utils/sqlDialects';
 
 interface SQLValidatorProps {
   sql: string;
   schema?: any;
+  dialect?: SQLDialect;
   onValidationComplete?: (result: ValidationResult) => void;
 }
 
-const SQLValidator: React.FC<SQLValidatorProps> = ({ sql, schema, onValidationComplete }) => {
+const SQLValidator: React.FC<SQLValidatorProps> = ({ sql, schema, dialect, onValidationComplete }) => {
   const [validationResult, setValidationResult] = useState<ValidationResult | null>(null);
   const [isValidating, setIsValidating] = useState(false);
   const [showDetails, setShowDetails] = useState(false);
@@ -28,14 +30,14 @@ const SQLValidator: React.FC<SQLValidatorProps> = ({ sql, schema, onValidationCo
     if (autoValidate && sql.trim()) {
       validateSQL();
     }
-  }, [sql, schema, autoValidate]);
+  }, [sql, schema, dialect, autoValidate]);
 
   const validateSQL = async () => {
     if (!sql.trim()) return;
 
     setIsValidating(true);
     try {
-      const result = sqlValidator.validateSQL(sql, schema);
+      const result = sqlValidator.validateSQL(sql, schema, dialect);
       setValidationResult(result);
       onValidationComplete?.(result);
     } catch (error) {
@@ -53,11 +55,6 @@ const SQLValidator: React.FC<SQLValidatorProps> = ({ sql, schema, onValidationCo
     console.log('Formatted SQL:', formatted);
   };
 
-  const getSuggestions = () => {
-    if (!sql.trim()) return [];
-    return sqlValidator.getSuggestions(sql);
-  };
-
   const renderValidationItem = (item: ValidationError, index: number) => (
     <Stack 
       key={index} 
@@ -75,6 +72,7 @@ const SQLValidator: React.FC<SQLValidatorProps> = ({ sql, schema, onValidationCo
       <Stack horizontal horizontalAlign="space-between" verticalAlign="center">
         <Text variant="small" styles={{ root: { fontWeight: 'bold' } }}>
           {item.type.toUpperCase()}
+          {item.rule && <span style={{ fontWeight: 'normal', color: '#666' }}> · {item.rule}</span>}
         </Text>
         {item.line && item.column && (
           <Text variant="small" styles={{ root: { color: '#666' } }}>
@@ -209,20 +207,6 @@ const SQLValidator: React.FC<SQLValidatorProps> = ({ sql, schema, onValidationCo
                   {validationResult.suggestions.map(renderValidationItem)}
                 </Stack>
               )}
-
-              {/* Additional Suggestions */}
-              {getSuggestions().length > 0 && (
-                <Stack tokens={{ childrenGap: 8 }}>
-                  <Text variant="small" styles={{ root: { fontWeight: 'bold', color: '#28a745' } }}>
-                    Best Practices:
-                  </Text>
-                  {getSuggestions().map((suggestion, index) => (
-                    <Text key={index} variant="small" styles={{ root: { color: '#666' } }}>
-                      • {suggestion}
-                    </Text>
-                  ))}
-                </Stack>
-              )}
             </Stack>
           )}
 
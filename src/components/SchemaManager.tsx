@@ -19,8 +19,62 @@ import {
   Toggle,
   SpinButton
 } from '@fluentui/react';
-import { schemaManager, DatabaseSchema, DatabaseTable, DatabaseColumn } from '../utils/schemaManager';
+import { schemaManager, DatabaseSchema, DatabaseTable, DatabaseColumn, ColumnProfile, MetricDefinition, MetricGrain, MetricFormat } from '../utils/schemaManager';
+import { columnProfiler } from '../utils/columnProfiler';
+import { getWorkbookDataTables } from '../utils/excelHelpers';
 import { exportManager } from '../utils/exportManager';
+import { SQL_DIALECTS, SQLDialect, DEFAULT_DIALECT, getDialect } from '../utils/sqlDialects';
+import { STATEMENT_TYPE_LABELS, DEFAULT_SAFETY_POLICY, StatementType } from '../utils/sqlValidator';
+import { LINT_RULES, LINT_SEVERITY_LABELS, LintSeverity } from '../utils/lintRules';
+
+// Synonyms and sample values are edited as comma-separated text; blanks are
+// dropped on save
+const toListText = (items?: string[]): string => (items || []).join(', ');
+const fromListText = (text?: string): string[] => (text || '').split(/,\s*/);
+const cleanList = (items?: string[]): string[] | undefined => {
+  const cleaned = (items || []).map(item => item.trim()).filter(Boolean);
+  return cleaned.length > 0 ? cleaned : undefined;
+};
+
+// Manually entered range bounds are kept as text while typing and stored as
+// numbers when they parse as one
+const toProfileBound = (text?: string): number | string | undefined => {
+  const trimmed = (text || '').trim();
+  if (!trimmed) return undefined;
+  return isNaN(Number(trimmed)) ? trimmed : Number(trimmed);
+};
+
+const summarizeProfile = (profile: ColumnProfile): string => {
+  const parts: string[] = [];
+  if (profile.sampleValues?.length) {
+    parts.push(`e.g. ${profile.sampleValues.slice(0, 4).join(', ')}${profile.sampleValues.length > 4 ? ', ...' : ''}`);
+  }
+  if (profile.min !== undefined && profile.max !== undefined) {
+    parts.push(`${profile.min} – ${profile.max}`);
+  }
+  if (profile.nullRate) {
+    parts.push(`${Math.round(profile.nullRate * 100)}% empty`);
+  }
+  return parts.join(' · ');
+};
+
+const NO_GRAIN_KEY = 'none';
+
+const grainOptions: IDropdownOption[] = [
+  { key: NO_GRAIN_KEY, text: 'None' },
+  { key: 'day', text: 'Day' },
+  { key: 'week', text: 'Week' },
+  { key: 'month', text: 'Month' },
+  { key: 'quarter', text: 'Quarter' },
+  { key: 'year', text: 'Year' }
+];
+
+const formatOptions: IDropdownOption[] = [
+  { key: 'number', text: 'Number' },
+  { key: 'currency', text: 'Currency' },
+  { key: 'percent', text: 'Percent' },
+  { key: 'days', text: 'Days' }
+];
 
 interface SchemaManagerProps {
   isVisible: boolean;
@@ -37,7 +91,13 @@ const SchemaManager: React.FC<SchemaManagerProps> = ({ isVisible, onClose, onSch
   const [showTableDialog, setShowTableDialog] = useState(false);
   const [editingSchema, setEditingSchema] = useState<Partial<DatabaseSchema>>({});
   const [editingTable, setEditingTable] = useState<Partial<DatabaseTable>>({});
+  const [editingTableName, setEditingTableName] = useState<string | null>(null); // null while adding
+  const [showMetricDialog, setShowMetricDialog] = useState(false);
+  const [editingMetric, setEditingMetric] = useState<Partial<MetricDefinition>>({});
+  const [editingMetricName, setEditingMetricName] = useState<string | null>(null); // null while adding
   const [exporting, setExporting] = useState(false);
+  const [profiling, setProfiling] = useState(false);
+  const [profileMessage, setProfileMessage] = useState<{ type: MessageBarType; text: string } | null>(null);
   const [validationErrors, setValidationErrors] = useState<string[]>([]);
 
   useEffect(() => {
@@ -91,6 +151,12 @@ const SchemaManager: React.FC<SchemaManagerProps> = ({ isVisible, onClose, onSch
     try {
       await schemaManager.updateSchema(selectedSchema.id, editingSchema);
       await loadSchemas();
+      // The dialect and safety policy apply to the next query straight away
+      const updated = await schemaManager.getSchema(selectedSchema.id);
+      if (updated) {
+        setSelectedSchema(updated);
+        onSchemaChange(updated);
+      }
       setShowEditDialog(false);
       setEditingSchema({});
       setValidationErrors([]);
@@ -140,29 +206,205 @@ const SchemaManager: React.FC<SchemaManagerProps> = ({ isVisible, onClose, onSch
       description: '',
       columns: []
     });
+    setEditingTableName(null);
     setShowTableDialog(true);
   };
 
+  const handleEditTable = (table: DatabaseTable) => {
+    setEditingTable({ ...table, columns: table.columns.map(column => ({ ...column })) });
+    setEditingTableName(table.name);
+    setShowTableDialog(true);
+  };
+
+  const updateEditingColumn = (index: number, updates: Partial<DatabaseColumn>) => {
+    const newColumns = [...(editingTable.columns || [])];
+    newColumns[index] = { ...newColumns[index], ...updates };
+    setEditingTable(prev => ({ ...prev, columns: newColumns }));
+  };
+
   const handleSaveTable = async () => {
     if (!selectedSchema || !editingTable.name || !editingTable.columns || editingTable.columns.length === 0) {
       setValidationErrors(['Table name and at least one column are required']);
       return;
     }
 
+    const table = {
+      ...editingTable,
+      synonyms: cleanList(editingTable.synonyms),
+      columns: editingTable.columns.map(column => {
+        const { profile, ...rest } = column;
+        const sampleValues = cleanList(profile?.sampleValues);
+        const min = toProfileBound(profile?.min?.toString());
+        const max = toProfileBound(profile?.max?.toString());
+        const hasProfile = profile && (sampleValues || min !== undefined || max !== undefined || profile.nullRate);
+        return { ...rest, synonyms: cleanList(column.synonyms), ...(hasProfile ? { profile: { ...profile, sampleValues, min, max } } : {}) };
+      })
+    } as DatabaseTable;
+    const validation = schemaManager.validateSchema({
+      ...selectedSchema,
+      tables: [...selectedSchema.tables.filter(existing => existing.name !== editingTableName), table]
+    });
+    if (!validation.isValid) {
+      setValidationErrors(validation.errors);
+      return;
+    }
+
     setLoading(true);
     try {
-      await schemaManager.addTable(selectedSchema.id, editingTable as any);
+      if (editingTableName) {
+        await schemaManager.updateTable(selectedSchema.id, editingTableName, table);
+      } else {
+        await schemaManager.addTable(selectedSchema.id, table);
+      }
       await loadSchemas();
+      // Generation picks up the new synonyms and definitions straight away
+      const updated = await schemaManager.getSchema(selectedSchema.id);
+      if (updated) {
+        setSelectedSchema(updated);
+        onSchemaChange(updated);
+      }
       setShowTableDialog(false);
       setEditingTable({});
+      setEditingTableName(null);
+      setValidationErrors([]);
+    } catch (error) {
+      setValidationErrors([error instanceof Error ? error.message : editingTableName ? 'Failed to update table' : 'Failed to add table']);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Reads the workbook's worksheets and Excel tables named like the schema's
+  // tables and stores value profiles for their columns
+  const handleProfileSchema = async () => {
+    if (!selectedSchema) return;
+
+    setProfiling(true);
+    setProfileMessage(null);
+    try {
+      const dataTables = await getWorkbookDataTables();
+      const result = columnProfiler.profileSchema(selectedSchema, dataTables);
+      if (result.profiledColumns === 0) {
+        setProfileMessage({
+          type: MessageBarType.warning,
+          text: 'No worksheet or Excel table matches the schema\'s table and column names, so nothing was profiled.'
+        });
+        return;
+      }
+
+      await schemaManager.updateSchema(selectedSchema.id, { tables: result.tables });
+      await loadSchemas();
+      const updated = await schemaManager.getSchema(selectedSchema.id);
+      if (updated) {
+        setSelectedSchema(updated);
+        onSchemaChange(updated);
+      }
+      const unmatched = result.unmatchedTables.length > 0 ? ` No data found for ${result.unmatchedTables.join(', ')}.` : '';
+      setProfileMessage({
+        type: MessageBarType.success,
+        text: `Profiled ${result.profiledColumns} column${result.profiledColumns !== 1 ? 's' : ''} from the workbook.${unmatched}`
+      });
+    } catch (error) {
+      console.error('Error profiling schema:', error);
+      setProfileMessage({ type: MessageBarType.error, text: error instanceof Error ? error.message : 'Failed to profile the workbook data' });
+    } finally {
+      setProfiling(false);
+    }
+  };
+
+  const handleAddMetric = () => {
+    setEditingMetric({
+      name: '',
+      label: '',
+      table: selectedSchema?.tables[0]?.name || '',
+      expression: '',
+      format: 'number'
+    });
+    setEditingMetricName(null);
+    setShowMetricDialog(true);
+  };
+
+  const handleEditMetric = (metric: MetricDefinition) => {
+    setEditingMetric({ ...metric });
+    setEditingMetricName(metric.name);
+    setShowMetricDialog(true);
+  };
+
+  const handleSaveMetric = async () => {
+    if (!selectedSchema || !editingMetric.name || !editingMetric.label || !editingMetric.table || !editingMetric.expression) {
+      setValidationErrors(['Metric name, label, table and expression are required']);
+      return;
+    }
+
+    const metric = {
+      ...editingMetric,
+      synonyms: cleanList(editingMetric.synonyms),
+      dimensions: editingMetric.dimensions && editingMetric.dimensions.length > 0 ? editingMetric.dimensions : undefined
+    } as MetricDefinition;
+    const validation = schemaManager.validateSchema({
+      ...selectedSchema,
+      metrics: [...(selectedSchema.metrics || []).filter(existing => existing.name !== editingMetricName), metric]
+    });
+    if (!validation.isValid) {
+      setValidationErrors(validation.errors);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      if (editingMetricName) {
+        await schemaManager.updateMetric(selectedSchema.id, editingMetricName, metric);
+      } else {
+        await schemaManager.addMetric(selectedSchema.id, metric);
+      }
+      await loadSchemas();
+      const updated = await schemaManager.getSchema(selectedSchema.id);
+      if (updated) {
+        setSelectedSchema(updated);
+        onSchemaChange(updated);
+      }
+      setShowMetricDialog(false);
+      setEditingMetric({});
+      setEditingMetricName(null);
       setValidationErrors([]);
     } catch (error) {
-      setValidationErrors([error instanceof Error ? error.message : 'Failed to add table']);
+      setValidationErrors([error instanceof Error ? error.message : editingMetricName ? 'Failed to update metric' : 'Failed to add metric']);
     } finally {
       setLoading(false);
     }
   };
 
+  const handleDeleteMetric = async (metricName: string) => {
+    if (!selectedSchema) return;
+    await schemaManager.deleteMetric(selectedSchema.id, metricName);
+    await loadSchemas();
+    const updated = await schemaManager.getSchema(selectedSchema.id);
+    if (updated) {
+      setSelectedSchema(updated);
+      onSchemaChange(updated);
+    }
+  };
+
+  const dialectOptions: IDropdownOption[] = Object.values(SQL_DIALECTS).map(dialect => ({
+    key: dialect.id,
+    text: dialect.label
+  }));
+
+  const statementOptions: IDropdownOption[] = (Object.keys(STATEMENT_TYPE_LABELS) as StatementType[]).map(type => ({
+    key: type,
+    text: STATEMENT_TYPE_LABELS[type]
+  }));
+  const safetyPolicy = editingSchema.safetyPolicy || DEFAULT_SAFETY_POLICY;
+
+  // Choosing a rule's default severity drops its override
+  const setLintSeverity = (id: string, severity: string) => {
+    const { [id]: _previous, ...others } = editingSchema.lintRules || {};
+    setEditingSchema(prev => ({
+      ...prev,
+      lintRules: severity === 'default' ? others : { ...others, [id]: severity as LintSeverity }
+    }));
+  };
+
   const schemaOptions: IDropdownOption[] = schemas.map(schema => ({
     key: schema.id,
     text: schema.name
@@ -184,16 +426,23 @@ const SchemaManager: React.FC<SchemaManagerProps> = ({ isVisible, onClose, onSch
         <Text variant="medium" styles={{ root: { fontWeight: 'bold' } }}>
           {table.name}
         </Text>
-        <IconButton
-          iconProps={{ iconName: 'Delete' }}
-          title="Delete table"
-          onClick={async () => {
-            if (selectedSchema) {
-              await schemaManager.deleteTable(selectedSchema.id, table.name);
-              await loadSchemas();
-            }
-          }}
-        />
+        <Stack horizontal>
+          <IconButton
+            iconProps={{ iconName: 'Edit' }}
+            title="Edit table"
+            onClick={() => handleEditTable(table)}
+          />
+          <IconButton
+            iconProps={{ iconName: 'Delete' }}
+            title="Delete table"
+            onClick={async () => {
+              if (selectedSchema) {
+                await schemaManager.deleteTable(selectedSchema.id, table.name);
+                await loadSchemas();
+              }
+            }}
+          />
+        </Stack>
       </Stack>
       
       {table.description && (
@@ -202,6 +451,14 @@ const SchemaManager: React.FC<SchemaManagerProps> = ({ isVisible, onClose, onSch
         </Text>
       )}
 
+      {!!(table.synonyms?.length || table.definition) && (
+        <Text variant="small" styles={{ root: { color: '#666' } }}>
+          {table.synonyms?.length ? `Also called: ${table.synonyms.join(', ')}` : ''}
+          {table.synonyms?.length && table.definition ? ' · ' : ''}
+          {table.definition}
+        </Text>
+      )}
+
       <Stack tokens={{ childrenGap: 4 }}>
         {table.columns.map(column => (
           <Stack key={column.name} horizontal tokens={{ childrenGap: 8 } as any}>
@@ -214,9 +471,20 @@ const SchemaManager: React.FC<SchemaManagerProps> = ({ isVisible, onClose, onSch
             <Text variant="small" styles={{ root: { width: 80 } }}>
               {column.nullable ? 'NULL' : 'NOT NULL'}
             </Text>
-            {column.description && (
+            {column.sensitive && (
+              <Text variant="small" styles={{ root: { color: '#a4262c' } }} title="Values are masked before prompts are sent">
+                Sensitive
+              </Text>
+            )}
+            {!!(column.description || column.synonyms?.length) && (
               <Text variant="small" styles={{ root: { color: '#666', flex: 1 } }}>
                 {column.description}
+                {column.synonyms?.length ? ` (also: ${column.synonyms.join(', ')})` : ''}
+              </Text>
+            )}
+            {column.profile && (
+              <Text variant="small" styles={{ root: { color: '#888', flex: 1 } }}>
+                {summarizeProfile(column.profile)}
               </Text>
             )}
           </Stack>
@@ -225,6 +493,56 @@ const SchemaManager: React.FC<SchemaManagerProps> = ({ isVisible, onClose, onSch
     </Stack>
   );
 
+  const renderMetric = (metric: MetricDefinition) => (
+    <Stack 
+      key={metric.name} 
+      tokens={{ childrenGap: 4 }} 
+      styles={{ 
+        root: { 
+          padding: 12, 
+          border: '1px solid #e0e0e0', 
+          borderRadius: 4 
+        } 
+      }}
+    >
+      <Stack horizontal horizontalAlign="space-between" verticalAlign="center">
+        <Text variant="medium" styles={{ root: { fontWeight: 'bold' } }}>
+          {metric.label}{' '}
+          <span style={{ fontWeight: 'normal', color: '#666' }}>({metric.name})</span>
+        </Text>
+        <Stack horizontal>
+          <IconButton
+            iconProps={{ iconName: 'Edit' }}
+            title="Edit metric"
+            onClick={() => handleEditMetric(metric)}
+          />
+          <IconButton
+            iconProps={{ iconName: 'Delete' }}
+            title="Delete metric"
+            onClick={() => handleDeleteMetric(metric.name)}
+          />
+        </Stack>
+      </Stack>
+      <Text variant="small" styles={{ root: { fontFamily: 'monospace' } }}>
+        {metric.expression}
+      </Text>
+      <Text variant="small" styles={{ root: { color: '#666' } }}>
+        Over {metric.table}
+        {metric.dimensions?.length ? ` · by ${metric.dimensions.join(', ')}` : ''}
+        {metric.grain ? ` · trends by ${metric.grain}` : ''}
+        {` · ${metric.format || 'number'}`}
+        {metric.synonyms?.length ? ` · also: ${metric.synonyms.join(', ')}` : ''}
+      </Text>
+      {metric.description && (
+        <Text variant="small" styles={{ root: { color: '#666' } }}>
+          {metric.description}
+        </Text>
+      )}
+    </Stack>
+  );
+
+  const metricTable = selectedSchema?.tables.find(table => table.name === editingMetric.table);
+
   if (!isVisible) return null;
 
   return (
@@ -283,6 +601,14 @@ const SchemaManager: React.FC<SchemaManagerProps> = ({ isVisible, onClose, onSch
                 {selectedSchema.description}
               </Text>
             )}
+            <Text variant="small" styles={{ root: { color: '#666' } }}>
+              {getDialect(selectedSchema.dialect).label}
+            </Text>
+            {selectedSchema.safetyPolicy && selectedSchema.safetyPolicy.allowedStatements.some(type => type !== 'select') && (
+              <Text variant="small" styles={{ root: { color: '#a4262c' } }}>
+                Allows {selectedSchema.safetyPolicy.allowedStatements.filter(type => type !== 'select').map(type => STATEMENT_TYPE_LABELS[type]).join(', ')}
+              </Text>
+            )}
             <DefaultButton
               text="Set as Default"
               onClick={() => handleSetDefaultSchema(selectedSchema)}
@@ -294,6 +620,15 @@ const SchemaManager: React.FC<SchemaManagerProps> = ({ isVisible, onClose, onSch
               text="Add Table"
               onClick={handleAddTable}
             />
+            <DefaultButton
+              text="Add Metric"
+              onClick={handleAddMetric}
+            />
+            <DefaultButton
+              text="Profile from Workbook"
+              onClick={handleProfileSchema}
+              disabled={profiling}
+            />
             <DefaultButton
               text="Export JSON"
               onClick={() => handleExportSchema('json')}
@@ -311,6 +646,21 @@ const SchemaManager: React.FC<SchemaManagerProps> = ({ isVisible, onClose, onSch
             />
           </Stack>
 
+          {profiling && (
+            <MessageBar messageBarType={MessageBarType.info}>
+              <Stack horizontal tokens={{ childrenGap: 8 }} verticalAlign="center">
+                <Spinner size={SpinnerSize.small} />
+                <Text>Profiling workbook data...</Text>
+              </Stack>
+            </MessageBar>
+          )}
+
+          {profileMessage && (
+            <MessageBar messageBarType={profileMessage.type} onDismiss={() => setProfileMessage(null)}>
+              {profileMessage.text}
+            </MessageBar>
+          )}
+
           {exporting && (
             <MessageBar messageBarType={MessageBarType.info}>
               <Stack horizontal tokens={{ childrenGap: 8 }} verticalAlign="center">
@@ -322,6 +672,12 @@ const SchemaManager: React.FC<SchemaManagerProps> = ({ isVisible, onClose, onSch
 
           <Stack tokens={{ childrenGap: 8 }} styles={{ root: { flex: 1, overflow: 'auto' } }}>
             {selectedSchema.tables.map(renderTable)}
+            {selectedSchema.metrics && selectedSchema.metrics.length > 0 && (
+              <Text variant="medium" styles={{ root: { fontWeight: 'bold' } }}>
+                Metrics
+              </Text>
+            )}
+            {selectedSchema.metrics?.map(renderMetric)}
           </Stack>
         </>
       )}
@@ -351,6 +707,12 @@ const SchemaManager: React.FC<SchemaManagerProps> = ({ isVisible, onClose, onSch
             value={editingSchema.description || ''}
             onChange={(_, newValue) => setEditingSchema(prev => ({ ...prev, description: newValue }))}
           />
+          <Dropdown
+            label="SQL Dialect"
+            selectedKey={editingSchema.dialect || DEFAULT_DIALECT}
+            options={dialectOptions}
+            onChange={(_, option) => option && setEditingSchema(prev => ({ ...prev, dialect: option.key as SQLDialect }))}
+          />
           {validationErrors.length > 0 && (
             <MessageBar messageBarType={MessageBarType.error}>
               {validationErrors.map((error, index) => (
@@ -390,6 +752,58 @@ const SchemaManager: React.FC<SchemaManagerProps> = ({ isVisible, onClose, onSch
             value={editingSchema.description || ''}
             onChange={(_, newValue) => setEditingSchema(prev => ({ ...prev, description: newValue }))}
           />
+          <Dropdown
+            label="SQL Dialect"
+            selectedKey={editingSchema.dialect || DEFAULT_DIALECT}
+            options={dialectOptions}
+            onChange={(_, option) => option && setEditingSchema(prev => ({ ...prev, dialect: option.key as SQLDialect }))}
+          />
+          {/* Safety policy: statements outside the list are blocked before execution or export */}
+          <Dropdown
+            label="Allowed Statements"
+            multiSelect
+            selectedKeys={safetyPolicy.allowedStatements}
+            options={statementOptions}
+            onChange={(_, option) => {
+              if (!option) return;
+              const allowedStatements = option.selected
+                ? [...safetyPolicy.allowedStatements, option.key as StatementType]
+                : safetyPolicy.allowedStatements.filter(type => type !== option.key);
+              setEditingSchema(prev => ({ ...prev, safetyPolicy: { ...safetyPolicy, allowedStatements } }));
+            }}
+          />
+          <Toggle
+            label="Allow multiple statements separated by semicolons"
+            checked={!!safetyPolicy.allowMultipleStatements}
+            onChange={(_, checked) => setEditingSchema(prev => ({ ...prev, safetyPolicy: { ...safetyPolicy, allowMultipleStatements: !!checked } }))}
+            inlineLabel
+          />
+          {/* Lint rules: each can be raised, lowered or turned off for this schema */}
+          <Stack tokens={{ childrenGap: 8 }}>
+            <Text variant="medium" styles={{ root: { fontWeight: 600 } }}>Lint Rules</Text>
+            {Object.values(LINT_RULES).map(rule => (
+              <Stack key={rule.id} horizontal verticalAlign="center" tokens={{ childrenGap: 8 }}>
+                <Stack.Item grow>
+                  <Text variant="small" block>
+                    {rule.label} <span style={{ fontFamily: 'monospace', color: '#666' }}>{rule.id}</span>
+                  </Text>
+                  <Text variant="small" block styles={{ root: { color: '#666' } }}>{rule.description}</Text>
+                </Stack.Item>
+                <Dropdown
+                  selectedKey={editingSchema.lintRules?.[rule.id] || 'default'}
+                  options={[
+                    { key: 'default', text: `Default (${LINT_SEVERITY_LABELS[rule.defaultSeverity]})` },
+                    ...(Object.keys(LINT_SEVERITY_LABELS) as LintSeverity[]).map(severity => ({
+                      key: severity,
+                      text: LINT_SEVERITY_LABELS[severity]
+                    }))
+                  ]}
+                  onChange={(_, option) => option && setLintSeverity(rule.id, option.key as string)}
+                  styles={{ root: { width: 140 } }}
+                />
+              </Stack>
+            ))}
+          </Stack>
           {validationErrors.length > 0 && (
             <MessageBar messageBarType={MessageBarType.error}>
               {validationErrors.map((error, index) => (
@@ -410,8 +824,8 @@ const SchemaManager: React.FC<SchemaManagerProps> = ({ isVisible, onClose, onSch
         onDismiss={() => setShowTableDialog(false)}
         dialogContentProps={{
           type: DialogType.normal,
-          title: 'Add Table',
-          subText: 'Define a new table'
+          title: editingTableName ? 'Edit Table' : 'Add Table',
+          subText: editingTableName ? 'Modify the table, its columns and their business terms' : 'Define a new table'
         }}
         maxWidth={800}
       >
@@ -429,47 +843,94 @@ const SchemaManager: React.FC<SchemaManagerProps> = ({ isVisible, onClose, onSch
             value={editingTable.description || ''}
             onChange={(_, newValue) => setEditingTable(prev => ({ ...prev, description: newValue }))}
           />
+          <TextField
+            label="Synonyms"
+            placeholder="e.g. shipments, loads"
+            description="Comma-separated terms users may say instead of the table name"
+            value={toListText(editingTable.synonyms)}
+            onChange={(_, newValue) => setEditingTable(prev => ({ ...prev, synonyms: fromListText(newValue) }))}
+          />
+          <TextField
+            label="Business Definition"
+            value={editingTable.definition || ''}
+            onChange={(_, newValue) => setEditingTable(prev => ({ ...prev, definition: newValue }))}
+          />
           <Text variant="medium">Columns</Text>
           {/* Simple column editor - in a real app, this would be more sophisticated */}
           <Stack tokens={{ childrenGap: 8 }}>
             {editingTable.columns?.map((column, index) => (
-              <Stack key={index} horizontal tokens={{ childrenGap: 8 } as any}>
-                <TextField
-                  placeholder="Column name"
-                  value={column.name}
-                  onChange={(_, newValue) => {
-                    const newColumns = [...(editingTable.columns || [])];
-                    newColumns[index] = { ...column, name: newValue || '' };
-                    setEditingTable(prev => ({ ...prev, columns: newColumns }));
-                  }}
-                  styles={{ root: { width: 150 } }}
-                />
-                <TextField
-                  placeholder="Type"
-                  value={column.type}
-                  onChange={(_, newValue) => {
-                    const newColumns = [...(editingTable.columns || [])];
-                    newColumns[index] = { ...column, type: newValue || '' };
-                    setEditingTable(prev => ({ ...prev, columns: newColumns }));
-                  }}
-                  styles={{ root: { width: 120 } }}
-                />
-                <Toggle
-                  label="Nullable"
-                  checked={column.nullable}
-                  onChange={(_, checked) => {
-                    const newColumns = [...(editingTable.columns || [])];
-                    newColumns[index] = { ...column, nullable: checked || false };
-                    setEditingTable(prev => ({ ...prev, columns: newColumns }));
-                  }}
-                />
-                <IconButton
-                  iconProps={{ iconName: 'Delete' }}
-                  onClick={() => {
-                    const newColumns = editingTable.columns?.filter((_, i) => i !== index);
-                    setEditingTable(prev => ({ ...prev, columns: newColumns }));
-                  }}
-                />
+              <Stack key={index} tokens={{ childrenGap: 4 }}>
+                <Stack horizontal tokens={{ childrenGap: 8 } as any}>
+                  <TextField
+                    placeholder="Column name"
+                    value={column.name}
+                    onChange={(_, newValue) => updateEditingColumn(index, { name: newValue || '' })}
+                    styles={{ root: { width: 150 } }}
+                  />
+                  <TextField
+                    placeholder="Type"
+                    value={column.type}
+                    onChange={(_, newValue) => updateEditingColumn(index, { type: newValue || '' })}
+                    styles={{ root: { width: 120 } }}
+                  />
+                  <Toggle
+                    label="Nullable"
+                    checked={column.nullable}
+                    onChange={(_, checked) => updateEditingColumn(index, { nullable: checked || false })}
+                  />
+                  <Toggle
+                    label="Sensitive"
+                    checked={!!column.sensitive}
+                    onChange={(_, checked) => updateEditingColumn(index, { sensitive: checked || undefined })}
+                  />
+                  <IconButton
+                    iconProps={{ iconName: 'Delete' }}
+                    onClick={() => {
+                      const newColumns = editingTable.columns?.filter((_, i) => i !== index);
+                      setEditingTable(prev => ({ ...prev, columns: newColumns }));
+                    }}
+                  />
+                </Stack>
+                <Stack horizontal tokens={{ childrenGap: 8 } as any}>
+                  <TextField
+                    placeholder="Synonyms, e.g. spend, charges"
+                    value={toListText(column.synonyms)}
+                    onChange={(_, newValue) => updateEditingColumn(index, { synonyms: fromListText(newValue) })}
+                    styles={{ root: { width: 278 } }}
+                  />
+                  <TextField
+                    placeholder="Business definition"
+                    value={column.definition || ''}
+                    onChange={(_, newValue) => updateEditingColumn(index, { definition: newValue })}
+                    styles={{ root: { flex: 1 } }}
+                  />
+                </Stack>
+                <Stack horizontal tokens={{ childrenGap: 8 } as any}>
+                  <TextField
+                    placeholder="Sample values, e.g. Delivered, In Transit"
+                    value={toListText(column.profile?.sampleValues)}
+                    onChange={(_, newValue) => updateEditingColumn(index, {
+                      profile: { ...column.profile, source: 'manual', sampleValues: fromListText(newValue) }
+                    })}
+                    styles={{ root: { width: 278 } }}
+                  />
+                  <TextField
+                    placeholder="Min"
+                    value={column.profile?.min?.toString() || ''}
+                    onChange={(_, newValue) => updateEditingColumn(index, {
+                      profile: { ...column.profile, source: 'manual', min: newValue || undefined }
+                    })}
+                    styles={{ root: { flex: 1 } }}
+                  />
+                  <TextField
+                    placeholder="Max"
+                    value={column.profile?.max?.toString() || ''}
+                    onChange={(_, newValue) => updateEditingColumn(index, {
+                      profile: { ...column.profile, source: 'manual', max: newValue || undefined }
+                    })}
+                    styles={{ root: { flex: 1 } }}
+                  />
+                </Stack>
               </Stack>
             ))}
             <DefaultButton
@@ -495,7 +956,111 @@ const SchemaManager: React.FC<SchemaManagerProps> = ({ isVisible, onClose, onSch
         </Stack>
         <DialogFooter>
           <DefaultButton text="Cancel" onClick={() => setShowTableDialog(false)} />
-          <PrimaryButton text="Add Table" onClick={handleSaveTable} disabled={loading} />
+          <PrimaryButton text={editingTableName ? 'Update Table' : 'Add Table'} onClick={handleSaveTable} disabled={loading} />
+        </DialogFooter>
+      </Dialog>
+
+      {/* Metric Dialog */}
+      <Dialog
+        hidden={!showMetricDialog}
+        onDismiss={() => setShowMetricDialog(false)}
+        dialogContentProps={{
+          type: DialogType.normal,
+          title: editingMetricName ? 'Edit Metric' : 'Add Metric',
+          subText: 'Define a metric once so every query computes it the same way'
+        }}
+        maxWidth={600}
+      >
+        <Stack tokens={{ childrenGap: 12 }}>
+          <TextField
+            label="Name"
+            placeholder="e.g. on_time_rate"
+            value={editingMetric.name || ''}
+            onChange={(_, newValue) => setEditingMetric(prev => ({ ...prev, name: newValue }))}
+            required
+          />
+          <TextField
+            label="Label"
+            placeholder="e.g. on-time rate"
+            value={editingMetric.label || ''}
+            onChange={(_, newValue) => setEditingMetric(prev => ({ ...prev, label: newValue }))}
+            required
+          />
+          <TextField
+            label="Synonyms"
+            description="Comma-separated phrases that also name this metric"
+            value={toListText(editingMetric.synonyms)}
+            onChange={(_, newValue) => setEditingMetric(prev => ({ ...prev, synonyms: fromListText(newValue) }))}
+          />
+          <TextField
+            label="Description"
+            value={editingMetric.description || ''}
+            onChange={(_, newValue) => setEditingMetric(prev => ({ ...prev, description: newValue }))}
+          />
+          <Dropdown
+            label="Table"
+            selectedKey={editingMetric.table}
+            options={(selectedSchema?.tables || []).map(table => ({ key: table.name, text: table.name }))}
+            onChange={(_, option) => option && setEditingMetric(prev => ({ ...prev, table: option.key as string, dimensions: undefined }))}
+            required
+          />
+          <TextField
+            label="Expression"
+            placeholder="e.g. SUM(cost) / NULLIF(COUNT(*), 0)"
+            multiline
+            rows={3}
+            value={editingMetric.expression || ''}
+            onChange={(_, newValue) => setEditingMetric(prev => ({ ...prev, expression: newValue }))}
+            styles={{ field: { fontFamily: 'monospace' } }}
+            required
+          />
+          <Dropdown
+            label="Allowed Dimensions"
+            placeholder="Any column"
+            multiSelect
+            selectedKeys={editingMetric.dimensions || []}
+            options={(metricTable?.columns || []).map(column => ({ key: column.name, text: column.name }))}
+            onChange={(_, option) => {
+              if (!option) return;
+              const dimensions = editingMetric.dimensions || [];
+              setEditingMetric(prev => ({
+                ...prev,
+                dimensions: option.selected
+                  ? [...dimensions, option.key as string]
+                  : dimensions.filter(dimension => dimension !== option.key)
+              }));
+            }}
+          />
+          <Stack horizontal tokens={{ childrenGap: 8 }}>
+            <Dropdown
+              label="Grain"
+              selectedKey={editingMetric.grain || NO_GRAIN_KEY}
+              options={grainOptions}
+              onChange={(_, option) => option && setEditingMetric(prev => ({
+                ...prev,
+                grain: option.key === NO_GRAIN_KEY ? undefined : option.key as MetricGrain
+              }))}
+              styles={{ root: { flex: 1 } }}
+            />
+            <Dropdown
+              label="Format"
+              selectedKey={editingMetric.format || 'number'}
+              options={formatOptions}
+              onChange={(_, option) => option && setEditingMetric(prev => ({ ...prev, format: option.key as MetricFormat }))}
+              styles={{ root: { flex: 1 } }}
+            />
+          </Stack>
+          {validationErrors.length > 0 && (
+            <MessageBar messageBarType={MessageBarType.error}>
+              {validationErrors.map((error, index) => (
+                <div key={index}>{error}</div>
+              ))}
+            </MessageBar>
+          )}
+        </Stack>
+        <DialogFooter>
+          <DefaultButton text="Cancel" onClick={() => setShowMetricDialog(false)} />
+          <PrimaryButton text={editingMetricName ? 'Update Metric' : 'Add Metric'} onClick={handleSaveMetric} disabled={loading} />
         </DialogFooter>
       </Dialog>
     </Stack>
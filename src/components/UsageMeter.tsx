@@ -0,0 +1,130 @@
+import React, { useState } from 'react';
+import {
+  Stack,
+  Text,
+  Link,
+  TextField,
+  Dialog,
+  DialogType,
+  DialogFooter,
+  PrimaryButton,
+  DefaultButton,
+  MessageBar,
+  MessageBarType
+} from '@fluentui/react';
+import { usageTracker, UsageSummary, UsageBudgets, UsageTally, formatCost } from '../utils/usageTracker';
+
+interface UsageMeterProps {
+  summary: UsageSummary | null;
+  onChange: () => void; // Called after budgets are saved
+}
+
+const BUDGET_FIELDS: { key: keyof UsageBudgets; label: string }[] = [
+  { key: 'dailySoftLimit', label: 'Daily soft limit (USD)' },
+  { key: 'dailyHardLimit', label: 'Daily hard limit (USD)' },
+  { key: 'monthlySoftLimit', label: 'Monthly soft limit (USD)' },
+  { key: 'monthlyHardLimit', label: 'Monthly hard limit (USD)' }
+];
+
+const formatTally = (tally: UsageTally): string =>
+  `${(tally.promptTokens + tally.completionTokens).toLocaleString()} tokens · ${formatCost(tally.cost)}`;
+
+const UsageMeter: React.FC<UsageMeterProps> = ({ summary, onChange }) => {
+  const [showBudgets, setShowBudgets] = useState(false);
+  const [draft, setDraft] = useState<Record<string, string>>({});
+  const [draftError, setDraftError] = useState<string | null>(null);
+
+  if (!summary) return null;
+
+  const openBudgets = () => {
+    setDraft(Object.fromEntries(BUDGET_FIELDS.map(({ key }) => [key, summary.budgets[key]?.toString() || ''])));
+    setDraftError(null);
+    setShowBudgets(true);
+  };
+
+  const handleSave = async () => {
+    const budgets: UsageBudgets = {};
+    for (const { key, label } of BUDGET_FIELDS) {
+      const value = draft[key]?.trim();
+      if (!value) continue;
+
+      const amount = Number(value);
+      if (!Number.isFinite(amount) || amount <= 0) {
+        setDraftError(`${label} must be a positive number`);
+        return;
+      }
+      budgets[key] = amount;
+    }
+
+    if (budgets.dailySoftLimit && budgets.dailyHardLimit && budgets.dailySoftLimit > budgets.dailyHardLimit) {
+      setDraftError('The daily soft limit must not exceed the daily hard limit');
+      return;
+    }
+    if (budgets.monthlySoftLimit && budgets.monthlyHardLimit && budgets.monthlySoftLimit > budgets.monthlyHardLimit) {
+      setDraftError('The monthly soft limit must not exceed the monthly hard limit');
+      return;
+    }
+
+    await usageTracker.saveBudgets(budgets);
+    setShowBudgets(false);
+    onChange();
+  };
+
+  return (
+    <Stack tokens={{ childrenGap: 4 }}>
+      <Stack horizontal horizontalAlign="space-between" verticalAlign="center">
+        <Text variant="small">
+          Today: {formatTally(summary.today)} · Month: {formatCost(summary.month.cost)}
+        </Text>
+        <Link onClick={openBudgets} styles={{ root: { fontSize: 12 } }}>Budgets</Link>
+      </Stack>
+
+      {summary.lastRequest && (
+        <Text variant="small" styles={{ root: { color: '#666' } }}>
+          Last request: {summary.lastRequest.promptTokens.toLocaleString()} prompt + {summary.lastRequest.completionTokens.toLocaleString()} completion tokens
+          {summary.lastRequest.estimated ? ' (estimated)' : ''} on {summary.lastRequest.model}
+        </Text>
+      )}
+
+      {summary.status.level !== 'ok' && (
+        <MessageBar messageBarType={summary.status.level === 'blocked' ? MessageBarType.blocked : MessageBarType.warning}>
+          {summary.status.messages.join(' ')}
+        </MessageBar>
+      )}
+
+      <Dialog
+        hidden={!showBudgets}
+        onDismiss={() => setShowBudgets(false)}
+        dialogContentProps={{
+          type: DialogType.normal,
+          title: 'Usage Budgets',
+          subText: 'Soft limits show a warning. Hard limits stop generation until the day or month is over. Leave a field empty for no limit.'
+        }}
+      >
+        <Stack tokens={{ childrenGap: 8 }}>
+          {BUDGET_FIELDS.map(({ key, label }) => (
+            <TextField
+              key={key}
+              label={label}
+              value={draft[key] || ''}
+              onChange={(_, value) => setDraft(prev => ({ ...prev, [key]: value || '' }))}
+            />
+          ))}
+          <Text variant="small" styles={{ root: { color: '#666' } }}>
+            This month: {formatTally(summary.month)} over {summary.month.requests} requests.
+            Costs are estimated from list prices; local models are not priced.
+          </Text>
+          {draftError && (
+            <MessageBar messageBarType={MessageBarType.error}>{draftError}</MessageBar>
+          )}
+        </Stack>
+        <DialogFooter>
+          <DefaultButton text="Cancel" onClick={() => setShowBudgets(false)} />
+          <PrimaryButton text="Save" onClick={handleSave} />
+        </DialogFooter>
+      </Dialog>
+    </Stack>
+  );
+};
+
+export default UsageMeter;
@@ -0,0 +1,110 @@
+// Thrown when the user cancels an operation through its AbortSignal
+export class OperationCancelledError extends Error {
+  constructor(message: string = 'The operation was cancelled') {
+    super(message);
+    this.name = 'OperationCancelledError';
+  }
+}
+
+// Thrown when an operation runs longer than its timeout
+export class OperationTimeoutError extends Error {
+  constructor(readonly operation: string, readonly timeoutMs: number) {
+    super(`${operation} timed out after ${Math.round(timeoutMs / 1000)} seconds`);
+    this.name = 'OperationTimeoutError';
+  }
+}
+
+export interface CancellationOptions {
+  signal?: AbortSignal;
+  timeoutMs?: number; // 0 disables the timeout
+}
+
+export const DEFAULT_TIMEOUTS = {
+  generation: 60000,
+  excel: 30000,
+  export: 30000
+};
+
+// The error an aborted signal stands for: a timeout, or a cancellation by the user
+export function getAbortError(signal: AbortSignal): Error {
+  return signal.reason instanceof OperationTimeoutError || signal.reason instanceof OperationCancelledError
+    ? signal.reason
+    : new OperationCancelledError();
+}
+
+export function throwIfCancelled(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw getAbortError(signal);
+  }
+}
+
+// Waits for the given time, rejecting early if the signal aborts
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(getAbortError(signal));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(getAbortError(signal!));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// Combines the caller's signal with a timeout. Call dispose once the operation settles.
+export function createOperationSignal(
+  operation: string,
+  options: CancellationOptions = {}
+): { signal: AbortSignal; dispose: () => void } {
+  const controller = new AbortController();
+  const { signal, timeoutMs } = options;
+
+  const onAbort = () => controller.abort(getAbortError(signal!));
+  if (signal?.aborted) {
+    onAbort();
+  } else {
+    signal?.addEventListener('abort', onAbort);
+  }
+
+  const timer = timeoutMs
+    ? setTimeout(() => controller.abort(new OperationTimeoutError(operation, timeoutMs)), timeoutMs)
+    : undefined;
+
+  return {
+    signal: controller.signal,
+    dispose: () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    }
+  };
+}
+
+// Runs an operation that rejects as soon as it is cancelled or times out.
+// Work that cannot be interrupted, such as a pending Excel.run batch, is
+// abandoned; operations should check the signal before committing changes.
+export async function runCancellable<T>(
+  operation: string,
+  run: (signal: AbortSignal) => Promise<T>,
+  options: CancellationOptions = {}
+): Promise<T> {
+  const { signal, dispose } = createOperationSignal(operation, options);
+
+  try {
+    throwIfCancelled(signal);
+    return await Promise.race([
+      run(signal),
+      new Promise<never>((_, reject) => {
+        signal.addEventListener('abort', () => reject(getAbortError(signal)));
+      })
+    ]);
+  } finally {
+    dispose();
+  }
+}
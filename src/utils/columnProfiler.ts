@@ -0,0 +1,146 @@
+import { DatabaseSchema, DatabaseTable, ColumnProfile } from './schemaManager';
+import { QueryDataTable, QueryValue, normalizeIdentifier } from './queryEngine';
+
+// Builds per-column value profiles from workbook data and turns them into
+// the compact value hints given to the model, so filters use real values
+// ("Delivered", "Q1 2025") instead of guessed spellings.
+
+const MAX_SAMPLE_VALUES = 10;
+const MAX_PROMPT_VALUES = 8;
+const MAX_PROMPT_COLUMNS = 30;
+const MAX_VALUE_LENGTH = 40;
+
+export interface ProfilingResult {
+  tables: DatabaseTable[];
+  profiledColumns: number;
+  unmatchedTables: string[]; // Schema tables with no worksheet or Excel table of the same name
+}
+
+export class ColumnProfiler {
+  private static instance: ColumnProfiler;
+
+  static getInstance(): ColumnProfiler {
+    if (!ColumnProfiler.instance) {
+      ColumnProfiler.instance = new ColumnProfiler();
+    }
+    return ColumnProfiler.instance;
+  }
+
+  // Profiles one column's values: the most frequent distinct values, the
+  // range of numbers and ISO dates, and the share of empty cells
+  profileValues(values: QueryValue[]): ColumnProfile {
+    const present = values.filter(value => value !== null && value !== '');
+    const counts = new Map<string, number>();
+    present.forEach(value => {
+      const key = String(value);
+      counts.set(key, (counts.get(key) || 0) + 1);
+    });
+
+    const profile: ColumnProfile = {
+      source: 'workbook',
+      rowCount: values.length,
+      distinctCount: counts.size,
+      nullRate: values.length > 0 ? Math.round(((values.length - present.length) / values.length) * 1000) / 1000 : 0,
+      updatedAt: Date.now()
+    };
+
+    const numbers = present.filter((value): value is number => typeof value === 'number');
+    const dates = present.filter((value): value is string => typeof value === 'string' && /^\d{4}-\d{2}-\d{2}/.test(value));
+    // Reduced rather than spread into Math.min, which overflows the call
+    // stack on sheets with a few hundred thousand rows
+    if (present.length > 0 && numbers.length === present.length) {
+      profile.min = numbers.reduce((min, value) => (value < min ? value : min));
+      profile.max = numbers.reduce((max, value) => (value > max ? value : max));
+    } else if (present.length > 0 && dates.length === present.length) {
+      profile.min = dates.reduce((min, value) => (value < min ? value : min));
+      profile.max = dates.reduce((max, value) => (value > max ? value : max));
+    }
+
+    // Ranges describe continuous columns better than a handful of values,
+    // unless there are so few distinct values that they read as codes
+    if (profile.min === undefined || counts.size <= MAX_SAMPLE_VALUES) {
+      profile.sampleValues = Array.from(counts.entries())
+        .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+        .slice(0, MAX_SAMPLE_VALUES)
+        .map(([value]) => value);
+    }
+
+    return profile;
+  }
+
+  // Profiles every schema column found in a worksheet or Excel table of the
+  // same name. Columns without matching data keep their current profile.
+  profileSchema(schema: DatabaseSchema, dataTables: QueryDataTable[]): ProfilingResult {
+    const byName = new Map(dataTables.map(table => [normalizeIdentifier(table.name), table]));
+    const unmatchedTables: string[] = [];
+    let profiledColumns = 0;
+
+    const tables = schema.tables.map(table => {
+      const data = byName.get(normalizeIdentifier(table.name));
+      if (!data) {
+        unmatchedTables.push(table.name);
+        return table;
+      }
+
+      const columnIndexes = new Map(data.columns.map((column, index) => [normalizeIdentifier(column), index]));
+      return {
+        ...table,
+        columns: table.columns.map(column => {
+          const index = columnIndexes.get(normalizeIdentifier(column.name));
+          if (index === undefined) return column;
+          profiledColumns++;
+          return { ...column, profile: this.profileValues(data.rows.map(row => row[index] ?? null)) };
+        })
+      };
+    });
+
+    return { tables, profiledColumns, unmatchedTables };
+  }
+
+  // One line per profiled column, most relevant first: columns whose values
+  // appear in the question lead, since those are the likely filters
+  describeProfiles(schema: DatabaseSchema, question: string): string {
+    const questionText = question.toLowerCase();
+    const lines: { text: string; relevant: boolean }[] = [];
+
+    schema.tables.forEach(table => table.columns.forEach(column => {
+      const profile = column.profile;
+      if (!profile) return;
+
+      // A range says enough about numbers and dates; listed values are for text
+      const parts: string[] = [];
+      const hasRange = profile.min !== undefined && profile.max !== undefined;
+      const samples = hasRange ? [] : profile.sampleValues || [];
+      if (samples.length > 0) {
+        const shown = samples.slice(0, MAX_PROMPT_VALUES).map(value => `'${this.truncate(value).replace(/'/g, "''")}'`);
+        const more = (profile.distinctCount ?? samples.length) > shown.length ? ', ...' : '';
+        const distinct = profile.distinctCount !== undefined ? ` (${profile.distinctCount} distinct)` : '';
+        parts.push(`${shown.join(', ')}${more}${distinct}`);
+      }
+      if (hasRange) {
+        parts.push(`${profile.min} to ${profile.max}`);
+      }
+      if (profile.nullRate) {
+        parts.push(`${Math.round(profile.nullRate * 100)}% empty`);
+      }
+      if (parts.length === 0) return;
+
+      lines.push({
+        text: `- ${table.name}.${column.name}: ${parts.join('; ')}`,
+        relevant: samples.some(value => value.length > 1 && questionText.includes(value.toLowerCase()))
+      });
+    }));
+
+    return lines
+      .sort((a, b) => Number(b.relevant) - Number(a.relevant))
+      .slice(0, MAX_PROMPT_COLUMNS)
+      .map(line => line.text)
+      .join('\n');
+  }
+
+  private truncate(value: string): string {
+    return value.length > MAX_VALUE_LENGTH ? `${value.slice(0, MAX_VALUE_LENGTH)}…` : value;
+  }
+}
+
+export const columnProfiler = ColumnProfiler.getInstance();
@@ -0,0 +1,147 @@
+export interface ConversationTurn {
+  id: string;
+  parentId: string | null;
+  question: string;
+  sql: string;
+  timestamp: number;
+}
+
+// Turns form a tree: a follow-up is a child of the turn it refines, and
+// branching adds a second child to an earlier turn. The active turn is the
+// tip of the thread shown in the UI and the parent of the next question.
+export interface Conversation {
+  id: string;
+  turns: ConversationTurn[];
+  activeTurnId: string | null;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export class ConversationManager {
+  private static instance: ConversationManager;
+  private readonly STORAGE_KEY = 'excel_sql_assistant_conversation';
+  private readonly MAX_TURNS = 200;
+
+  static getInstance(): ConversationManager {
+    if (!ConversationManager.instance) {
+      ConversationManager.instance = new ConversationManager();
+    }
+    return ConversationManager.instance;
+  }
+
+  async getConversation(): Promise<Conversation> {
+    try {
+      const stored = localStorage.getItem(this.STORAGE_KEY);
+      return stored ? JSON.parse(stored) : this.createConversation();
+    } catch (error) {
+      console.error('Error loading conversation:', error);
+      return this.createConversation();
+    }
+  }
+
+  async startNewConversation(): Promise<Conversation> {
+    const conversation = this.createConversation();
+    await this.saveConversation(conversation);
+    return conversation;
+  }
+
+  // Adds a turn as a child of the active turn and makes it active
+  async addTurn(question: string, sql: string): Promise<Conversation> {
+    const conversation = await this.getConversation();
+    if (conversation.turns.length >= this.MAX_TURNS) {
+      throw new Error(`Conversations are limited to ${this.MAX_TURNS} turns. Start a new conversation to continue.`);
+    }
+
+    const turn: ConversationTurn = {
+      id: this.generateId(),
+      parentId: conversation.activeTurnId,
+      question,
+      sql,
+      timestamp: Date.now()
+    };
+
+    conversation.turns.push(turn);
+    conversation.activeTurnId = turn.id;
+    conversation.updatedAt = turn.timestamp;
+
+    await this.saveConversation(conversation);
+    return conversation;
+  }
+
+  // Makes an earlier turn active so the next question branches from it
+  async setActiveTurn(turnId: string | null): Promise<Conversation> {
+    const conversation = await this.getConversation();
+    if (turnId !== null && !conversation.turns.some(turn => turn.id === turnId)) {
+      throw new Error(`Turn ${turnId} not found`);
+    }
+
+    conversation.activeTurnId = turnId;
+    await this.saveConversation(conversation);
+    return conversation;
+  }
+
+  // Thread Methods
+
+  // Turns from the root down to the given turn (the active turn by default)
+  getThread(conversation: Conversation, turnId: string | null = conversation.activeTurnId): ConversationTurn[] {
+    const byId = new Map(conversation.turns.map(turn => [turn.id, turn]));
+    const thread: ConversationTurn[] = [];
+    let current = turnId ? byId.get(turnId) : undefined;
+
+    while (current) {
+      thread.unshift(current);
+      current = current.parentId ? byId.get(current.parentId) : undefined;
+    }
+
+    return thread;
+  }
+
+  getChildren(conversation: Conversation, turnId: string | null): ConversationTurn[] {
+    return conversation.turns.filter(turn => turn.parentId === turnId);
+  }
+
+  // Turns sharing a parent with the given turn, including itself, oldest first
+  getSiblings(conversation: Conversation, turnId: string): ConversationTurn[] {
+    const turn = conversation.turns.find(t => t.id === turnId);
+    return turn ? this.getChildren(conversation, turn.parentId) : [];
+  }
+
+  // Follows the most recent child at each step to the end of a branch
+  getLatestLeaf(conversation: Conversation, turnId: string): ConversationTurn | undefined {
+    let current = conversation.turns.find(turn => turn.id === turnId);
+
+    while (current) {
+      const children = this.getChildren(conversation, current.id);
+      if (children.length === 0) break;
+      current = children[children.length - 1];
+    }
+
+    return current;
+  }
+
+  // Private Methods
+  private createConversation(): Conversation {
+    const now = Date.now();
+    return {
+      id: this.generateId(),
+      turns: [],
+      activeTurnId: null,
+      createdAt: now,
+      updatedAt: now
+    };
+  }
+
+  private async saveConversation(conversation: Conversation): Promise<void> {
+    try {
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(conversation));
+    } catch (error) {
+      console.error('Error saving conversation:', error);
+    }
+  }
+
+  private generateId(): string {
+    return Date.now().toString(36) + Math.random().toString(36).substr(2);
+  }
+}
+
+export const conversationManager = ConversationManager.getInstance();
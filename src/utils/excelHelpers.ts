@@ -1,5 +1,14 @@
 // No import statement for office-js here.
 // We expect 'Excel' to be a global object provided by the Office environment and its types.
+import { QueryDataTable, QueryValue, normalizeIdentifier } from './queryEngine';
+import {
+  CancellationOptions,
+  DEFAULT_TIMEOUTS,
+  OperationCancelledError,
+  OperationTimeoutError,
+  runCancellable,
+  throwIfCancelled
+} from './cancellation';
 
 export async function getWorksheetNames(): Promise<string[]> {
   try {
@@ -30,9 +39,15 @@ export async function getSelectedRange(): Promise<string> {
   }
 }
 
-export async function insertDataToRange(worksheetName: string, rangeAddress: string, data: any[][]): Promise<void> {
+// Rejects with OperationCancelledError or OperationTimeoutError; nothing is written once the signal aborts
+export async function insertDataToRange(
+  worksheetName: string,
+  rangeAddress: string,
+  data: any[][],
+  options: CancellationOptions = {}
+): Promise<void> {
   try {
-    await Excel.run(async (context: Excel.RequestContext) => {
+    await runCancellable('Inserting data into Excel', signal => Excel.run(async (context: Excel.RequestContext) => {
       const worksheet = context.workbook.worksheets.getItem(worksheetName);
       const range = worksheet.getRange(rangeAddress);
       
@@ -53,10 +68,100 @@ export async function insertDataToRange(worksheetName: string, rangeAddress: str
         }
       }
       
+      throwIfCancelled(signal);
       await context.sync();
-    });
+    }), { signal: options.signal, timeoutMs: options.timeoutMs ?? DEFAULT_TIMEOUTS.excel });
   } catch (error) {
     console.error('Error inserting data to range:', error);
     throw error;
   }
-} 
\ No newline at end of file
+} 
+// Load every worksheet's used range and every Excel table as a queryable table.
+// The first row is treated as the header row. Excel tables win over worksheets
+// that normalize to the same name. Cancellation and timeouts are rethrown as
+// they are; other failures reject with the reason the workbook couldn't be read.
+export async function getWorkbookDataTables(options: CancellationOptions = {}): Promise<QueryDataTable[]> {
+  try {
+    return await runCancellable('Loading workbook data', signal => Excel.run(async (context: Excel.RequestContext) => {
+      const sheets = context.workbook.worksheets;
+      const tables = context.workbook.tables;
+      sheets.load('items/name');
+      tables.load('items/name');
+      await context.sync();
+      throwIfCancelled(signal);
+
+      const sheetRanges = sheets.items.map((sheet: Excel.Worksheet) => {
+        const range = sheet.getUsedRangeOrNullObject(true);
+        range.load(['values', 'numberFormat']);
+        return { name: sheet.name, range };
+      });
+      const tableRanges = tables.items.map((table: Excel.Table) => {
+        const range = table.getRange();
+        range.load(['values', 'numberFormat']);
+        return { name: table.name, range };
+      });
+      await context.sync();
+
+      const byName = new Map<string, QueryDataTable>();
+
+      sheetRanges.forEach(({ name, range }) => {
+        if (range.isNullObject) return;
+        const table = toDataTable(name, range.values, range.numberFormat, 'worksheet');
+        if (table) byName.set(normalizeIdentifier(name), table);
+      });
+
+      tableRanges.forEach(({ name, range }) => {
+        const table = toDataTable(name, range.values, range.numberFormat, 'table');
+        if (table) byName.set(normalizeIdentifier(name), table);
+      });
+
+      return Array.from(byName.values());
+    }), { signal: options.signal, timeoutMs: options.timeoutMs ?? DEFAULT_TIMEOUTS.excel });
+  } catch (error) {
+    if (error instanceof OperationCancelledError || error instanceof OperationTimeoutError) throw error;
+    console.error('Error loading workbook data:', error);
+    throw new Error(`Could not read the workbook: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+function toDataTable(
+  name: string,
+  values: any[][],
+  numberFormat: any[][],
+  source: QueryDataTable['source']
+): QueryDataTable | null {
+  if (!values || values.length === 0) return null;
+
+  const [header, ...body] = values;
+  const columns = header.map((cell, index) => {
+    const label = String(cell ?? '').trim();
+    return label || `column_${index + 1}`;
+  });
+
+  const rows = body
+    .map((row, rowIndex) =>
+      row.map((cell, columnIndex) => toQueryValue(cell, numberFormat?.[rowIndex + 1]?.[columnIndex]))
+    )
+    .filter(row => row.some(cell => cell !== null));
+
+  return { name, columns, rows, source };
+}
+
+function toQueryValue(cell: any, format?: string): QueryValue {
+  if (cell === '' || cell === null || cell === undefined) return null;
+  if (typeof cell === 'number' && format && isDateFormat(format)) {
+    return excelSerialToISODate(cell);
+  }
+  return cell;
+}
+
+function isDateFormat(format: string): boolean {
+  // Strip quoted literals and colour/locale sections before looking for date tokens
+  const cleaned = format.replace(/"[^"]*"|\[[^\]]*\]/g, '');
+  return /[dy]|m{3,}/i.test(cleaned);
+}
+
+function excelSerialToISODate(serial: number): string {
+  const date = new Date(Date.UTC(1899, 11, 30) + Math.round(serial * 86400000));
+  return date.toISOString().split('T')[0];
+}
@@ -1,15 +1,26 @@
+import { SQLExplanation, sqlExplainer } from './sqlExplainer';
+import { SQLDialect, getDialect, quoteIdentifier } from './sqlDialects';
+import { DEFAULT_TIMEOUTS, runCancellable, throwIfCancelled } from './cancellation';
+import { getQueryStatus } from './queryHistory';
+import { SafetyPolicy, sqlValidator } from './sqlValidator';
+
 export interface ExportOptions {
   format: 'csv' | 'json' | 'excel' | 'sql' | 'markdown';
   includeHeaders?: boolean;
   includeMetadata?: boolean;
+  includeExplanation?: boolean;
   filename?: string;
   encoding?: 'utf-8' | 'utf-16';
+  timeoutMs?: number;
 }
 
 export interface ExportData {
   sql: string;
   question: string;
   data?: any[][];
+  dialect?: SQLDialect;
+  safetyPolicy?: SafetyPolicy;
+  explanation?: SQLExplanation;
   metadata?: {
     generatedAt: string;
     executionTime?: number;
@@ -28,31 +39,36 @@ export class ExportManager {
     return ExportManager.instance;
   }
 
-  async exportData(data: ExportData, options: ExportOptions): Promise<void> {
+  // Rejects with OperationCancelledError or OperationTimeoutError; no file is downloaded once the signal aborts.
+  // SQL the safety policy blocks rejects with UnsafeSQLError before anything is written.
+  async exportData(data: ExportData, options: ExportOptions, signal?: AbortSignal): Promise<void> {
+    sqlValidator.assertSafe(data.sql, data.safetyPolicy);
     const filename = options.filename || this.generateFilename(options.format);
     
-    switch (options.format) {
-      case 'csv':
-        await this.exportToCSV(data, filename, options);
-        break;
-      case 'json':
-        await this.exportToJSON(data, filename, options);
-        break;
-      case 'excel':
-        await this.exportToExcel(data, filename, options);
-        break;
-      case 'sql':
-        await this.exportToSQL(data, filename, options);
-        break;
-      case 'markdown':
-        await this.exportToMarkdown(data, filename, options);
-        break;
-      default:
-        throw new Error(`Unsupported export format: ${options.format}`);
-    }
+    await runCancellable('Export', async operationSignal => {
+      switch (options.format) {
+        case 'csv':
+          await this.exportToCSV(data, filename, options, operationSignal);
+          break;
+        case 'json':
+          await this.exportToJSON(data, filename, options, operationSignal);
+          break;
+        case 'excel':
+          await this.exportToExcel(data, filename, options, operationSignal);
+          break;
+        case 'sql':
+          await this.exportToSQL(data, filename, options, operationSignal);
+          break;
+        case 'markdown':
+          await this.exportToMarkdown(data, filename, options, operationSignal);
+          break;
+        default:
+          throw new Error(`Unsupported export format: ${options.format}`);
+      }
+    }, { signal, timeoutMs: options.timeoutMs ?? DEFAULT_TIMEOUTS.export });
   }
 
-  private async exportToCSV(data: ExportData, filename: string, options: ExportOptions): Promise<void> {
+  private async exportToCSV(data: ExportData, filename: string, options: ExportOptions, signal?: AbortSignal): Promise<void> {
     if (!data.data || data.data.length === 0) {
       throw new Error('No data to export');
     }
@@ -86,25 +102,29 @@ export class ExportManager {
       }
     }
 
-    await this.downloadFile(csvContent, filename, 'text/csv');
+    await this.downloadFile(csvContent, filename, 'text/csv', signal);
   }
 
-  private async exportToJSON(data: ExportData, filename: string, options: ExportOptions): Promise<void> {
+  private async exportToJSON(data: ExportData, filename: string, options: ExportOptions, signal?: AbortSignal): Promise<void> {
     const exportData: any = {
       sql: data.sql,
       question: data.question,
       data: data.data || []
     };
 
+    if (options.includeExplanation && data.explanation) {
+      exportData.explanation = data.explanation;
+    }
+
     if (options.includeMetadata && data.metadata) {
       exportData.metadata = data.metadata;
     }
 
     const jsonContent = JSON.stringify(exportData, null, 2);
-    await this.downloadFile(jsonContent, filename, 'application/json');
+    await this.downloadFile(jsonContent, filename, 'application/json', signal);
   }
 
-  private async exportToExcel(data: ExportData, filename: string, options: ExportOptions): Promise<void> {
+  private async exportToExcel(data: ExportData, filename: string, options: ExportOptions, signal?: AbortSignal): Promise<void> {
     // For Excel export, we'll create a simple HTML table that Excel can open
     let htmlContent = `
       <html>
@@ -165,14 +185,17 @@ export class ExportManager {
       </html>
     `;
 
-    await this.downloadFile(htmlContent, filename.replace('.xlsx', '.html'), 'text/html');
+    await this.downloadFile(htmlContent, filename.replace('.xlsx', '.html'), 'text/html', signal);
   }
 
-  private async exportToSQL(data: ExportData, filename: string, options: ExportOptions): Promise<void> {
+  // Writes the query and sample INSERTs in the target dialect (PostgreSQL by default)
+  private async exportToSQL(data: ExportData, filename: string, options: ExportOptions, signal?: AbortSignal): Promise<void> {
+    const dialect = getDialect(data.dialect);
     let sqlContent = '';
     
     if (options.includeMetadata) {
       sqlContent += `-- SQL Query Export\n`;
+      sqlContent += `-- Dialect: ${dialect.label}\n`;
       sqlContent += `-- Generated: ${data.metadata?.generatedAt || new Date().toISOString()}\n`;
       sqlContent += `-- Question: ${data.question}\n`;
       sqlContent += `-- Execution Time: ${data.metadata?.executionTime || 'N/A'}ms\n\n`;
@@ -188,15 +211,18 @@ export class ExportManager {
       // Generate INSERT statements for the data
       const tableName = this.extractTableName(data.sql);
       if (tableName) {
+        const target = quoteIdentifier(tableName, dialect.id);
+        const columns = data.data[0].map(header => quoteIdentifier(String(header), dialect.id)).join(', ');
         sqlContent += `-- INSERT statements for ${tableName}\n`;
         for (let i = 1; i < Math.min(data.data.length, 10); i++) { // Limit to 10 rows
           const row = data.data[i];
           const values = row.map(value => {
             if (value === null || value === undefined) return 'NULL';
             if (typeof value === 'string') return `'${value.replace(/'/g, "''")}'`;
+            if (typeof value === 'boolean' && dialect.id === 'sqlserver') return value ? 1 : 0; // No boolean literals in SQL Server
             return value;
           }).join(', ');
-          sqlContent += `INSERT INTO ${tableName} VALUES (${values});\n`;
+          sqlContent += `INSERT INTO ${target} (${columns}) VALUES (${values});\n`;
         }
         if (data.data.length > 10) {
           sqlContent += `-- ... and ${data.data.length - 10} more rows\n`;
@@ -204,10 +230,10 @@ export class ExportManager {
       }
     }
 
-    await this.downloadFile(sqlContent, filename, 'text/plain');
+    await this.downloadFile(sqlContent, filename, 'text/plain', signal);
   }
 
-  private async exportToMarkdown(data: ExportData, filename: string, options: ExportOptions): Promise<void> {
+  private async exportToMarkdown(data: ExportData, filename: string, options: ExportOptions, signal?: AbortSignal): Promise<void> {
     let markdownContent = '';
     
     if (options.includeMetadata) {
@@ -222,6 +248,11 @@ export class ExportManager {
     markdownContent += `## SQL Query\n\n`;
     markdownContent += `\`\`\`sql\n${data.sql}\n\`\`\`\n\n`;
 
+    if (options.includeExplanation && data.explanation) {
+      markdownContent += `## Explanation\n\n`;
+      markdownContent += `${sqlExplainer.toMarkdown(data.explanation)}\n\n`;
+    }
+
     if (data.data && data.data.length > 0) {
       markdownContent += `## Results (${data.data.length} rows)\n\n`;
       
@@ -243,7 +274,7 @@ export class ExportManager {
       }
     }
 
-    await this.downloadFile(markdownContent, filename, 'text/markdown');
+    await this.downloadFile(markdownContent, filename, 'text/markdown', signal);
   }
 
   // Export query history
@@ -290,7 +321,8 @@ export class ExportManager {
     return `sql_export_${timestamp}.${format}`;
   }
 
-  private async downloadFile(content: string, filename: string, mimeType: string): Promise<void> {
+  private async downloadFile(content: string, filename: string, mimeType: string, signal?: AbortSignal): Promise<void> {
+    throwIfCancelled(signal);
     const blob = new Blob([content], { type: mimeType });
     const url = URL.createObjectURL(blob);
     
@@ -323,15 +355,16 @@ export class ExportManager {
       .replace(/'/g, '&#39;');
   }
 
+  // Accepts "name", `name` and [name] as well as plain names
   private extractTableName(sql: string): string | null {
-    const match = sql.match(/FROM\s+(\w+)/i);
-    return match ? match[1] : null;
+    const match = sql.match(/FROM\s+(?:"([^"]+)"|`([^`]+)`|\[([^\]]+)\]|(\w+))/i);
+    return match ? match[1] || match[2] || match[3] || match[4] : null;
   }
 
   private convertHistoryToCSV(history: any[]): string {
     if (history.length === 0) return '';
     
-    const headers = ['Question', 'SQL', 'Timestamp', 'Success', 'Execution Time'];
+    const headers = ['Question', 'SQL', 'Timestamp', 'Status', 'Execution Time'];
     let csv = headers.join(',') + '\n';
     
     for (const item of history) {
@@ -339,7 +372,7 @@ export class ExportManager {
         this.escapeCSV(item.question),
         this.escapeCSV(item.sql),
         this.escapeCSV(new Date(item.timestamp).toISOString()),
-        this.escapeCSV(item.success),
+        this.escapeCSV(getQueryStatus(item)),
         this.escapeCSV(item.executionTime || '')
       ];
       csv += row.join(',') + '\n';
@@ -355,7 +388,7 @@ export class ExportManager {
     for (const item of history) {
       markdown += `## ${item.question}\n\n`;
       markdown += `**Timestamp:** ${new Date(item.timestamp).toISOString()}\n\n`;
-      markdown += `**Success:** ${item.success ? 'Yes' : 'No'}\n\n`;
+      markdown += `**Status:** ${getQueryStatus(item)}\n\n`;
       if (item.executionTime) {
         markdown += `**Execution Time:** ${item.executionTime}ms\n\n`;
       }
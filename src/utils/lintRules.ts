@@ -0,0 +1,201 @@
+import { SelectStatement, SourcePosition, LexToken, walkStatement } from './sqlParser';
+
+// Style and performance checks that run on a parsed SELECT. Each rule has an
+// ID that schemas use to change its severity or turn it off, and that
+// `-- lint-disable rule-id` comments in the SQL refer to.
+
+export type LintSeverity = 'error' | 'warning' | 'info' | 'off';
+export type LintCategory = 'performance' | 'best-practice';
+
+export const LINT_SEVERITY_LABELS: Record<LintSeverity, string> = {
+  error: 'Error',
+  warning: 'Warning',
+  info: 'Info',
+  off: 'Off'
+};
+
+export interface LintFinding {
+  message: string;
+  suggestion?: string;
+  position?: SourcePosition;
+}
+
+export interface LintRule {
+  id: string;
+  label: string;
+  category: LintCategory;
+  defaultSeverity: LintSeverity;
+  description: string; // What the rule checks and why, shown in the schema settings
+  check: (statement: SelectStatement) => LintFinding[];
+}
+
+// A `lint-disable` comment. With no rule IDs it turns off every rule.
+export interface LintDirective {
+  rules: string[];
+  line: number;
+  column: number;
+}
+
+export const LINT_RULES: Record<string, LintRule> = {
+  'select-star-without-limit': {
+    id: 'select-star-without-limit',
+    label: 'SELECT * without a row limit',
+    category: 'performance',
+    defaultSeverity: 'warning',
+    description: 'The outer query selects every column of every row, which can return far more data than the sheet can hold.',
+    check: statement => {
+      const star = statement.columns.find(item => item.expression.type === 'star');
+      if (!star || statement.limit !== null) return [];
+      return [{
+        message: 'SELECT * without LIMIT may return large result sets',
+        suggestion: 'Consider adding a LIMIT clause or selecting specific columns',
+        position: star.expression.position
+      }];
+    }
+  },
+  'no-select-star': {
+    id: 'no-select-star',
+    label: 'SELECT *',
+    category: 'best-practice',
+    defaultSeverity: 'info',
+    description: 'Naming the columns keeps the result layout stable when columns are added to a table.',
+    check: statement => {
+      let position: SourcePosition | undefined;
+      walkStatement(statement, {
+        statement: query => {
+          const star = query.columns.find(item => item.expression.type === 'star');
+          position = position || star?.expression.position;
+        }
+      });
+      return position ? [{
+        message: 'Consider selecting specific columns instead of SELECT *',
+        suggestion: 'This makes the query more explicit and returns only what is needed',
+        position
+      }] : [];
+    }
+  },
+  'missing-where': {
+    id: 'missing-where',
+    label: 'No WHERE clause',
+    category: 'performance',
+    defaultSeverity: 'warning',
+    description: 'No query in the statement filters its rows, so whole tables are read.',
+    check: statement => {
+      let filtered = false;
+      walkStatement(statement, {
+        statement: query => {
+          filtered = filtered || query.where !== null;
+        }
+      });
+      return statement.from && !filtered ? [{
+        message: 'Query without WHERE clause may scan entire table',
+        suggestion: 'Consider adding a WHERE clause to filter results'
+      }] : [];
+    }
+  },
+  'leading-wildcard-like': {
+    id: 'leading-wildcard-like',
+    label: 'LIKE with a leading wildcard',
+    category: 'performance',
+    defaultSeverity: 'info',
+    description: "A pattern that starts with % or _ can't use an index on the column.",
+    check: statement => {
+      const findings: LintFinding[] = [];
+      walkStatement(statement, {
+        expression: expression => {
+          if (expression.type === 'like' && expression.pattern.type === 'literal' &&
+              typeof expression.pattern.value === 'string' && /^[%_]/.test(expression.pattern.value)) {
+            findings.push({
+              message: 'LIKE queries with leading wildcards may be slow; consider using indexes',
+              position: expression.position
+            });
+          }
+        }
+      });
+      return findings;
+    }
+  },
+  'order-by-without-limit': {
+    id: 'order-by-without-limit',
+    label: 'ORDER BY without a row limit',
+    category: 'performance',
+    defaultSeverity: 'info',
+    description: 'Sorting the full result is expensive on large tables when only the top rows are wanted.',
+    check: statement => statement.limit === null && statement.orderBy.length > 0 ? [{
+      message: 'ORDER BY without LIMIT may be expensive on large datasets',
+      position: statement.orderBy[0].expression.position
+    }] : []
+  },
+  'limit-without-order-by': {
+    id: 'limit-without-order-by',
+    label: 'LIMIT without ORDER BY',
+    category: 'best-practice',
+    defaultSeverity: 'info',
+    description: 'Without an order, which rows a limit keeps is up to the database and can change between runs.',
+    check: statement => statement.limit !== null && statement.orderBy.length === 0 ? [{
+      message: 'Consider adding ORDER BY with LIMIT',
+      suggestion: 'Without ORDER BY, the results may be unpredictable'
+    }] : []
+  },
+  'having-without-group-by': {
+    id: 'having-without-group-by',
+    label: 'HAVING without GROUP BY',
+    category: 'best-practice',
+    defaultSeverity: 'info',
+    description: 'Without GROUP BY the whole result is one group, so HAVING keeps or drops all of it. This is valid for aggregate-only queries but is often a misplaced WHERE.',
+    check: statement => {
+      const findings: LintFinding[] = [];
+      walkStatement(statement, {
+        statement: query => {
+          if (query.having && query.groupBy.length === 0) {
+            findings.push({
+              message: 'HAVING without GROUP BY filters the query as a single group',
+              suggestion: 'Use WHERE to filter rows, or add GROUP BY to filter groups',
+              position: query.having.position
+            });
+          }
+        }
+      });
+      return findings;
+    }
+  },
+  'join-without-aliases': {
+    id: 'join-without-aliases',
+    label: 'Joined tables without aliases',
+    category: 'best-practice',
+    defaultSeverity: 'info',
+    description: 'Short table aliases make qualified column references in joins easier to read.',
+    check: statement => {
+      let joined = false;
+      let unaliased = false;
+      walkStatement(statement, {
+        statement: query => {
+          joined = joined || query.from?.type === 'join';
+        },
+        table: source => {
+          unaliased = unaliased || !source.alias;
+        }
+      });
+      return joined && unaliased ? [{
+        message: 'Consider using table aliases for better readability',
+        suggestion: 'Example: FROM table1 t1 JOIN table2 t2 ON t1.id = t2.id'
+      }] : [];
+    }
+  }
+};
+
+export function getLintSeverity(rule: LintRule, overrides?: Record<string, LintSeverity>): LintSeverity {
+  return overrides?.[rule.id] ?? rule.defaultSeverity;
+}
+
+// Reads `-- lint-disable a, b` and `/* lint-disable a b */` comments. Text
+// after a further `--` is a reason and is ignored.
+export function parseLintDirectives(comments: LexToken[]): LintDirective[] {
+  return comments.flatMap(comment => {
+    const body = comment.value.replace(/^--|^\/\*|\*\/$/g, '').trim();
+    const match = body.match(/^lint-disable(?:\s+([\s\S]*))?$/);
+    if (!match) return [];
+    const rules = (match[1] || '').split(/(?:^|\s)--/)[0].split(/[\s,]+/).filter(Boolean);
+    return [{ rules, line: comment.line, column: comment.column }];
+  });
+}
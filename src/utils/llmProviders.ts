@@ -0,0 +1,284 @@
+import { getAbortError } from './cancellation';
+
+export type LLMProviderType = 'openai' | 'azure' | 'local';
+
+// API keys and endpoints live on the proxy server. The add-in chooses a
+// provider, one of the models the proxy allows for it, and generation settings.
+export interface LLMProviderConfig {
+  type: LLMProviderType;
+  model?: string; // The proxy's default model when not set
+  temperature: number;
+  maxTokens: number;
+}
+
+export interface LLMProviderSettings {
+  proxyUrl: string;
+  activeProvider: LLMProviderType;
+  providers: Record<LLMProviderType, LLMProviderConfig>;
+}
+
+export interface ProxyProviderInfo {
+  type: LLMProviderType;
+  model: string;    // Used when the add-in doesn't choose one
+  models: string[]; // Models the proxy allows for the provider
+}
+
+export interface ProxyStatus {
+  defaultProvider: LLMProviderType;
+  providers: ProxyProviderInfo[];
+}
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface ChatCompletionRequest {
+  messages: ChatMessage[];
+  responseFormat?: 'text' | 'json';
+  onDelta?: (delta: string) => void; // Streams the response when set
+  signal?: AbortSignal;
+}
+
+export interface ChatCompletionResponse {
+  content: string;
+  model: string;
+  usage?: {
+    promptTokens: number;
+    completionTokens: number;
+  };
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  readonly config: LLMProviderConfig;
+  complete(request: ChatCompletionRequest): Promise<ChatCompletionResponse>;
+}
+
+export const PROVIDER_LABELS: Record<LLMProviderType, string> = {
+  openai: 'OpenAI',
+  azure: 'Azure OpenAI',
+  local: 'Local (OpenAI-compatible)'
+};
+
+// A failed proxy request. Status 0 means the proxy could not be reached.
+export class ProviderRequestError extends Error {
+  constructor(message: string, readonly status: number, readonly retryAfterMs?: number) {
+    super(message);
+    this.name = 'ProviderRequestError';
+  }
+
+  // Rate limits, server errors and network failures are worth retrying
+  get retryable(): boolean {
+    return this.status === 0 || this.status === 429 || this.status >= 500;
+  }
+}
+
+// Sends completions through the proxy, which holds the provider credentials
+export class ProxyProvider implements LLMProvider {
+  readonly config: LLMProviderConfig;
+  private readonly proxyUrl: string;
+  private readonly userId: string;
+
+  constructor(proxyUrl: string, config: LLMProviderConfig, userId: string) {
+    this.proxyUrl = trimTrailingSlash(proxyUrl);
+    this.config = config;
+    this.userId = userId;
+  }
+
+  get name(): string {
+    return PROVIDER_LABELS[this.config.type];
+  }
+
+  async complete(request: ChatCompletionRequest): Promise<ChatCompletionResponse> {
+    let response: Response;
+    try {
+      response = await fetch(`${this.proxyUrl}/api/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-User-Id': this.userId
+        },
+        body: JSON.stringify({
+          provider: this.config.type,
+          model: this.config.model,
+          messages: request.messages,
+          responseFormat: request.responseFormat,
+          temperature: this.config.temperature,
+          maxTokens: this.config.maxTokens,
+          stream: Boolean(request.onDelta)
+        }),
+        signal: request.signal
+      });
+    } catch (error) {
+      if (request.signal?.aborted) throw getAbortError(request.signal);
+      throw new ProviderRequestError(`Could not reach the proxy server at ${this.proxyUrl}`, 0);
+    }
+
+    if (!response.ok) {
+      throw new ProviderRequestError(
+        `${this.name} request failed (${response.status}): ${await readErrorMessage(response)}`,
+        response.status,
+        parseRetryAfter(response.headers.get('Retry-After'))
+      );
+    }
+
+    if (request.onDelta && response.body && response.headers.get('Content-Type')?.includes('text/event-stream')) {
+      try {
+        return await this.readEventStream(response.body, request.onDelta);
+      } catch (error) {
+        if (request.signal?.aborted) throw getAbortError(request.signal);
+        throw error;
+      }
+    }
+
+    return response.json();
+  }
+
+  // Reads the proxy's server-sent events: deltas, then a final result or an error
+  private async readEventStream(body: ReadableStream<Uint8Array>, onDelta: (delta: string) => void): Promise<ChatCompletionResponse> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const events = buffer.split('\n\n');
+      buffer = events.pop() || '';
+
+      for (const event of events) {
+        if (!event.startsWith('data:')) continue;
+        const data = JSON.parse(event.slice(5));
+
+        if (data.type === 'delta') {
+          onDelta(data.content);
+        } else if (data.type === 'done') {
+          return data.result;
+        } else if (data.type === 'error') {
+          throw new Error(`${this.name} request failed: ${data.message}`);
+        }
+      }
+    }
+
+    throw new Error(`${this.name} stream ended before the response was complete`);
+  }
+}
+
+async function readErrorMessage(response: Response): Promise<string> {
+  try {
+    const body = await response.json();
+    return body.error?.message || response.statusText;
+  } catch {
+    return response.statusText;
+  }
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function trimTrailingSlash(url: string): string {
+  return url.trim().replace(/\/+$/, '');
+}
+
+export class LLMProviderManager {
+  private static instance: LLMProviderManager;
+  private readonly STORAGE_KEY = 'excel_sql_assistant_llm_providers';
+  private readonly USER_ID_KEY = 'excel_sql_assistant_user_id';
+
+  static getInstance(): LLMProviderManager {
+    if (!LLMProviderManager.instance) {
+      LLMProviderManager.instance = new LLMProviderManager();
+    }
+    return LLMProviderManager.instance;
+  }
+
+  async getSettings(): Promise<LLMProviderSettings> {
+    const defaults = this.getDefaultSettings();
+    try {
+      const stored = localStorage.getItem(this.STORAGE_KEY);
+      if (!stored) return defaults;
+
+      const parsed: Partial<LLMProviderSettings> = JSON.parse(stored);
+      // Settings from before the proxy have no proxy URL, and their models were never checked against it
+      const keepModel = Boolean(parsed.proxyUrl);
+      return {
+        proxyUrl: parsed.proxyUrl || defaults.proxyUrl,
+        activeProvider: parsed.activeProvider || defaults.activeProvider,
+        providers: {
+          openai: { ...defaults.providers.openai, ...pickGenerationSettings(parsed.providers?.openai, keepModel) },
+          azure: { ...defaults.providers.azure, ...pickGenerationSettings(parsed.providers?.azure, keepModel) },
+          local: { ...defaults.providers.local, ...pickGenerationSettings(parsed.providers?.local, keepModel) }
+        }
+      };
+    } catch (error) {
+      console.error('Error loading provider settings:', error);
+      return defaults;
+    }
+  }
+
+  async saveSettings(settings: LLMProviderSettings): Promise<void> {
+    try {
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(settings));
+    } catch (error) {
+      console.error('Error saving provider settings:', error);
+    }
+  }
+
+  async getActiveProvider(): Promise<LLMProvider> {
+    const settings = await this.getSettings();
+    return new ProxyProvider(settings.proxyUrl, settings.providers[settings.activeProvider], this.getUserId());
+  }
+
+  // Lists the providers the proxy has credentials for
+  async getProxyStatus(proxyUrl: string): Promise<ProxyStatus> {
+    const response = await fetch(`${trimTrailingSlash(proxyUrl)}/api/providers`);
+    if (!response.ok) {
+      throw new Error(`Proxy returned ${response.status}`);
+    }
+    return response.json();
+  }
+
+  // Anonymous id the proxy uses to apply per-user rate limits
+  private getUserId(): string {
+    let userId = localStorage.getItem(this.USER_ID_KEY);
+    if (!userId) {
+      userId = Date.now().toString(36) + Math.random().toString(36).substr(2);
+      localStorage.setItem(this.USER_ID_KEY, userId);
+    }
+    return userId;
+  }
+
+  private getDefaultSettings(): LLMProviderSettings {
+    return {
+      proxyUrl: process.env.REACT_APP_PROXY_URL || 'http://localhost:3001',
+      activeProvider: 'openai',
+      providers: {
+        openai: { type: 'openai', temperature: 0.3, maxTokens: 1000 }, // Lower temperature for more consistent SQL
+        azure: { type: 'azure', temperature: 0.3, maxTokens: 1000 },
+        local: { type: 'local', temperature: 0.3, maxTokens: 1000 }
+      }
+    };
+  }
+}
+
+// Drops credentials saved by earlier versions that called providers directly
+function pickGenerationSettings(config: Partial<LLMProviderConfig> | undefined, keepModel: boolean): Partial<LLMProviderConfig> {
+  if (!config) return {};
+  const { model, temperature, maxTokens } = config;
+  return {
+    ...(keepModel && model ? { model } : {}),
+    ...(temperature !== undefined ? { temperature } : {}),
+    ...(maxTokens !== undefined ? { maxTokens } : {})
+  };
+}
+
+export const llmProviderManager = LLMProviderManager.getInstance();
@@ -1,4 +1,6 @@
 // Mock data generator for sophisticated SQL queries
+import { CancellationOptions, DEFAULT_TIMEOUTS, runCancellable, throwIfCancelled } from './cancellation';
+
 export interface MockDataOptions {
   includeHeaders?: boolean;
   formatForExcel?: boolean;
@@ -297,9 +299,9 @@ export class MockDataGenerator {
     }
   }
 
-  static async insertDataToActiveWorksheet(data: any[][]): Promise<void> {
+  static async insertDataToActiveWorksheet(data: any[][], options: CancellationOptions = {}): Promise<void> {
     try {
-      await Excel.run(async (context) => {
+      await runCancellable('Inserting data into Excel', signal => Excel.run(async (context) => {
         const range = context.workbook.worksheets.getActiveWorksheet().getRange('A1');
         
         // Calculate the range size needed
@@ -319,8 +321,9 @@ export class MockDataGenerator {
           }
         }
         
+        throwIfCancelled(signal);
         await context.sync();
-      });
+      }), { signal: options.signal, timeoutMs: options.timeoutMs ?? DEFAULT_TIMEOUTS.excel });
     } catch (error) {
       console.error('Error inserting data to active worksheet:', error);
       throw error;
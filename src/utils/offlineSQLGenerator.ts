@@ -0,0 +1,1265 @@
+import { DatabaseSchema, DatabaseTable, DatabaseColumn, MetricDefinition } from './schemaManager';
+import { SQLDialect, DEFAULT_DIALECT, quoteIdentifier, applyRowLimit } from './sqlDialects';
+import { isReservedKeyword } from './sqlParser';
+
+// Deterministic natural language to SQL generation that needs no network.
+// The question is read for measures ("total cost"), dimensions ("by carrier"),
+// filters ("carrier 'UPS'", "weight over 500"), time ranges ("last quarter")
+// and sort/limit intent ("top 5"), which are mapped onto the schema's columns.
+
+export interface OfflineGenerationOptions {
+  dialect?: SQLDialect;
+  limitResults?: number;
+  includeComments?: boolean;
+  now?: Date; // Reference date for relative time ranges; defaults to today
+}
+
+export interface OfflineGenerationResult {
+  sql: string;
+  assumptions: string[]; // How the question was read, in the order decided
+  referencedTables: string[];
+  referencedColumns: string[]; // As table.column
+}
+
+type Aggregate = 'SUM' | 'AVG' | 'MIN' | 'MAX' | 'COUNT';
+type TimeUnit = 'day' | 'week' | 'month' | 'quarter' | 'year';
+type SortDirection = 'ASC' | 'DESC';
+
+interface Token {
+  kind: 'word' | 'number' | 'quoted' | 'date' | 'symbol';
+  raw: string;
+  lower: string;
+  stem: string;
+  value?: number;
+  used: boolean;
+}
+
+interface ColumnRef {
+  table: DatabaseTable;
+  column: DatabaseColumn;
+}
+
+// A token, or a run of tokens naming a table or column
+type Item =
+  | { type: 'token'; token: Token; index: number }
+  | { type: 'column'; ref: ColumnRef; text: string; index: number; siblings?: ColumnRef[] }
+  | { type: 'table'; table: DatabaseTable; text: string; index: number };
+
+interface Measure {
+  aggregate?: Aggregate; // Missing for a schema metric, which brings its own expression
+  column?: ColumnRef;    // Missing for COUNT(*)
+  expression?: string;
+  alias: string;
+  label: string;
+}
+
+interface Dimension {
+  expressions: { sql: string; alias?: string }[];
+  label: string;
+  refs?: ColumnRef[]; // Missing for time buckets
+}
+
+interface TimeRange {
+  start?: Date;
+  end?: Date; // Exclusive
+  phrase: string;
+}
+
+interface SortIntent {
+  direction?: SortDirection;
+  limit?: number;
+  byDate?: boolean;
+  column?: ColumnRef;
+  countNoun?: string; // "the most shipments" ranks by a row count
+  hint?: string[];    // Column name parts an adjective implies: "cheapest" sorts on cost
+}
+
+const AGGREGATE_WORDS: Record<string, Aggregate> = {
+  total: 'SUM', sum: 'SUM', overall: 'SUM', combined: 'SUM',
+  average: 'AVG', avg: 'AVG', mean: 'AVG',
+  maximum: 'MAX', max: 'MAX',
+  minimum: 'MIN', min: 'MIN'
+};
+
+// Words after "by" that start a measure, as in "carriers by total cost"
+const MEASURE_WORDS = new Set([...Object.keys(AGGREGATE_WORDS), 'count', 'number']);
+
+// Column name parts that mark a money amount, for comparisons such as "over $1000"
+const CURRENCY_TERMS = new Set(['cost', 'price', 'amount', 'revenue', 'spend', 'charge', 'fee', 'usd', 'dollar']);
+
+const AGGREGATE_ALIASES: Record<Aggregate, string> = { SUM: 'total', AVG: 'avg', MIN: 'min', MAX: 'max', COUNT: 'count' };
+const AGGREGATE_LABELS: Record<Aggregate, string> = { SUM: 'total', AVG: 'average', MIN: 'minimum', MAX: 'maximum', COUNT: 'number of' };
+
+const DESCENDING_WORDS = new Set(['highest', 'most', 'largest', 'biggest', 'greatest', 'top', 'longest', 'slowest', 'heaviest', 'priciest']);
+const ASCENDING_WORDS = new Set(['lowest', 'least', 'smallest', 'cheapest', 'fewest', 'bottom', 'shortest', 'fastest', 'lightest']);
+
+const SORT_HINTS: Record<string, string[]> = {
+  cheapest: ['cost', 'price', 'amount'], priciest: ['cost', 'price', 'amount'], expensive: ['cost', 'price', 'amount'],
+  fastest: ['time', 'duration', 'day'], slowest: ['time', 'duration', 'day'],
+  heaviest: ['weight'], lightest: ['weight'],
+  longest: ['distance', 'duration', 'length'], shortest: ['distance', 'duration', 'length']
+};
+
+// Trailing column name parts a question can leave out: "delivery time" names delivery_time_days.
+// "date" is not one of them, so "shipments" does not name shipment_date.
+const UNIT_WORDS = new Set(['day', 'amount', 'value', 'count', 'number', 'num', 'id', 'name', 'usd', 'mile', 'km', 'pct', 'percent']);
+
+// Words that are never values, even when capitalised at the start of a clause
+const FILLER_WORDS = new Set([
+  'a', 'an', 'the', 'and', 'or', 'of', 'for', 'to', 'in', 'on', 'by', 'with', 'per', 'from', 'at', 'is', 'are', 'was',
+  'were', 'be', 'me', 'show', 'list', 'get', 'find', 'give', 'what', 'which', 'who', 'how', 'many', 'all', 'each',
+  'every', 'where', 'that', 'than', 'i', 'we', 'please'
+]);
+
+const COMPARATORS: { words: string[]; operator: string }[] = [
+  { words: ['greater', 'than', 'or', 'equal', 'to'], operator: '>=' },
+  { words: ['less', 'than', 'or', 'equal', 'to'], operator: '<=' },
+  { words: ['more', 'than'], operator: '>' },
+  { words: ['greater', 'than'], operator: '>' },
+  { words: ['higher', 'than'], operator: '>' },
+  { words: ['less', 'than'], operator: '<' },
+  { words: ['fewer', 'than'], operator: '<' },
+  { words: ['lower', 'than'], operator: '<' },
+  { words: ['at', 'least'], operator: '>=' },
+  { words: ['at', 'most'], operator: '<=' },
+  { words: ['up', 'to'], operator: '<=' },
+  { words: ['equal', 'to'], operator: '=' },
+  { words: ['over'], operator: '>' },
+  { words: ['above'], operator: '>' },
+  { words: ['exceeding'], operator: '>' },
+  { words: ['under'], operator: '<' },
+  { words: ['below'], operator: '<' },
+  { words: ['equals'], operator: '=' },
+  { words: ['>'], operator: '>' },
+  { words: ['>='], operator: '>=' },
+  { words: ['<'], operator: '<' },
+  { words: ['<='], operator: '<=' },
+  { words: ['='], operator: '=' },
+  { words: ['<>'], operator: '<>' },
+  { words: ['!='], operator: '<>' }
+];
+
+const MONTHS = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'];
+const TIME_UNITS: Record<string, TimeUnit> = {
+  date: 'day', day: 'day', days: 'day', week: 'week', weeks: 'week', month: 'month', months: 'month',
+  quarter: 'quarter', quarters: 'quarter', year: 'year', years: 'year'
+};
+const PERIOD_ADJECTIVES: Record<string, TimeUnit> = {
+  daily: 'day', weekly: 'week', monthly: 'month', quarterly: 'quarter', yearly: 'year', annual: 'year', annually: 'year'
+};
+
+const TOKEN_PATTERN = /'([^']*)'|"([^"]*)"|(\d{4}-\d{2}-\d{2})|\$?(\d[\d,]*(?:\.\d+)?)([km])?%?|(>=|<=|<>|!=|[<>=])|([A-Za-z][A-Za-z0-9_]*(?:'[A-Za-z]+)?)/g;
+
+function stem(word: string): string {
+  if (word.length > 4 && word.endsWith('ies')) return `${word.slice(0, -3)}y`;
+  if (word.length > 4 && /(ses|xes|ches|shes)$/.test(word)) return word.slice(0, -2);
+  if (word.length > 3 && word.endsWith('s') && !/(ss|us|is)$/.test(word)) return word.slice(0, -1);
+  return word;
+}
+
+// "delivery_time_days" and "deliveryTimeDays" both become [delivery, time, day]
+function splitName(name: string): string[] {
+  return name
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean)
+    .map(stem);
+}
+
+// The table's own name followed by each of its glossary synonyms
+function tableTerms(table: DatabaseTable): string[][] {
+  return [splitName(table.name), ...(table.synonyms || []).map(splitName)].filter(terms => terms.length > 0);
+}
+
+function isNumericType(type: string): boolean {
+  return /^(?:TINYINT|SMALLINT|MEDIUMINT|BIGINT|INT|INT64|INTEGER|DECIMAL|DEC|NUMERIC|BIGNUMERIC|NUMBER|FLOAT|FLOAT64|DOUBLE|REAL|MONEY|SMALLMONEY)\b/i.test(type.trim());
+}
+
+function isDateType(type: string): boolean {
+  return /^(?:DATE|DATETIME|DATETIME2|SMALLDATETIME|TIMESTAMP|TIMESTAMPTZ)\b/i.test(type.trim());
+}
+
+function isKeyColumn(ref: ColumnRef): boolean {
+  const { table, column } = ref;
+  return column.name === table.primaryKey
+    || /^id$|_id$|[a-z]Id$/.test(column.name)
+    || !!table.foreignKeys?.some(foreignKey => foreignKey.column === column.name);
+}
+
+function formatDate(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+function startOf(date: Date, unit: TimeUnit): Date {
+  switch (unit) {
+    case 'day':
+      return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+    case 'week': {
+      const day = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+      day.setDate(day.getDate() - ((day.getDay() + 6) % 7)); // Weeks start on Monday
+      return day;
+    }
+    case 'month':
+      return new Date(date.getFullYear(), date.getMonth(), 1);
+    case 'quarter':
+      return new Date(date.getFullYear(), Math.floor(date.getMonth() / 3) * 3, 1);
+    case 'year':
+      return new Date(date.getFullYear(), 0, 1);
+  }
+}
+
+function shift(date: Date, unit: TimeUnit, amount: number): Date {
+  switch (unit) {
+    case 'day':
+      return new Date(date.getFullYear(), date.getMonth(), date.getDate() + amount);
+    case 'week':
+      return new Date(date.getFullYear(), date.getMonth(), date.getDate() + amount * 7);
+    case 'month':
+      return new Date(date.getFullYear(), date.getMonth() + amount, date.getDate());
+    case 'quarter':
+      return new Date(date.getFullYear(), date.getMonth() + amount * 3, date.getDate());
+    case 'year':
+      return new Date(date.getFullYear() + amount, date.getMonth(), date.getDate());
+  }
+}
+
+function parseISODate(text: string): Date {
+  const [year, month, day] = text.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+function isYear(token: Token | undefined): boolean {
+  return !!token && token.kind === 'number' && Number.isInteger(token.value) && token.value! >= 1900 && token.value! <= 2100;
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+export class OfflineSQLGenerator {
+  private static instance: OfflineSQLGenerator;
+
+  static getInstance(): OfflineSQLGenerator {
+    if (!OfflineSQLGenerator.instance) {
+      OfflineSQLGenerator.instance = new OfflineSQLGenerator();
+    }
+    return OfflineSQLGenerator.instance;
+  }
+
+  generate(question: string, schema: DatabaseSchema, options: OfflineGenerationOptions = {}): OfflineGenerationResult {
+    if (schema.tables.length === 0) {
+      throw new Error(`Schema ${schema.name} has no tables to query`);
+    }
+
+    const dialect = options.dialect || schema.dialect || DEFAULT_DIALECT;
+    const now = options.now || new Date();
+    const assumptions: string[] = [];
+    const tokens = this.tokenize(question);
+
+    // Metric names, then time and sort phrases are read first so words such
+    // as "quarter" in "last quarter" or "top" in "top 5" are not taken for
+    // column names
+    const metrics = this.parseMetrics(tokens, schema, assumptions);
+    const timeRange = this.parseTimeRange(tokens, now);
+    const sort = this.parseSortIntent(tokens);
+
+    const table = metrics.length > 0
+      ? schema.tables.find(candidate => candidate.name === metrics[0].table)!
+      : this.chooseTable(tokens, schema, sort.countNoun);
+    const joins: DatabaseTable[] = [];
+    const items = this.buildItems(tokens, schema, table, joins, assumptions);
+    const usedItems = new Set<number>();
+
+    const filters = this.parseFilters(items, table, joins, usedItems, dialect, assumptions);
+    const dimensions = this.parseDimensions(items, table, joins, sort, usedItems, dialect, metrics, assumptions);
+    const measures: Measure[] = [
+      ...metrics.map(metric => ({ expression: metric.expression, alias: metric.name, label: metric.label })),
+      ...this.parseMeasures(items, table, dimensions.length > 0 || sort.direction !== undefined, usedItems, assumptions)
+    ];
+    if (sort.countNoun && !measures.some(measure => measure.aggregate === 'COUNT')) {
+      measures.unshift({ aggregate: 'COUNT', alias: `${sort.countNoun}_count`, label: `number of ${sort.countNoun}s` });
+    }
+
+    // "top 5 carriers by cost": a named text column becomes the grouping once something is aggregated
+    const otherColumns = items
+      .filter((item): item is Extract<Item, { type: 'column' }> => item.type === 'column' && !usedItems.has(item.index))
+      .map(item => item.ref);
+    if (measures.length > 0 && dimensions.length === 0) {
+      const grouping = otherColumns.find(ref => !isNumericType(ref.column.type) && !isDateType(ref.column.type));
+      if (grouping) {
+        dimensions.push({ expressions: [{ sql: this.columnSQL(grouping, joins, dialect) }], label: grouping.column.name, refs: [grouping] });
+        otherColumns.splice(otherColumns.indexOf(grouping), 1);
+      }
+    }
+    if (dimensions.length > 0 && measures.length === 0) {
+      const noun = this.getEntityNoun(items, table);
+      measures.push({ aggregate: 'COUNT', alias: `${noun}_count`, label: `number of ${noun}s` });
+      assumptions.push(`Counted ${table.name} rows in each group`);
+    }
+
+    const dateColumn = this.findDateColumn(items, table);
+    this.applyMetricRules(metrics, tokens, dimensions, dateColumn, joins, dialect, assumptions);
+    if (timeRange) {
+      const timeFilter = this.buildTimeFilter(timeRange, table, dateColumn, joins, dialect, assumptions);
+      if (timeFilter) filters.push(timeFilter);
+    }
+
+    const isAggregate = measures.length > 0;
+    const selectList = isAggregate
+      ? [
+          ...dimensions.flatMap(dimension => dimension.expressions.map(expression =>
+            expression.alias ? `${expression.sql} AS ${expression.alias}` : expression.sql)),
+          ...measures.map(measure => measure.expression
+            ? `${measure.expression} AS ${measure.alias}`
+            : `${measure.aggregate}(${measure.column ? this.columnSQL(measure.column, joins, dialect) : '*'}) AS ${measure.alias}`)
+        ]
+      : this.unique(otherColumns.map(ref => this.columnSQL(ref, joins, dialect)));
+
+    const orderBy = this.buildOrderBy(table, sort, measures, dimensions, otherColumns, dateColumn, joins, dialect, assumptions);
+
+    let sql = [
+      selectList.length > 0 ? `SELECT\n${selectList.map(item => `  ${item}`).join(',\n')}` : 'SELECT *',
+      `FROM ${this.identifier(table.name, dialect)}`,
+      ...joins.map(joined => this.joinSQL(table, joined, dialect)),
+      ...(filters.length > 0 ? [`WHERE ${filters.map(filter => filter.sql).join('\n  AND ')}`] : []),
+      ...(isAggregate && dimensions.length > 0
+        ? [`GROUP BY ${dimensions.flatMap(dimension => dimension.expressions.map(expression => expression.sql)).join(', ')}`]
+        : []),
+      ...(orderBy ? [`ORDER BY ${orderBy}`] : [])
+    ].join('\n');
+
+    // A single aggregate row needs no limit
+    const limit = sort.limit ?? (isAggregate && dimensions.length === 0 ? undefined : options.limitResults);
+    if (limit) {
+      sql = applyRowLimit(sql, limit, dialect);
+    }
+
+    if (options.includeComments) {
+      const summary = this.describe(table, measures, dimensions, filters, timeRange);
+      sql = [`-- ${summary} (generated offline)`, ...assumptions.map(assumption => `-- Assumed: ${assumption}`), sql].join('\n');
+    }
+
+    const referencedColumns = this.unique([
+      ...items.filter((item): item is Extract<Item, { type: 'column' }> => item.type === 'column')
+        .map(item => `${item.ref.table.name}.${item.ref.column.name}`),
+      ...(timeRange && dateColumn ? [`${dateColumn.table.name}.${dateColumn.column.name}`] : [])
+    ]);
+
+    return {
+      sql,
+      assumptions,
+      referencedTables: [table.name, ...joins.map(joined => joined.name)],
+      referencedColumns
+    };
+  }
+
+  // Tokenizing
+  private tokenize(question: string): Token[] {
+    const tokens: Token[] = [];
+    for (const match of Array.from(question.matchAll(TOKEN_PATTERN))) {
+      const [raw, singleQuoted, doubleQuoted, date, number, suffix, symbol, word] = match;
+      if (singleQuoted !== undefined || doubleQuoted !== undefined) {
+        const value = singleQuoted ?? doubleQuoted;
+        tokens.push({ kind: 'quoted', raw: value, lower: value.toLowerCase(), stem: value.toLowerCase(), used: false });
+      } else if (date) {
+        tokens.push({ kind: 'date', raw: date, lower: date, stem: date, used: false });
+      } else if (number) {
+        const multiplier = suffix === 'k' ? 1000 : suffix === 'm' ? 1000000 : 1;
+        const value = Number(number.replace(/,/g, '')) * multiplier;
+        tokens.push({ kind: 'number', raw, lower: String(value), stem: String(value), value, used: false });
+      } else if (symbol) {
+        tokens.push({ kind: 'symbol', raw: symbol, lower: symbol, stem: symbol, used: false });
+      } else if (word) {
+        const lower = word.toLowerCase().replace(/'s$/, '');
+        tokens.push({ kind: 'word', raw: word.replace(/'s$/i, ''), lower, stem: stem(lower), used: false });
+      }
+    }
+    return tokens;
+  }
+
+  // Time ranges
+  private parseTimeRange(tokens: Token[], now: Date): TimeRange | null {
+    const today = startOf(now, 'day');
+    const tomorrow = shift(today, 'day', 1);
+    const word = (index: number) => (tokens[index]?.kind === 'word' ? tokens[index].lower : '');
+    const take = (start: number, count: number) => {
+      const phrase = tokens.slice(start, start + count).map(token => token.raw).join(' ');
+      tokens.slice(start, start + count).forEach(token => { token.used = true; });
+      return phrase;
+    };
+
+    for (let i = 0; i < tokens.length; i++) {
+      const current = word(i);
+      const unit = TIME_UNITS[word(i + 1)];
+
+      if (current === 'today') {
+        return { start: today, end: tomorrow, phrase: take(i, 1) };
+      }
+      if (current === 'yesterday') {
+        return { start: shift(today, 'day', -1), end: today, phrase: take(i, 1) };
+      }
+      if ((current === 'this' || current === 'current') && unit && !word(i + 1).endsWith('s')) {
+        const start = startOf(now, unit);
+        return { start, end: shift(start, unit, 1), phrase: take(i, 2) };
+      }
+      if (['last', 'previous', 'prior'].includes(current) && unit && !word(i + 1).endsWith('s')) {
+        const start = shift(startOf(now, unit), unit, -1);
+        return { start, end: startOf(now, unit), phrase: take(i, 2) };
+      }
+      if (current === 'past' && unit && !word(i + 1).endsWith('s')) {
+        return { start: shift(today, unit, -1), end: tomorrow, phrase: take(i, 2) };
+      }
+      if (['last', 'past', 'previous'].includes(current) && tokens[i + 1]?.kind === 'number' && TIME_UNITS[word(i + 2)]) {
+        return { start: shift(today, TIME_UNITS[word(i + 2)], -tokens[i + 1].value!), end: tomorrow, phrase: take(i, 3) };
+      }
+      if (current === 'ytd') {
+        return { start: startOf(now, 'year'), end: tomorrow, phrase: take(i, 1) };
+      }
+      if (current === 'year' && word(i + 1) === 'to' && word(i + 2) === 'date') {
+        return { start: startOf(now, 'year'), end: tomorrow, phrase: take(i, 3) };
+      }
+
+      const quarter = /^q([1-4])$/.exec(current);
+      if (quarter) {
+        const hasYear = isYear(tokens[i + 1]);
+        const year = hasYear ? tokens[i + 1].value! : now.getFullYear();
+        const start = new Date(year, (Number(quarter[1]) - 1) * 3, 1);
+        return { start, end: shift(start, 'quarter', 1), phrase: take(i, hasYear ? 2 : 1) };
+      }
+
+      const month = MONTHS.indexOf(current);
+      if (month >= 0 && (current !== 'may' || isYear(tokens[i + 1]))) {
+        const hasYear = isYear(tokens[i + 1]);
+        // Without a year, the most recent such month
+        const year = hasYear ? tokens[i + 1].value! : now.getMonth() >= month ? now.getFullYear() : now.getFullYear() - 1;
+        const start = new Date(year, month, 1);
+        return { start, end: shift(start, 'month', 1), phrase: take(i, hasYear ? 2 : 1) };
+      }
+
+      if (current === 'between' && tokens[i + 1]?.kind === 'date' && word(i + 2) === 'and' && tokens[i + 3]?.kind === 'date') {
+        return { start: parseISODate(tokens[i + 1].raw), end: shift(parseISODate(tokens[i + 3].raw), 'day', 1), phrase: take(i, 4) };
+      }
+      if (['since', 'after', 'from'].includes(current) && (tokens[i + 1]?.kind === 'date' || isYear(tokens[i + 1]))) {
+        const start = tokens[i + 1].kind === 'date'
+          ? shift(parseISODate(tokens[i + 1].raw), 'day', current === 'after' ? 1 : 0)
+          : new Date(tokens[i + 1].value! + (current === 'after' ? 1 : 0), 0, 1);
+        return { start, phrase: take(i, 2) };
+      }
+      if (['before', 'until'].includes(current) && (tokens[i + 1]?.kind === 'date' || isYear(tokens[i + 1]))) {
+        const end = tokens[i + 1].kind === 'date'
+          ? shift(parseISODate(tokens[i + 1].raw), 'day', current === 'until' ? 1 : 0)
+          : new Date(tokens[i + 1].value! + (current === 'until' ? 1 : 0), 0, 1);
+        return { end, phrase: take(i, 2) };
+      }
+      if (current === 'on' && tokens[i + 1]?.kind === 'date') {
+        const start = parseISODate(tokens[i + 1].raw);
+        return { start, end: shift(start, 'day', 1), phrase: take(i, 2) };
+      }
+      if (['in', 'during', 'for', 'of'].includes(current) && isYear(tokens[i + 1])) {
+        const start = new Date(tokens[i + 1].value!, 0, 1);
+        return { start, end: shift(start, 'year', 1), phrase: take(i, 2) };
+      }
+    }
+
+    return null;
+  }
+
+  // Sort order and row limits
+  private parseSortIntent(tokens: Token[]): SortIntent {
+    const sort: SortIntent = {};
+    const word = (index: number) => (tokens[index]?.kind === 'word' && !tokens[index].used ? tokens[index].lower : '');
+    const numberAt = (index: number) =>
+      tokens[index]?.kind === 'number' && !tokens[index].used && Number.isInteger(tokens[index].value) && tokens[index].value! > 0
+        ? tokens[index].value
+        : undefined;
+
+    for (let i = 0; i < tokens.length; i++) {
+      const current = word(i);
+      if (!current) continue;
+      if (SORT_HINTS[current]) sort.hint = SORT_HINTS[current];
+
+      if ((current === 'top' || current === 'bottom' || current === 'first' || current === 'limit') && numberAt(i + 1)) {
+        sort.limit = numberAt(i + 1);
+        if (current === 'top') sort.direction = 'DESC';
+        if (current === 'bottom') sort.direction = 'ASC';
+        tokens[i].used = tokens[i + 1].used = true;
+      } else if (['last', 'latest', 'newest', 'recent'].includes(current) && numberAt(i + 1)) {
+        sort.limit = numberAt(i + 1);
+        sort.byDate = true;
+        sort.direction = 'DESC';
+        tokens[i].used = tokens[i + 1].used = true;
+      } else if (['latest', 'newest', 'recent'].includes(current) || (current === 'most' && word(i + 1) === 'recent')) {
+        sort.byDate = true;
+        sort.direction = 'DESC';
+        tokens[i].used = true;
+        if (current === 'most') tokens[i + 1].used = true;
+      } else if (['oldest', 'earliest'].includes(current)) {
+        sort.byDate = true;
+        sort.direction = 'ASC';
+        tokens[i].used = true;
+      } else if (DESCENDING_WORDS.has(current) || ASCENDING_WORDS.has(current)) {
+        sort.direction = DESCENDING_WORDS.has(current) ? 'DESC' : 'ASC';
+        tokens[i].used = true;
+        // "5 cheapest routes"
+        if (numberAt(i - 1)) {
+          sort.limit = numberAt(i - 1);
+          tokens[i - 1].used = true;
+        }
+        // "the most shipments", "fewest routes"
+        const next = tokens[i + 1];
+        if (['most', 'least', 'fewest'].includes(current) && next?.kind === 'word' && !next.used && next.stem !== next.lower) {
+          sort.countNoun = next.stem;
+          next.used = true;
+        }
+      } else if (current === 'expensive') {
+        tokens[i].used = true;
+      } else if (['asc', 'ascending'].includes(current)) {
+        sort.direction = 'ASC';
+        tokens[i].used = true;
+      } else if (['desc', 'descending'].includes(current)) {
+        sort.direction = 'DESC';
+        tokens[i].used = true;
+      }
+    }
+
+    return sort;
+  }
+
+  // Metrics
+  // Finds the schema's named metrics in the question, longest phrase first,
+  // and marks their words so they are not read as columns or aggregates
+  private parseMetrics(tokens: Token[], schema: DatabaseSchema, assumptions: string[]): MetricDefinition[] {
+    const found: MetricDefinition[] = [];
+    const phrases = (schema.metrics || [])
+      .filter(metric => schema.tables.some(table => table.name === metric.table))
+      .flatMap(metric => [metric.label, metric.name, ...(metric.synonyms || [])].map(phrase => ({ metric, terms: splitName(phrase) })))
+      .filter(phrase => phrase.terms.length > 0)
+      .sort((a, b) => b.terms.length - a.terms.length);
+
+    phrases.forEach(({ metric, terms }) => {
+      for (let i = 0; i + terms.length <= tokens.length; i++) {
+        const run = tokens.slice(i, i + terms.length);
+        if (!run.every((token, offset) => token.kind === 'word' && !token.used && token.stem === terms[offset])) continue;
+        run.forEach(token => { token.used = true; });
+        if (found.includes(metric)) continue;
+        // Metrics over another table cannot share one query
+        if (found.length > 0 && metric.table !== found[0].table) {
+          assumptions.push(`Left out ${metric.name}, which is measured over ${metric.table} rather than ${found[0].table}`);
+          continue;
+        }
+        found.push(metric);
+        assumptions.push(`"${run.map(token => token.raw).join(' ')}" is the ${metric.name} metric`);
+      }
+    });
+
+    return found;
+  }
+
+  // Drops groupings a metric does not allow and, when a trend is asked for
+  // without a time bucket, groups by the metric's grain
+  private applyMetricRules(
+    metrics: MetricDefinition[],
+    tokens: Token[],
+    dimensions: Dimension[],
+    dateColumn: ColumnRef | null,
+    joins: DatabaseTable[],
+    dialect: SQLDialect,
+    assumptions: string[]
+  ): void {
+    metrics.forEach(metric => {
+      if (!metric.dimensions || metric.dimensions.length === 0) return;
+      for (let i = dimensions.length - 1; i >= 0; i--) {
+        const allowed = (dimensions[i].refs || []).every(ref =>
+          ref.table.name === metric.table && metric.dimensions!.includes(ref.column.name));
+        if (!allowed) {
+          assumptions.push(`${metric.label} cannot be broken down by ${dimensions[i].label}, so that grouping was left out (it can be broken down by ${metric.dimensions!.join(', ')})`);
+          dimensions.splice(i, 1);
+        }
+      }
+    });
+
+    const grain = metrics.find(metric => metric.grain)?.grain;
+    const asksForTrend = tokens.some((token, index) =>
+      ['trend', 'trending'].includes(token.stem) || (token.lower === 'over' && tokens[index + 1]?.lower === 'time'));
+    const hasTimeBucket = dimensions.some(dimension => !dimension.refs);
+    if (grain && asksForTrend && !hasTimeBucket && dateColumn) {
+      dimensions.push({ expressions: this.timeBucket(dateColumn, grain, joins, dialect), label: grain });
+      assumptions.push(`Trend reported by ${grain}, the metric's grain`);
+    }
+  }
+
+  // Tables and columns
+  // Scores each table by the columns the question names, its own name and,
+  // more weakly, the words of its description
+  private chooseTable(tokens: Token[], schema: DatabaseSchema, countNoun?: string): DatabaseTable {
+    const words = tokens.filter(token => token.kind === 'word' && !token.used).map(token => token.stem);
+    const scores = schema.tables.map(table => {
+      let score = 0;
+      if (tableTerms(table).some(terms => this.containsRun(words, terms) || terms.join('_') === countNoun)) score += 1;
+      table.columns.forEach(column => {
+        if (this.matchColumnAt(words, 0, column, words.length) > 0) score += 1;
+      });
+      const descriptionTerms = new Set(splitName(table.description || '').filter(term => !FILLER_WORDS.has(term)));
+      score += 0.25 * Array.from(descriptionTerms).filter(term => words.includes(term) || term === countNoun).length;
+      return score;
+    });
+
+    // Ties go to the table listed first
+    const best = scores.indexOf(Math.max(...scores));
+    return schema.tables[best];
+  }
+
+  private containsRun(words: string[], terms: string[]): boolean {
+    return terms.length > 0 && words.some((_, index) => terms.every((term, offset) => words[index + offset] === term));
+  }
+
+  // How many words from `start` name the column: all of its name parts, its
+  // leading parts followed only by unit words, its whole description or one
+  // of its glossary synonyms. With `scanTo` past `start`, the best match
+  // anywhere before it counts.
+  private matchColumnAt(words: string[], start: number, column: DatabaseColumn, scanTo: number = start + 1): number {
+    const candidates = [splitName(column.name), splitName(column.description || ''), ...(column.synonyms || []).map(splitName)];
+    let best = 0;
+
+    for (let position = start; position < scanTo; position++) {
+      candidates.forEach((terms, index) => {
+        let matched = 0;
+        while (matched < terms.length && words[position + matched] === terms[matched]) matched++;
+        const isNameMatch = index === 0 && matched > 0 && terms.slice(matched).every(term => UNIT_WORDS.has(term));
+        const isDescriptionMatch = index === 1 && terms.length > 1 && matched === terms.length;
+        const isSynonymMatch = index > 1 && terms.length > 0 && matched === terms.length;
+        if (isNameMatch || isDescriptionMatch || isSynonymMatch) {
+          best = Math.max(best, matched);
+        }
+      });
+    }
+    return best;
+  }
+
+  // How many words from `start` name the table or one of its synonyms
+  private matchTableAt(words: string[], start: number, table: DatabaseTable): number {
+    return tableTerms(table).reduce((best, terms) =>
+      terms.every((term, offset) => words[start + offset] === term) ? Math.max(best, terms.length) : best, 0);
+  }
+
+  // Collapses runs of tokens that name a column of the chosen table, or of a
+  // table joined to it through a foreign key, into column items
+  private buildItems(
+    tokens: Token[],
+    schema: DatabaseSchema,
+    table: DatabaseTable,
+    joins: DatabaseTable[],
+    assumptions: string[]
+  ): Item[] {
+    const linked = schema.tables.filter(other => other !== table && this.findJoinKey(table, other));
+    const sources = [table, ...linked];
+    const words = tokens.map(token => (token.kind === 'word' && !token.used ? token.stem : '\u0000'));
+    const items: Item[] = [];
+
+    for (let i = 0; i < tokens.length;) {
+      let bestRef: ColumnRef | null = null;
+      let bestLength = 0;
+      sources.forEach(source => source.columns.forEach(column => {
+        const length = this.matchColumnAt(words, i, column);
+        if (length > bestLength) {
+          bestRef = { table: source, column };
+          bestLength = length;
+        }
+      }));
+
+      const tableLength = sources.reduce((best, candidate) => Math.max(best, this.matchTableAt(words, i, candidate)), 0);
+
+      const text = tokens.slice(i, i + Math.max(bestLength, tableLength, 1)).map(token => token.raw).join(' ');
+      if (bestRef && bestLength >= tableLength) {
+        const ref: ColumnRef = bestRef;
+        if (ref.table !== table && !joins.includes(ref.table)) {
+          joins.push(ref.table);
+          assumptions.push(`"${text}" is ${ref.table.name}.${ref.column.name}, joined to ${table.name}`);
+        }
+        // "spend" is cost; "lane" names both origin and destination
+        const phrase = words.slice(i, i + bestLength).join(' ');
+        const synonym = ref.column.synonyms?.find(candidate => splitName(candidate).join(' ') === phrase);
+        const siblings = synonym
+          ? ref.table.columns
+            .filter(column => column !== ref.column && column.synonyms?.some(candidate => splitName(candidate).join(' ') === phrase))
+            .map(column => ({ table: ref.table, column }))
+          : [];
+        if (synonym) {
+          const names = [ref, ...siblings].map(target => target.column.name).join(' and ');
+          assumptions.push(`"${text}" means ${names}`);
+        }
+        items.push({ type: 'column', ref, text, index: items.length, siblings: siblings.length > 0 ? siblings : undefined });
+        i += bestLength;
+      } else if (tableLength > 0) {
+        const named = sources.find(candidate => this.matchTableAt(words, i, candidate) === tableLength)!;
+        items.push({ type: 'table', table: named, text, index: items.length });
+        i += tableLength;
+      } else {
+        items.push({ type: 'token', token: tokens[i], index: items.length });
+        i++;
+      }
+    }
+
+    return items;
+  }
+
+  // Filters
+  private parseFilters(
+    items: Item[],
+    table: DatabaseTable,
+    joins: DatabaseTable[],
+    usedItems: Set<number>,
+    dialect: SQLDialect,
+    assumptions: string[]
+  ): { sql: string; description: string }[] {
+    const filters: { sql: string; description: string }[] = [];
+
+    for (let i = 0; i < items.length; i++) {
+      const item = items[i];
+
+      // "weight over 500", "cost between 100 and 200", "status is 'Delivered'"
+      if (item.type === 'column') {
+        const numeric = isNumericType(item.ref.column.type);
+        const column = this.columnSQL(item.ref, joins, dialect);
+        let j = i + 1;
+        while (this.wordAt(items, j) === 'is' || this.wordAt(items, j) === 'was' || this.wordAt(items, j) === 'of') j++;
+
+        if (this.wordAt(items, j) === 'between' && this.numberAt(items, j + 1) !== undefined
+          && this.wordAt(items, j + 2) === 'and' && this.numberAt(items, j + 3) !== undefined) {
+          filters.push({
+            sql: `${column} BETWEEN ${this.numberAt(items, j + 1)} AND ${this.numberAt(items, j + 3)}`,
+            description: `${item.ref.column.name} between ${this.numberAt(items, j + 1)} and ${this.numberAt(items, j + 3)}`
+          });
+          this.markUsed(usedItems, i, j + 4);
+          continue;
+        }
+
+        const comparator = this.matchComparator(items, j);
+        if (comparator && this.numberAt(items, j + comparator.length) !== undefined) {
+          const value = this.numberAt(items, j + comparator.length)!;
+          filters.push({
+            sql: `${column} ${comparator.operator} ${numeric ? value : this.stringLiteral(String(value))}`,
+            description: `${item.ref.column.name} ${comparator.operator} ${value}`
+          });
+          this.markUsed(usedItems, i, j + comparator.length + 1);
+          continue;
+        }
+
+        const value = this.valueAt(items, j, comparator ? comparator.length : 0);
+        if (value && !(numeric && isNaN(Number(value.text)))) {
+          const operator = comparator?.operator || '=';
+          filters.push({
+            sql: `${column} ${operator} ${numeric ? Number(value.text) : this.stringLiteral(value.text)}`,
+            description: `${item.ref.column.name} ${operator} ${value.text}`
+          });
+          this.markUsed(usedItems, i, value.end);
+          continue;
+        }
+      }
+
+      // "over $1000" without a column: a dollar amount is compared with the
+      // one money column, and anything else is reported rather than dropped
+      const bare = this.matchComparator(items, i);
+      if (bare && !usedItems.has(i) && this.numberAt(items, i + bare.length) !== undefined) {
+        const end = i + bare.length + 1;
+        const text = items.slice(i, end).map(part => (part.type === 'token' ? part.token.raw : part.text)).join(' ');
+        const ref = this.findComparedColumn(table, text.includes('$'));
+        if (ref) {
+          const value = this.numberAt(items, i + bare.length)!;
+          filters.push({
+            sql: `${this.columnSQL(ref, joins, dialect)} ${bare.operator} ${value}`,
+            description: `${ref.column.name} ${bare.operator} ${value}`
+          });
+          assumptions.push(`"${text}" is compared with ${ref.column.name}`);
+        } else {
+          assumptions.push(`Ignored "${text}" because the question does not say which column it compares`);
+        }
+        this.markUsed(usedItems, i, end);
+        continue;
+      }
+
+      // "for FedEx" names a value without saying which column holds it; a
+      // column whose profiled sample values include it is taken as meant
+      if (['for', 'with', 'where'].includes(this.wordAt(items, i)) && !usedItems.has(i)) {
+        const value = this.valueAt(items, i + 1, 0);
+        const first = items[i + 1];
+        if (value && first?.type === 'token' && first.token.kind !== 'number' && first.token.kind !== 'date') {
+          const match = this.findProfiledValue(value.text, table);
+          if (match) {
+            filters.push({
+              sql: `${this.columnSQL(match.ref, joins, dialect)} = ${this.stringLiteral(match.value)}`,
+              description: `${match.ref.column.name} = ${match.value}`
+            });
+            assumptions.push(`"${value.text}" is a ${match.ref.column.name} value`);
+          } else {
+            assumptions.push(`Ignored "${value.text}" because the question does not say which column holds it`);
+          }
+          this.markUsed(usedItems, i, value.end);
+          continue;
+        }
+      }
+
+      // "from Chicago to Denver"
+      if ((this.wordAt(items, i) === 'from' || this.wordAt(items, i) === 'to') && !usedItems.has(i)) {
+        const value = this.valueAt(items, i + 1, 0);
+        const terms = this.wordAt(items, i) === 'from' ? ['origin', 'source', 'from'] : ['destination', 'dest', 'to'];
+        const column = table.columns.find(candidate => splitName(candidate.name).some(term => terms.includes(term)));
+        if (value && column) {
+          const ref = { table, column };
+          filters.push({
+            sql: `${this.columnSQL(ref, joins, dialect)} = ${this.stringLiteral(value.text)}`,
+            description: `${column.name} = ${value.text}`
+          });
+          this.markUsed(usedItems, i, value.end);
+        }
+      }
+    }
+
+    // "delivered shipments", "in transit loads": words spelling a profiled
+    // value of a text column filter on it, longest run first
+    for (let i = 0; i < items.length; i++) {
+      for (let length = 3; length >= 1; length--) {
+        const run = items.slice(i, i + length);
+        if (run.length < length || run.some((item, offset) => usedItems.has(i + offset) || item.type !== 'token'
+          || item.token.kind !== 'word' || item.token.used)) continue;
+        const text = run.map(item => (item as { token: Token }).token.raw).join(' ');
+        if (length === 1 && (text.length < 3 || FILLER_WORDS.has(text.toLowerCase()))) continue;
+        const match = this.findProfiledValue(text, table);
+        if (!match || isNumericType(match.ref.column.type) || isDateType(match.ref.column.type)) continue;
+        filters.push({
+          sql: `${this.columnSQL(match.ref, joins, dialect)} = ${this.stringLiteral(match.value)}`,
+          description: `${match.ref.column.name} = ${match.value}`
+        });
+        assumptions.push(`"${text}" is a ${match.ref.column.name} value`);
+        this.markUsed(usedItems, i, i + length);
+        break;
+      }
+    }
+
+    return filters;
+  }
+
+  // The only money column of the table, when a dollar amount is compared
+  private findComparedColumn(table: DatabaseTable, currency: boolean): ColumnRef | null {
+    if (!currency) return null;
+    const candidates = table.columns
+      .map(column => ({ table, column }))
+      .filter(ref => isNumericType(ref.column.type) && !isKeyColumn(ref)
+        && [ref.column.name, ...(ref.column.synonyms || [])].some(name => splitName(name).some(term => CURRENCY_TERMS.has(term))));
+    return candidates.length === 1 ? candidates[0] : null;
+  }
+
+  // The column whose profiled sample values include the text, with the
+  // value spelled as stored
+  private findProfiledValue(text: string, table: DatabaseTable): { ref: ColumnRef; value: string } | null {
+    for (const column of table.columns) {
+      const value = column.profile?.sampleValues?.find(sample => sample.toLowerCase() === text.toLowerCase());
+      if (value !== undefined) return { ref: { table, column }, value };
+    }
+    return null;
+  }
+
+  private matchComparator(items: Item[], start: number): { operator: string; length: number } | null {
+    for (const comparator of COMPARATORS) {
+      if (comparator.words.every((word, offset) => {
+        const item = items[start + offset];
+        return item?.type === 'token' && item.token.lower === word;
+      })) {
+        return { operator: comparator.operator, length: comparator.words.length };
+      }
+    }
+    return null;
+  }
+
+  // A quoted string, number or run of capitalised words naming a value
+  private valueAt(items: Item[], start: number, skip: number): { text: string; end: number } | null {
+    const first = items[start + skip];
+    if (first?.type !== 'token' || first.token.used) return null;
+
+    if (first.token.kind === 'quoted' || first.token.kind === 'number' || first.token.kind === 'date') {
+      return { text: first.token.raw, end: start + skip + 1 };
+    }
+
+    const words: string[] = [];
+    let end = start + skip;
+    while (true) {
+      const item = items[end];
+      if (item?.type !== 'token' || item.token.kind !== 'word' || item.token.used) break;
+      if (!/^[A-Z]/.test(item.token.raw) || FILLER_WORDS.has(item.token.lower)) break;
+      words.push(item.token.raw);
+      end++;
+    }
+    return words.length > 0 ? { text: words.join(' '), end } : null;
+  }
+
+  // Dimensions
+  // A "by" or "per" followed by nothing the schema knows is reported rather
+  // than silently answered without the grouping
+  private parseDimensions(
+    items: Item[],
+    table: DatabaseTable,
+    joins: DatabaseTable[],
+    sort: SortIntent,
+    usedItems: Set<number>,
+    dialect: SQLDialect,
+    metrics: MetricDefinition[],
+    assumptions: string[]
+  ): Dimension[] {
+    const dimensions: Dimension[] = [];
+    const dateColumn = this.findDateColumn(items, table);
+
+    const addBucket = (unit: TimeUnit) => {
+      if (!dateColumn) return;
+      dimensions.push({ expressions: this.timeBucket(dateColumn, unit, joins, dialect), label: unit });
+    };
+
+    for (let i = 0; i < items.length; i++) {
+      const word = this.wordAt(items, i);
+
+      if (PERIOD_ADJECTIVES[word] && dateColumn) {
+        addBucket(PERIOD_ADJECTIVES[word]);
+        usedItems.add(i);
+        continue;
+      }
+
+      const isSortKeyword = ['sorted', 'sort', 'order', 'ordered', 'rank', 'ranked'].includes(this.wordAt(items, i - 1));
+      if (!['by', 'per', 'each', 'every'].includes(word) || usedItems.has(i)) continue;
+
+      let j = i + 1;
+      while (['each', 'every', 'the'].includes(this.wordAt(items, j))) j++;
+      const first = j;
+
+      // "by month", "per quarter"
+      do {
+        const unit = TIME_UNITS[this.wordAt(items, j)];
+        const next = items[j];
+        if (unit && dateColumn && !isSortKeyword) {
+          addBucket(unit);
+          this.markUsed(usedItems, i, j + 1);
+        } else if (next?.type === 'column' && !usedItems.has(j)) {
+          if (isSortKeyword) {
+            sort.column = next.ref;
+            this.markUsed(usedItems, i - 1, j + 1);
+          } else if (!isNumericType(next.ref.column.type) || next.ref.column.name.toLowerCase() === 'year' || isKeyColumn(next.ref)) {
+            const refs = [next.ref, ...(next.siblings || [])];
+            const expression = refs.flatMap(ref => isDateType(ref.column.type)
+              ? this.timeBucket(ref, 'day', joins, dialect)
+              : [{ sql: this.columnSQL(ref, joins, dialect) }]);
+            dimensions.push({ expressions: expression, label: refs.map(ref => ref.column.name).join(' and '), refs });
+            this.markUsed(usedItems, i, j + 1);
+          } else {
+            // "carriers by cost" ranks by the measure rather than grouping by it
+            if (!sort.direction) sort.direction = 'DESC';
+            break;
+          }
+        } else if (!isSortKeyword && MEASURE_WORDS.has(this.wordAt(items, j))) {
+          // "carriers by total cost": the measure is read by parseMeasures
+          if (!sort.direction) sort.direction = 'DESC';
+          break;
+        } else {
+          const text = this.wordAt(items, j);
+          if (j === first && text && !usedItems.has(j) && ['by', 'per'].includes(word)) {
+            assumptions.push(this.describeMissingGrouping(text, table, !!TIME_UNITS[text], isSortKeyword, metrics));
+          }
+          break;
+        }
+        // "by carrier and service type"
+        j++;
+        if (this.wordAt(items, j) !== 'and') break;
+        j++;
+      } while (j < items.length);
+    }
+
+    return dimensions;
+  }
+
+  private describeMissingGrouping(
+    text: string,
+    table: DatabaseTable,
+    isTimeUnit: boolean,
+    isSort: boolean,
+    metrics: MetricDefinition[]
+  ): string {
+    const reason = isTimeUnit ? `${table.name} has no date column` : `${table.name} has no such column`;
+    if (isSort) {
+      return `Couldn't sort by "${text}": ${reason}`;
+    }
+    if (metrics.length > 0) {
+      const allowed = metrics.flatMap(metric => metric.dimensions || []);
+      return `${metrics.map(metric => metric.label).join(' and ')} cannot be broken down by "${text}": ${reason}` +
+        (allowed.length > 0 ? ` (it can be broken down by ${allowed.join(', ')})` : '');
+    }
+    return `Couldn't group by "${text}": ${reason}, so the results are not broken down`;
+  }
+
+  // Measures
+  private parseMeasures(items: Item[], table: DatabaseTable, grouped: boolean, usedItems: Set<number>, assumptions: string[]): Measure[] {
+    const measures: Measure[] = [];
+
+    for (let i = 0; i < items.length; i++) {
+      const item = items[i];
+      const word = this.wordAt(items, i);
+
+      // "how many shipments", "number of routes", "count of carriers"
+      if ((word === 'many' && this.wordAt(items, i - 1) === 'how') || (word === 'number' && this.wordAt(items, i + 1) === 'of') || word === 'count') {
+        let nounIndex = word === 'many' ? i + 1 : this.wordAt(items, i + 1) === 'of' ? i + 2 : i + 1;
+        // "how many delivered shipments": skip words already read as a filter value
+        while (usedItems.has(nounIndex)) nounIndex++;
+        const noun = this.nounAt(items, nounIndex) || this.getEntityNoun(items, table);
+        measures.push({ aggregate: 'COUNT', alias: `${noun}_count`, label: `number of ${noun}s` });
+        usedItems.add(i);
+        if (items[nounIndex]?.type !== 'column' || !isNumericType((items[nounIndex] as { ref: ColumnRef }).ref.column.type)) {
+          usedItems.add(nounIndex);
+        }
+        continue;
+      }
+
+      if (item.type !== 'column' || usedItems.has(i) || !isNumericType(item.ref.column.type) || isKeyColumn(item.ref)) continue;
+
+      // Look back past "of" and "the" for "total", "average" and the like
+      let j = i - 1;
+      while (['of', 'the'].includes(this.wordAt(items, j))) j--;
+      const aggregate = AGGREGATE_WORDS[this.wordAt(items, j)];
+
+      if (aggregate || grouped) {
+        const name = item.ref.column.name;
+        measures.push({
+          aggregate: aggregate || 'SUM',
+          column: item.ref,
+          alias: `${AGGREGATE_ALIASES[aggregate || 'SUM']}_${name}`,
+          label: `${AGGREGATE_LABELS[aggregate || 'SUM']} ${name.replace(/_/g, ' ')}`
+        });
+        if (!aggregate) {
+          assumptions.push(`"${item.text}" is summed`);
+        }
+        usedItems.add(i);
+        if (aggregate) usedItems.add(j);
+      }
+    }
+
+    return measures;
+  }
+
+  // Ordering
+  private buildOrderBy(
+    table: DatabaseTable,
+    sort: SortIntent,
+    measures: Measure[],
+    dimensions: Dimension[],
+    otherColumns: ColumnRef[],
+    dateColumn: ColumnRef | null,
+    joins: DatabaseTable[],
+    dialect: SQLDialect,
+    assumptions: string[]
+  ): string | null {
+    const direction = sort.direction || 'DESC';
+
+    if (sort.column) {
+      const measure = measures.find(candidate => candidate.column?.column === sort.column!.column);
+      return `${measure ? measure.alias : this.columnSQL(sort.column, joins, dialect)} ${sort.direction || 'ASC'}`;
+    }
+    if (sort.byDate && dateColumn && measures.length === 0) {
+      return `${this.columnSQL(dateColumn, joins, dialect)} ${direction}`;
+    }
+    if (measures.length > 0) {
+      if (dimensions.length === 0) return null;
+      // Time series read oldest first unless the question asks for a ranking
+      const timeAliases = dimensions.flatMap(dimension => dimension.expressions).filter(expression => expression.alias);
+      if (!sort.direction && timeAliases.length === dimensions.flatMap(dimension => dimension.expressions).length) {
+        return timeAliases.map(expression => expression.alias).join(', ');
+      }
+      return `${measures[0].alias} ${direction}`;
+    }
+
+    const hinted = sort.hint && table.columns.find(column =>
+      isNumericType(column.type) && splitName(column.name).some(term => sort.hint!.includes(term)));
+    const numeric = hinted
+      ? { table, column: hinted }
+      : otherColumns.find(ref => isNumericType(ref.column.type) && !isKeyColumn(ref));
+    if (sort.direction && numeric) {
+      return `${this.columnSQL(numeric, joins, dialect)} ${direction}`;
+    }
+    if (sort.direction && dateColumn) {
+      assumptions.push(`Sorted by ${dateColumn.column.name}`);
+      return `${this.columnSQL(dateColumn, joins, dialect)} ${direction}`;
+    }
+    return null;
+  }
+
+  // Time filters and buckets
+  private findDateColumn(items: Item[], table: DatabaseTable): ColumnRef | null {
+    const named = items.find((item): item is Extract<Item, { type: 'column' }> =>
+      item.type === 'column' && item.ref.table === table && isDateType(item.ref.column.type));
+    if (named) return named.ref;
+    const column = table.columns.find(candidate => isDateType(candidate.type));
+    return column ? { table, column } : null;
+  }
+
+  private buildTimeFilter(
+    range: TimeRange,
+    table: DatabaseTable,
+    dateColumn: ColumnRef | null,
+    joins: DatabaseTable[],
+    dialect: SQLDialect,
+    assumptions: string[]
+  ): { sql: string; description: string } | null {
+    const lastDay = range.end ? formatDate(shift(range.end, 'day', -1)) : undefined;
+    const span = range.start && lastDay ? `${formatDate(range.start)} to ${lastDay}` : range.start ? `from ${formatDate(range.start)}` : `up to ${lastDay}`;
+
+    if (dateColumn) {
+      const column = this.columnSQL(dateColumn, joins, dialect);
+      const conditions = [
+        ...(range.start ? [`${column} >= '${formatDate(range.start)}'`] : []),
+        ...(range.end ? [`${column} < '${formatDate(range.end)}'`] : [])
+      ];
+      assumptions.push(`"${range.phrase}" = ${span} on ${dateColumn.column.name}`);
+      return { sql: conditions.join('\n  AND '), description: range.phrase };
+    }
+
+    // Whole years can still be matched on a numeric year column
+    const yearColumn = table.columns.find(column => column.name.toLowerCase() === 'year' && isNumericType(column.type));
+    const wholeYears = (!range.start || (range.start.getMonth() === 0 && range.start.getDate() === 1))
+      && (!range.end || (range.end.getMonth() === 0 && range.end.getDate() === 1));
+    if (yearColumn && wholeYears) {
+      const column = this.columnSQL({ table, column: yearColumn }, joins, dialect);
+      const conditions = [
+        ...(range.start ? [`${column} >= ${range.start.getFullYear()}`] : []),
+        ...(range.end ? [`${column} < ${range.end.getFullYear()}`] : [])
+      ];
+      assumptions.push(`"${range.phrase}" = ${span} on ${yearColumn.name}`);
+      return { sql: conditions.join('\n  AND '), description: range.phrase };
+    }
+
+    assumptions.push(`"${range.phrase}" was ignored because ${table.name} has no date column`);
+    return null;
+  }
+
+  // Expressions that group a date column by the unit, in the dialect's functions
+  private timeBucket(ref: ColumnRef, unit: TimeUnit, joins: DatabaseTable[], dialect: SQLDialect): { sql: string; alias?: string }[] {
+    const column = this.columnSQL(ref, joins, dialect);
+    const base = ref.column.name.replace(/_?(date|at|on|time)$/i, '') || 'period';
+    const alias = (part: TimeUnit) => `${base}_${part}`;
+
+    if (unit === 'day') {
+      return [{ sql: `CAST(${column} AS DATE)`, alias: alias('day') }];
+    }
+    if (unit === 'year') {
+      const year = {
+        postgresql: `EXTRACT(YEAR FROM ${column})`,
+        bigquery: `EXTRACT(YEAR FROM ${column})`,
+        mysql: `YEAR(${column})`,
+        sqlserver: `DATEPART(year, ${column})`,
+        sqlite: `STRFTIME('%Y', ${column})`
+      }[dialect];
+      return [{ sql: year, alias: alias('year') }];
+    }
+
+    switch (dialect) {
+      case 'postgresql':
+        return [{ sql: `DATE_TRUNC('${unit}', ${column})`, alias: alias(unit) }];
+      case 'bigquery':
+        return [{ sql: `DATE_TRUNC(${column}, ${unit.toUpperCase()})`, alias: alias(unit) }];
+      case 'mysql':
+        return unit === 'month'
+          ? [{ sql: `DATE_FORMAT(${column}, '%Y-%m')`, alias: alias('month') }]
+          : [{ sql: `YEAR(${column})`, alias: alias('year') }, { sql: `${unit.toUpperCase()}(${column})`, alias: alias(unit) }];
+      case 'sqlserver':
+        return [{ sql: `DATEPART(year, ${column})`, alias: alias('year') }, { sql: `DATEPART(${unit}, ${column})`, alias: alias(unit) }];
+      case 'sqlite':
+        if (unit === 'month') return [{ sql: `STRFTIME('%Y-%m', ${column})`, alias: alias('month') }];
+        if (unit === 'week') return [{ sql: `STRFTIME('%Y-%W', ${column})`, alias: alias('week') }];
+        return [
+          { sql: `STRFTIME('%Y', ${column})`, alias: alias('year') },
+          { sql: `CAST((CAST(STRFTIME('%m', ${column}) AS INTEGER) + 2) / 3 AS INTEGER)`, alias: alias('quarter') }
+        ];
+    }
+  }
+
+  // SQL text
+  private joinSQL(table: DatabaseTable, joined: DatabaseTable, dialect: SQLDialect): string {
+    const key = this.findJoinKey(table, joined)!;
+    return `JOIN ${this.identifier(joined.name, dialect)} ON ${this.identifier(key.from.table, dialect)}.${this.identifier(key.from.column, dialect)} = ${this.identifier(key.to.table, dialect)}.${this.identifier(key.to.column, dialect)}`;
+  }
+
+  // A foreign key between the two tables, in either direction
+  private findJoinKey(a: DatabaseTable, b: DatabaseTable): { from: { table: string; column: string }; to: { table: string; column: string } } | null {
+    const forward = a.foreignKeys?.find(foreignKey => foreignKey.references.table === b.name);
+    if (forward) {
+      return { from: { table: a.name, column: forward.column }, to: forward.references };
+    }
+    const backward = b.foreignKeys?.find(foreignKey => foreignKey.references.table === a.name);
+    if (backward) {
+      return { from: backward.references, to: { table: b.name, column: backward.column } };
+    }
+    return null;
+  }
+
+  private columnSQL(ref: ColumnRef, joins: DatabaseTable[], dialect: SQLDialect): string {
+    const column = this.identifier(ref.column.name, dialect);
+    return joins.length > 0 ? `${this.identifier(ref.table.name, dialect)}.${column}` : column;
+  }
+
+  private identifier(name: string, dialect: SQLDialect): string {
+    return /^[A-Za-z_][A-Za-z0-9_]*$/.test(name) && !isReservedKeyword(name) ? name : quoteIdentifier(name, dialect);
+  }
+
+  private stringLiteral(value: string): string {
+    return `'${value.replace(/'/g, "''")}'`;
+  }
+
+  private describe(
+    table: DatabaseTable,
+    measures: Measure[],
+    dimensions: Dimension[],
+    filters: { description: string }[],
+    timeRange: TimeRange | null
+  ): string {
+    let summary = measures.length > 0 ? measures.map(measure => measure.label).join(', ') : `rows from ${table.name}`;
+    if (dimensions.length > 0) {
+      summary += ` by ${dimensions.map(dimension => dimension.label.replace(/_/g, ' ')).join(' and ')}`;
+    }
+    const conditions = filters.map(filter => filter.description).filter(description => description !== timeRange?.phrase);
+    if (conditions.length > 0) {
+      summary += ` where ${conditions.join(' and ')}`;
+    }
+    if (timeRange) {
+      summary += `, ${timeRange.phrase}`;
+    }
+    return capitalize(summary);
+  }
+
+  // Item helpers
+  private getEntityNoun(items: Item[], table: DatabaseTable): string {
+    const named = items.find((item): item is Extract<Item, { type: 'table' }> => item.type === 'table' && item.table === table);
+    return stem(splitName(named ? named.text : table.name).join('_'));
+  }
+
+  private nounAt(items: Item[], index: number): string | null {
+    const item = items[index];
+    if (!item) return null;
+    if (item.type === 'table') return splitName(item.text).join('_');
+    if (item.type === 'column') return splitName(item.ref.column.name).join('_');
+    return item.token.kind === 'word' && !FILLER_WORDS.has(item.token.lower) ? item.token.stem : null;
+  }
+
+  private wordAt(items: Item[], index: number): string {
+    const item = items[index];
+    return item?.type === 'token' && item.token.kind === 'word' && !item.token.used ? item.token.lower : '';
+  }
+
+  private numberAt(items: Item[], index: number): number | undefined {
+    const item = items[index];
+    return item?.type === 'token' && item.token.kind === 'number' && !item.token.used ? item.token.value : undefined;
+  }
+
+  private markUsed(usedItems: Set<number>, from: number, to: number): void {
+    for (let index = from; index < to; index++) usedItems.add(index);
+  }
+
+  private unique<T>(values: T[]): T[] {
+    return Array.from(new Set(values));
+  }
+}
+
+export const offlineSQLGenerator = OfflineSQLGenerator.getInstance();
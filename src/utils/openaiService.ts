@@ -1,90 +1,160 @@
-import OpenAI from 'openai';
+import { schemaManager, DatabaseSchema } from './schemaManager';
+import { llmProviderManager, LLMProvider, ChatMessage, ChatCompletionRequest, ChatCompletionResponse, ProviderRequestError } from './llmProviders';
+import { OperationCancelledError, DEFAULT_TIMEOUTS, createOperationSignal, throwIfCancelled } from './cancellation';
+import { sqlValidator, ValidationError } from './sqlValidator';
+import { ConversationTurn } from './conversationManager';
+import { SQLDialect, DEFAULT_DIALECT, describeDialect, applyRowLimit } from './sqlDialects';
+import { usageTracker, estimateTokens } from './usageTracker';
+import { queryHistoryManager, FewShotExample } from './queryHistory';
+import { TokenBucket, RequestQueue, RequestWaitState, retryWithBackoff } from './rateLimiting';
+import { columnProfiler } from './columnProfiler';
+import { redactionManager, RedactionItem, REDACTION_INSTRUCTIONS } from './redaction';
 
-// Initialize OpenAI client
-const apiKey = process.env.REACT_APP_OPENAI_API_KEY;
+// SQL generation system prompt, built around the active database schema
+function buildSystemPrompt(schemaContext: string, dialect: SQLDialect, examples: FewShotExample[], allowClarification: boolean): string {
+  return `You are an expert SQL analyst. Write queries against the following database.
 
-if (!apiKey) {
-  console.error("OpenAI API key not found. Please set REACT_APP_OPENAI_API_KEY environment variable.");
-  // You might want to throw an error here or handle it gracefully
-  // For now, let's proceed, but OpenAI calls will fail.
+${schemaContext}
+${describeDialect(dialect)}
+
+Generate SQL queries that are:
+1. Restricted to the tables and columns listed above
+2. Optimized for performance (use appropriate indexes, limit results when needed)
+3. Well-formatted and readable
+4. Include meaningful column aliases
+5. Use proper aggregation functions (SUM, COUNT, AVG, etc.)
+6. Include ORDER BY clauses for meaningful sorting
+7. Use appropriate WHERE clauses for filtering
+8. Join tables through the listed foreign keys where relationships are needed
+9. Consider using CTEs (Common Table Expressions) for complex queries
+10. Include comments explaining the logic
+
+Use the table, column and database descriptions to interpret business terms in the question.
+
+Respond with a single JSON object and nothing else, in this format:
+{
+  "sql": "the SQL query",
+  "assumptions": ["each interpretation you made, e.g. \"last quarter = Q3 2025\""],
+  "referencedTables": ["schema tables the query reads"],
+  "referencedColumns": ["schema columns the query uses, as table.column"],
+  "confidence": 0.0 to 1.0, how sure you are that the SQL answers the question
+}
+Use real schema table names in referencedTables and referencedColumns, not aliases or CTE names.${allowClarification ? CLARIFICATION_INSTRUCTIONS : ''}${describeExamples(examples)}`;
 }
 
-const openai = new OpenAI({
-  apiKey: apiKey, // Use the API key from environment variable
-  dangerouslyAllowBrowser: true // Note: In production, this should be handled server-side
-});
-
-// Database schema context for better SQL generation
-const DATABASE_SCHEMA = `
-Database: freight_analytics
-Tables:
-- freight_data (
-    id INT PRIMARY KEY,
-    carrier VARCHAR(50),
-    origin VARCHAR(100),
-    destination VARCHAR(100),
-    cost DECIMAL(10,2),
-    weight DECIMAL(8,2),
-    shipment_date DATE,
-    quarter VARCHAR(10),
-    year INT,
-    service_type VARCHAR(50),
-    delivery_time_days INT,
-    status VARCHAR(20)
-  )
-- carriers (
-    id INT PRIMARY KEY,
-    name VARCHAR(50),
-    type VARCHAR(20),
-    region VARCHAR(50),
-    rating DECIMAL(3,2)
-  )
-- routes (
-    id INT PRIMARY KEY,
-    origin VARCHAR(100),
-    destination VARCHAR(100),
-    distance_miles INT,
-    typical_cost DECIMAL(10,2)
-  )
-`;
-
-// SQL generation system prompt
-const SYSTEM_PROMPT = `You are an expert SQL analyst specializing in freight and logistics data analysis. 
-
-${DATABASE_SCHEMA}
+const CLARIFICATION_INSTRUCTIONS = `
 
-Generate SQL queries that are:
-1. Optimized for performance (use appropriate indexes, limit results when needed)
-2. Well-formatted and readable
-3. Include meaningful column aliases
-4. Use proper aggregation functions (SUM, COUNT, AVG, etc.)
-5. Include ORDER BY clauses for meaningful sorting
-6. Use appropriate WHERE clauses for filtering
-7. Consider using CTEs (Common Table Expressions) for complex queries
-8. Include comments explaining the logic
-
-Common analysis patterns:
-- Cost analysis by carrier, route, or time period
-- Performance metrics (delivery times, costs per mile)
-- Trend analysis over quarters/years
-- Comparative analysis between carriers
-- Route optimization insights
-- Service type performance
-
-Always return only the SQL query, no explanations or markdown formatting.`;
+If the question can be read in ways that give materially different results (for example origin or destination region, calendar or fiscal quarter) and neither the schema descriptions nor earlier clarifications settle it, ask instead of guessing. Respond with this JSON object instead of the SQL:
+{
+  "clarification": {
+    "question": "a short question for the user",
+    "options": ["2 to 5 short answers the user can pick from"]
+  }
+}
+Only ask when the choice matters; otherwise answer with SQL and record the interpretation in assumptions.`;
+
+// Favorite queries similar to the question, shown as known-good examples
+function describeExamples(examples: FewShotExample[]): string {
+  if (examples.length === 0) return '';
+
+  return `
+
+These questions were answered correctly before. Follow their conventions where they apply to the new question:
+${examples.map((example, index) => `
+Example ${index + 1}
+Question: "${example.question}"
+SQL:
+${example.sql}`).join('\n')}`;
+}
 
 export interface SQLGenerationOptions {
   includeComments?: boolean;
   limitResults?: number;
   preferCTEs?: boolean;
   includePerformanceHints?: boolean;
+  maxRepairAttempts?: number;
+  maxRetries?: number; // Retries of rate-limited or failed requests, per attempt
+  maxExamples?: number; // Favorite queries to include as examples; 0 disables them
+  allowClarification?: boolean; // Let the model ask a question instead of guessing
+  clarifications?: ClarificationAnswer[]; // Answers the user already gave for this question
+  dialect?: SQLDialect; // Overrides the schema's dialect
+  timeoutMs?: number; // Covers every attempt, including repairs
+}
+
+export interface SQLGenerationAttempt {
+  attempt: number;
+  sql: string;
+  errors: ValidationError[];
+}
+
+// Token usage summed over every attempt of one generation
+export interface SQLGenerationUsage {
+  promptTokens: number;
+  completionTokens: number;
+  cost: number;
+  estimated: boolean;
+}
+
+// A question the model asks instead of generating SQL for an ambiguous request
+export interface SQLClarification {
+  question: string;
+  options: string[];
+  usage: SQLGenerationUsage;
+}
+
+export interface ClarificationAnswer {
+  question: string;
+  answer: string;
+}
+
+// The JSON object the model is asked to return
+export interface StructuredSQLResponse {
+  sql: string;
+  assumptions: string[];
+  referencedTables: string[];
+  referencedColumns: string[];
+  confidence: number;
+}
+
+export interface SQLGenerationResult {
+  sql: string;
+  assumptions: string[];
+  referencedTables: string[];
+  referencedColumns: string[];
+  confidence: number;
+  attempts: SQLGenerationAttempt[];
+  fixedErrors: ValidationError[];
+  remainingErrors: ValidationError[];
+  dialect: SQLDialect;
+  usage: SQLGenerationUsage;
+  examples: FewShotExample[]; // Favorites included in the prompt
+  redactions: RedactionItem[]; // Values masked before the prompt was sent
+}
+
+// Receives the SQL as it streams in; each repair attempt starts from an empty string.
+// onWaitState reports queueing, throttling and retries, and null once a request is sent.
+export interface SQLGenerationStream {
+  onPartialSQL?: (sql: string, attempt: number) => void;
+  onWaitState?: (state: RequestWaitState | null) => void;
+  signal?: AbortSignal;
+}
+
+const DEFAULT_MAX_REPAIR_ATTEMPTS = 2;
+const DEFAULT_MAX_RETRIES = 3;
+const DEFAULT_MAX_EXAMPLES = 3;
+const MAX_CLARIFICATIONS = 2; // Past this many answers the model must generate SQL
+
+export function isClarification(result: SQLGenerationResult | SQLClarification): result is SQLClarification {
+  return !('sql' in result);
 }
 
 export class OpenAIService {
   private static instance: OpenAIService;
   private requestCount = 0;
   private lastRequestTime = 0;
-  private readonly RATE_LIMIT_DELAY = 1000; // 1 second between requests
+  // Bursts of 3 requests, then one every 3 seconds (the proxy allows 20 a minute)
+  private readonly rateLimiter = new TokenBucket(3, 1 / 3);
+  private readonly requestQueue = new RequestQueue();
 
   static getInstance(): OpenAIService {
     if (!OpenAIService.instance) {
@@ -93,45 +163,209 @@ export class OpenAIService {
     return OpenAIService.instance;
   }
 
+  // Generates SQL as a structured response, checks the response and the SQL
+  // against the schema and sends any errors back to the model until the
+  // response is valid or the repair budget is spent.
+  // Earlier turns of the conversation thread are replayed so follow-ups can
+  // revise the previous query.
+  // With an onPartialSQL callback the response is streamed; the SQL is
+  // validated once each attempt's stream completes. Aborting the signal
+  // rejects with OperationCancelledError; running past the timeout fails.
+  // With allowClarification the model may return an SQLClarification
+  // instead; pass the user's answer back in options.clarifications.
   async generateSQL(
     question: string, 
-    options: SQLGenerationOptions = {}
-  ): Promise<string> {
-    // Rate limiting
-    await this.enforceRateLimit();
+    options: SQLGenerationOptions = {},
+    schema?: DatabaseSchema | null,
+    thread: ConversationTurn[] = [],
+    stream: SQLGenerationStream = {}
+  ): Promise<SQLGenerationResult | SQLClarification> {
+    const operation = createOperationSignal('SQL generation', {
+      signal: stream.signal,
+      timeoutMs: options.timeoutMs ?? DEFAULT_TIMEOUTS.generation
+    });
 
     try {
-      const userPrompt = this.buildUserPrompt(question, options);
-      
-      const response = await openai.chat.completions.create({
-        model: "gpt-4",
-        messages: [
-          { role: "system", content: SYSTEM_PROMPT },
-          { role: "user", content: userPrompt }
-        ],
-        temperature: 0.3, // Lower temperature for more consistent SQL
-        max_tokens: 1000,
-        top_p: 0.9
-      });
+      // Generations run one at a time so repeated clicks don't send concurrent requests
+      return await this.requestQueue.run(
+        () => this.runGeneration(question, options, schema, thread, stream, operation.signal),
+        operation.signal,
+        position => stream.onWaitState?.({ state: 'queued', position })
+      );
+    } catch (error) {
+      if (error instanceof OperationCancelledError) throw error;
+      console.error('LLM provider error:', error);
+      throw new Error(`Failed to generate SQL: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      operation.dispose();
+    }
+  }
 
-      this.requestCount++;
-      this.lastRequestTime = Date.now();
+  private async runGeneration(
+    question: string,
+    options: SQLGenerationOptions,
+    schema: DatabaseSchema | null | undefined,
+    thread: ConversationTurn[],
+    stream: SQLGenerationStream,
+    signal: AbortSignal
+  ): Promise<SQLGenerationResult | SQLClarification> {
+    const activeSchema = schema || await schemaManager.getDefaultSchema();
+    const dialect = options.dialect || activeSchema.dialect || DEFAULT_DIALECT;
+    const examples = await queryHistoryManager.findSimilarFavorites(question, options.maxExamples ?? DEFAULT_MAX_EXAMPLES);
+    const clarifications = options.clarifications || [];
+    const allowClarification = !!options.allowClarification && clarifications.length < MAX_CLARIFICATIONS;
+    const maxRepairAttempts = options.maxRepairAttempts ?? DEFAULT_MAX_REPAIR_ATTEMPTS;
+
+    // Everything sent to the provider is redacted; the original values are
+    // restored in the response before it is validated or shown
+    const redactor = await redactionManager.createRedactor(activeSchema);
+    const promptQuestion = redactor.redactQuestion(question, 'question');
+    const promptSchema = redactor.redactSchema(activeSchema);
+    const promptOptions: SQLGenerationOptions = {
+      ...options,
+      clarifications: clarifications.map(c => ({
+        question: redactor.redactQuestion(c.question, 'question'),
+        answer: redactor.redactQuestion(c.answer, 'question')
+      }))
+    };
+    const promptExamples = examples.map(example => ({
+      ...example,
+      question: redactor.redactQuestion(example.question, 'examples'),
+      sql: redactor.redactSQL(example.sql, 'examples')
+    }));
+
+    const systemPrompt = buildSystemPrompt(schemaManager.generateSchemaContext(promptSchema), dialect, promptExamples, allowClarification)
+      + (redactor.enabled ? REDACTION_INSTRUCTIONS : '');
+    const userPrompt = this.buildUserPrompt(promptQuestion, promptOptions, promptSchema, thread.length > 0);
+    
+    const provider = await llmProviderManager.getActiveProvider();
+    const messages: ChatMessage[] = [
+      { role: 'system', content: systemPrompt },
+      ...thread.flatMap((turn, index): ChatMessage[] => {
+        const turnQuestion = redactor.redactQuestion(turn.question, 'history');
+        return [
+          { role: 'user', content: index === 0 ? `Generate SQL for: "${turnQuestion}"` : `Follow-up request: "${turnQuestion}"` },
+          { role: 'assistant', content: JSON.stringify({ sql: redactor.redactSQL(turn.sql, 'history') }) }
+        ];
+      }),
+      { role: 'user', content: userPrompt }
+    ];
+    const attempts: SQLGenerationAttempt[] = [];
+    const usage: SQLGenerationUsage = { promptTokens: 0, completionTokens: 0, cost: 0, estimated: false };
+    let structured: StructuredSQLResponse | null = null;
+
+    try {
+      while (true) {
+        // Spend budgets are checked before every attempt
+        throwIfCancelled(signal);
+        await usageTracker.assertWithinBudget();
+
+        const attemptNumber = attempts.length + 1;
+        let streamed = '';
+        const response = await this.sendRequest(provider, {
+          messages,
+          responseFormat: 'json',
+          signal,
+          onDelta: stream.onPartialSQL && (delta => {
+            streamed += delta;
+            stream.onPartialSQL!(redactor.restoreSQL(this.extractPartialSQL(streamed)), attemptNumber);
+          })
+        }, options.maxRetries ?? DEFAULT_MAX_RETRIES, stream.onWaitState);
+
+        // Providers that report no usage get an estimate from the text lengths
+        const record = await usageTracker.recordUsage(
+          provider.config.type,
+          response.model,
+          response.usage || {
+            promptTokens: estimateTokens(messages.map(message => message.content).join('\n')),
+            completionTokens: estimateTokens(response.content)
+          },
+          !response.usage
+        );
+        usage.promptTokens += record.promptTokens;
+        usage.completionTokens += record.completionTokens;
+        usage.cost += record.cost;
+        usage.estimated = usage.estimated || record.estimated;
 
-      const sql = response.choices[0]?.message?.content?.trim();
+        const content = response.content.trim();
       
-      if (!sql) {
-        throw new Error('No SQL generated from OpenAI');
+        if (!content) {
+          throw new Error(`No SQL generated from ${provider.name}`);
+        }
+
+        const parsed = this.parseStructuredResponse(content, allowClarification && attemptNumber === 1);
+        if (parsed.clarification) {
+          return {
+            question: redactor.restoreText(parsed.clarification.question),
+            options: parsed.clarification.options.map(option => redactor.restoreText(option)),
+            usage
+          };
+        }
+
+        let sql = '';
+        let errors = parsed.errors;
+
+        if (parsed.response) {
+          structured = {
+            ...parsed.response,
+            sql: redactor.restoreSQL(parsed.response.sql),
+            assumptions: parsed.response.assumptions.map(assumption => redactor.restoreText(assumption))
+          };
+          sql = this.postProcessSQL(structured.sql, options, dialect);
+          errors = [
+            ...this.checkReferences(structured, activeSchema),
+            ...sqlValidator.validateSQL(sql, activeSchema, dialect).errors
+          ];
+        }
+        attempts.push({ attempt: attemptNumber, sql, errors });
+
+        if (errors.length === 0 || attempts.length > maxRepairAttempts) {
+          break;
+        }
+
+        messages.push(
+          { role: 'assistant', content },
+          { role: 'user', content: redactor.redactText(this.buildRepairPrompt(errors), 'repair') }
+        );
       }
 
-      return this.postProcessSQL(sql, options);
-    } catch (error) {
-      console.error('OpenAI API error:', error);
-      throw new Error(`Failed to generate SQL: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      const finalAttempt = attempts[attempts.length - 1];
+      if (!structured || !finalAttempt.sql) {
+        throw new Error(`${provider.name} did not return a valid response: ${finalAttempt.errors.map(e => e.message).join('; ')}`);
+      }
+
+      return {
+        sql: finalAttempt.sql,
+        assumptions: structured.assumptions,
+        referencedTables: structured.referencedTables,
+        referencedColumns: structured.referencedColumns,
+        confidence: structured.confidence,
+        attempts,
+        fixedErrors: this.getFixedErrors(attempts),
+        remainingErrors: finalAttempt.errors,
+        dialect,
+        usage,
+        examples,
+        redactions: redactor.items
+      };
+    } finally {
+      await redactionManager.recordAudit(promptQuestion, redactor.items);
     }
   }
 
-  private buildUserPrompt(question: string, options: SQLGenerationOptions): string {
-    let prompt = `Generate SQL for: "${question}"\n\n`;
+  private buildUserPrompt(question: string, options: SQLGenerationOptions, schema: DatabaseSchema, isFollowUp: boolean = false): string {
+    let prompt = isFollowUp
+      ? `Follow-up request: "${question}"\n\nRevise the most recent SQL query to apply this request. Keep its existing filters, grouping and columns unless the request changes them, and return the complete updated query.\n\n`
+      : `Generate SQL for: "${question}"\n\n`;
+
+    if (options.clarifications?.length) {
+      prompt += `The user clarified:\n${options.clarifications.map(c => `- ${c.question} ${c.answer}`).join('\n')}\n\n`;
+    }
+
+    const profiles = columnProfiler.describeProfiles(schema, question);
+    if (profiles) {
+      prompt += `Known column values (filter with these exact spellings, casing and formats):\n${profiles}\n\n`;
+    }
     
     if (options.includeComments) {
       prompt += "Include comments explaining the query logic.\n";
@@ -149,29 +383,161 @@ export class OpenAIService {
       prompt += "Include performance optimization hints in comments.\n";
     }
 
-    // Add context about common analysis patterns
-    prompt += `
-Consider these analysis patterns:
-- Time-based analysis: GROUP BY quarter, year, MONTH(shipment_date)
-- Carrier comparison: JOIN with carriers table for additional info
-- Route analysis: JOIN with routes table for distance/cost metrics
-- Performance metrics: AVG(delivery_time_days), cost per mile calculations
-- Trend analysis: Window functions for running totals/percentages
-`;
-
     return prompt;
   }
 
-  private postProcessSQL(sql: string, options: SQLGenerationOptions): string {
-    // Clean up the SQL
+  private buildRepairPrompt(errors: ValidationError[]): string {
+    const errorList = errors
+      .map(error => {
+        const location = error.line ? ` (line ${error.line})` : '';
+        const suggestion = error.suggestion ? ` ${error.suggestion}${/[.?!]$/.test(error.suggestion) ? '' : '.'}` : '';
+        return `- ${error.message}${location}.${suggestion}`;
+      })
+      .join('\n');
+
+    return `The response above failed validation:\n${errorList}\n\nReturn a corrected response in the same JSON format that fixes these errors.`;
+  }
+
+  // Errors reported by earlier attempts that the final SQL no longer has
+  private getFixedErrors(attempts: SQLGenerationAttempt[]): ValidationError[] {
+    const remaining = new Set(attempts[attempts.length - 1].errors.map(error => error.message));
+    const fixed = new Map<string, ValidationError>();
+
+    attempts.slice(0, -1).forEach(attempt => {
+      attempt.errors.forEach(error => {
+        if (!remaining.has(error.message) && !fixed.has(error.message)) {
+          fixed.set(error.message, error);
+        }
+      });
+    });
+
+    return Array.from(fixed.values());
+  }
+
+  // Decodes the "sql" string of a JSON response that may still be arriving
+  private extractPartialSQL(content: string): string {
+    const start = /"sql"\s*:\s*"/.exec(content);
+    if (!start) return '';
+
+    const escapes: Record<string, string> = { n: '\n', t: '\t', r: '\r', b: '\b', f: '\f' };
+    let sql = '';
+    let i = start.index + start[0].length;
+
+    while (i < content.length && content[i] !== '"') {
+      if (content[i] !== '\\') {
+        sql += content[i++];
+      } else if (content[i + 1] === 'u') {
+        if (i + 6 > content.length) break; // Escape not fully received yet
+        sql += String.fromCharCode(parseInt(content.slice(i + 2, i + 6), 16));
+        i += 6;
+      } else {
+        if (i + 1 >= content.length) break;
+        sql += escapes[content[i + 1]] ?? content[i + 1];
+        i += 2;
+      }
+    }
+
+    return sql;
+  }
+
+  // Parses and shape-checks the JSON object the model returned
+  private parseStructuredResponse(
+    content: string,
+    allowClarification: boolean = false
+  ): { response?: StructuredSQLResponse; clarification?: Omit<SQLClarification, 'usage'>; errors: ValidationError[] } {
+    const invalid = (message: string) => ({
+      errors: [{ type: 'error' as const, message, suggestion: 'Respond with only the JSON object described in the instructions' }]
+    });
+
+    let value: any;
+    try {
+      // Some models wrap JSON in a fenced block even when asked not to
+      const fenced = content.match(/^```(?:json)?\s*([\s\S]*?)\s*```$/i);
+      value = JSON.parse(fenced ? fenced[1] : content);
+    } catch (error) {
+      return invalid('Response is not valid JSON');
+    }
+
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      return invalid('Response must be a JSON object');
+    }
+    if (allowClarification && value.clarification && typeof value.clarification === 'object') {
+      const { question, options } = value.clarification;
+      const choices = Array.isArray(options) ? options.filter((option: unknown) => typeof option === 'string' && option.trim()) : [];
+      if (typeof question === 'string' && question.trim() && choices.length >= 2) {
+        return { clarification: { question: question.trim(), options: choices.slice(0, 5) }, errors: [] };
+      }
+      return invalid('"clarification" needs a "question" string and at least two "options"');
+    }
+    if (typeof value.sql !== 'string' || !value.sql.trim()) {
+      return invalid('Response is missing the "sql" string');
+    }
+
+    const errors: ValidationError[] = [];
+    const readStringList = (key: string): string[] => {
+      if (value[key] === undefined) return [];
+      if (!Array.isArray(value[key]) || value[key].some((item: unknown) => typeof item !== 'string')) {
+        errors.push({ type: 'error', message: `"${key}" must be an array of strings` });
+        return [];
+      }
+      return value[key];
+    };
+
+    const assumptions = readStringList('assumptions');
+    const referencedTables = readStringList('referencedTables');
+    const referencedColumns = readStringList('referencedColumns');
+
+    let confidence = typeof value.confidence === 'number' ? value.confidence : NaN;
+    if (confidence > 1 && confidence <= 100) {
+      confidence /= 100; // Accept percentages
+    }
+    if (!(confidence >= 0 && confidence <= 1)) {
+      errors.push({ type: 'error', message: '"confidence" must be a number between 0 and 1' });
+      confidence = 0;
+    }
+
+    return {
+      response: { sql: value.sql, assumptions, referencedTables, referencedColumns, confidence },
+      errors
+    };
+  }
+
+  // Checks the tables and columns the model says it used against the schema
+  private checkReferences(response: StructuredSQLResponse, schema: DatabaseSchema): ValidationError[] {
+    const errors: ValidationError[] = [];
+    const tables = new Map(schema.tables.map(table => [table.name.toLowerCase(), table]));
+
+    response.referencedTables.forEach(name => {
+      if (!tables.has(name.toLowerCase())) {
+        errors.push({ type: 'error', message: `Referenced table '${name}' not found in schema` });
+      }
+    });
+
+    response.referencedColumns.forEach(reference => {
+      const dot = reference.lastIndexOf('.');
+      const tableName = dot >= 0 ? reference.slice(0, dot).toLowerCase() : null;
+      const columnName = (dot >= 0 ? reference.slice(dot + 1) : reference).toLowerCase();
+      const candidates = tableName ? [tables.get(tableName)] : Array.from(tables.values());
+
+      const found = candidates.some(table =>
+        table?.columns.some(column => column.name.toLowerCase() === columnName)
+      );
+      if (!found) {
+        errors.push({ type: 'error', message: `Referenced column '${reference}' not found in schema` });
+      }
+    });
+
+    return errors;
+  }
+
+  private postProcessSQL(sql: string, options: SQLGenerationOptions, dialect: SQLDialect): string {
     let processedSQL = sql
-      .replace(/```sql\s*/gi, '') // Remove markdown code blocks
-      .replace(/```\s*$/gi, '')   // Remove trailing code blocks
-      .trim();
+      .trim()
+      .replace(/;\s*$/, '');      // Drop the trailing semicolon so a LIMIT can be appended
 
-    // Add default LIMIT if not present and limitResults is specified
-    if (options.limitResults && !processedSQL.toLowerCase().includes('limit')) {
-      processedSQL += `\nLIMIT ${options.limitResults}`;
+    // Add a default row limit (LIMIT or TOP) if not present and limitResults is specified
+    if (options.limitResults) {
+      processedSQL = applyRowLimit(processedSQL, options.limitResults, dialect);
     }
 
     // Ensure proper formatting
@@ -189,13 +555,20 @@ Consider these analysis patterns:
       'BETWEEN', 'LIKE', 'IS NULL', 'IS NOT NULL', 'LIMIT', 'OFFSET'
     ];
 
-    let formatted = sql;
+    // Split out string literals, quoted identifiers and comments so line breaks never land inside them
+    const segments = sql.split(/('(?:''|[^'])*'|"(?:""|[^"])*"|`[^`]*`|\[[^\]]*\]|--[^\n]*)/);
     
-    // Add line breaks before major clauses
-    keywords.forEach(keyword => {
-      const regex = new RegExp(`\\b${keyword}\\b`, 'gi');
-      formatted = formatted.replace(regex, `\n${keyword}`);
-    });
+    let formatted = segments.map((segment, index) => {
+      if (index % 2 === 1) return segment;
+      
+      // Add line breaks before major clauses
+      let code = segment;
+      keywords.forEach(keyword => {
+        const regex = new RegExp(`\\b${keyword}\\b`, 'gi');
+        code = code.replace(regex, `\n${keyword}`);
+      });
+      return code;
+    }).join('');
 
     // Clean up multiple line breaks
     formatted = formatted.replace(/\n\s*\n/g, '\n');
@@ -203,14 +576,49 @@ Consider these analysis patterns:
     return formatted.trim();
   }
 
-  private async enforceRateLimit(): Promise<void> {
-    const now = Date.now();
-    const timeSinceLastRequest = now - this.lastRequestTime;
-    
-    if (timeSinceLastRequest < this.RATE_LIMIT_DELAY) {
-      const delay = this.RATE_LIMIT_DELAY - timeSinceLastRequest;
-      await new Promise(resolve => setTimeout(resolve, delay));
-    }
+  // Sends one request once the rate limiter allows it. Rate limits, server
+  // errors and network failures are retried with exponential backoff, and a
+  // Retry-After from the provider also holds back later requests.
+  private async sendRequest(
+    provider: LLMProvider,
+    request: ChatCompletionRequest,
+    maxRetries: number,
+    onWaitState?: (state: RequestWaitState | null) => void
+  ): Promise<ChatCompletionResponse> {
+    let waiting = false;
+    const report = (state: RequestWaitState | null) => {
+      waiting = state !== null;
+      onWaitState?.(state);
+    };
+
+    return retryWithBackoff(async () => {
+      await this.rateLimiter.take(request.signal, delayMs => report({ state: 'throttled', delayMs }));
+      if (waiting) report(null);
+
+      this.requestCount++;
+      this.lastRequestTime = Date.now();
+      return provider.complete(request);
+    }, {
+      maxRetries,
+      baseDelayMs: 1000,
+      maxDelayMs: 30000,
+      signal: request.signal,
+      isRetryable: error => error instanceof ProviderRequestError && error.retryable,
+      getRetryAfterMs: error => error instanceof ProviderRequestError ? error.retryAfterMs : undefined,
+      onRetry: (retry, delayMs, error) => {
+        const requestError = error as ProviderRequestError;
+        if (requestError.retryAfterMs !== undefined) {
+          this.rateLimiter.pauseFor(delayMs);
+        }
+        report({ state: 'retrying', retry, maxRetries, delayMs, reason: this.describeRetryReason(requestError) });
+      }
+    });
+  }
+
+  private describeRetryReason(error: ProviderRequestError): string {
+    if (error.status === 429) return 'Provider rate limit (429)';
+    if (error.status === 0) return 'Network error';
+    return `Provider error (${error.status})`;
   }
 
   // Get usage statistics
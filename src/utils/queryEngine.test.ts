@@ -0,0 +1,43 @@
+import { QueryDataTable, queryEngine } from './queryEngine';
+
+const shipments: QueryDataTable = {
+  name: 'shipments',
+  columns: ['id', 'shipped', 'delivered'],
+  rows: [
+    [1, '2025-01-31', '2025-02-03'],
+    [2, '2025-03-15', null],
+    [3, '2025-02-10', '2025-02-12']
+  ]
+};
+
+const run = (sql: string) => queryEngine.execute(sql, [shipments]).rows;
+
+describe('QueryEngine', () => {
+  describe('ORDER BY', () => {
+    it('puts NULLs last ascending and first descending by default', () => {
+      expect(run('SELECT id FROM shipments ORDER BY delivered').map(row => row[0])).toEqual([1, 3, 2]);
+      expect(run('SELECT id FROM shipments ORDER BY delivered DESC').map(row => row[0])).toEqual([2, 3, 1]);
+    });
+
+    it('follows NULLS FIRST and NULLS LAST', () => {
+      expect(run('SELECT id FROM shipments ORDER BY delivered ASC NULLS FIRST').map(row => row[0])).toEqual([2, 1, 3]);
+      expect(run('SELECT id FROM shipments ORDER BY delivered DESC NULLS LAST').map(row => row[0])).toEqual([3, 1, 2]);
+    });
+  });
+
+  describe('date arithmetic', () => {
+    it('subtracts dates to a number of days', () => {
+      expect(run('SELECT MAX(shipped) - MIN(shipped) AS span FROM shipments')).toEqual([[43]]);
+      expect(run('SELECT delivered - shipped AS days FROM shipments WHERE id = 1')).toEqual([[3]]);
+    });
+
+    it('moves a date by a number of days', () => {
+      expect(run('SELECT shipped + 1, shipped - 31 FROM shipments WHERE id = 1')).toEqual([['2025-02-01', '2024-12-31']]);
+    });
+
+    it('reads SQLite modifiers on DATE, including now', () => {
+      expect(run("SELECT DATE(shipped, '+1 month', 'start of month') FROM shipments WHERE id = 1")).toEqual([['2025-02-01']]);
+      expect(run("SELECT DATE('now', '-30 days') AS d FROM shipments WHERE id = 1")[0][0]).toMatch(/^\d{4}-\d{2}-\d{2}$/);
+    });
+  });
+});
@@ -0,0 +1,1339 @@
+import {
+  parseSQL,
+  expressionToSQL,
+  SelectStatement,
+  Expression,
+  FunctionExpression,
+  TableReference,
+  OrderByItem,
+  LiteralValue,
+  SourcePosition
+} from './sqlParser';
+
+// In-browser SQL engine that runs SELECT queries against worksheet and Excel table data.
+
+export type QueryValue = LiteralValue;
+
+export interface QueryDataTable {
+  name: string;
+  columns: string[];
+  rows: QueryValue[][];
+  source?: 'worksheet' | 'table';
+}
+
+export interface QueryResult {
+  columns: string[];
+  rows: QueryValue[][];
+}
+
+// A date offset from INTERVAL '3 months', DATEADD(day, 7, d) or DATE(d, '+7 days')
+interface DateInterval {
+  months: number;
+  days: number;
+  milliseconds: number;
+}
+
+const INTERVAL_UNIT_PATTERN = /^(microsecond|millisecond|second|minute|hour|day|week|month|quarter|year)s?$/i;
+
+export class QueryExecutionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'QueryExecutionError';
+  }
+}
+
+interface RelationSource {
+  alias: string;
+  columns: string[];
+  index: Map<string, number>;
+}
+
+// A row of a relation holds one value array per source; null means the source
+// was the missing side of an outer join.
+type RelationRow = (QueryValue[] | null)[];
+
+interface Relation {
+  sources: RelationSource[];
+  rows: RelationRow[];
+  usingColumns: Set<string>;
+}
+
+interface ExecutionContext {
+  tables: Map<string, QueryDataTable>;
+}
+
+interface RowScope {
+  context: ExecutionContext;
+  relation: Relation;
+  row: RelationRow;
+  group?: RelationRow[];
+  aliases?: Map<string, QueryValue>;
+  outer?: RowScope;
+}
+
+const AGGREGATE_FUNCTIONS = new Set(['COUNT', 'SUM', 'AVG', 'MIN', 'MAX', 'STRING_AGG', 'GROUP_CONCAT']);
+
+export function normalizeIdentifier(name: string): string {
+  return name
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9_]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+}
+
+export class QueryEngine {
+  private static instance: QueryEngine;
+
+  static getInstance(): QueryEngine {
+    if (!QueryEngine.instance) {
+      QueryEngine.instance = new QueryEngine();
+    }
+    return QueryEngine.instance;
+  }
+
+  execute(sql: string, tables: QueryDataTable[]): QueryResult {
+    const statement = parseSQL(sql);
+    const context: ExecutionContext = { tables: new Map() };
+
+    tables.forEach(table => {
+      context.tables.set(normalizeIdentifier(table.name), table);
+    });
+
+    return this.executeStatement(statement, context);
+  }
+
+  // Convert a result into the header + rows grid used for Excel insertion and export
+  toGrid(result: QueryResult): any[][] {
+    return [
+      result.columns,
+      ...result.rows.map(row => row.map(value => (value === null ? '' : value)))
+    ];
+  }
+
+  private executeStatement(statement: SelectStatement, parentContext: ExecutionContext, outer?: RowScope): QueryResult {
+    let context = parentContext;
+
+    if (statement.with.length > 0) {
+      context = { tables: new Map(parentContext.tables) };
+      for (const cte of statement.with) {
+        const result = this.executeStatement(cte.query, context, outer);
+        const columns = cte.columns || result.columns;
+        if (columns.length !== result.columns.length) {
+          throw new QueryExecutionError(
+            `CTE '${cte.name}' declares ${columns.length} columns but its query returns ${result.columns.length}`
+          );
+        }
+        context.tables.set(normalizeIdentifier(cte.name), { name: cte.name, columns, rows: result.rows });
+      }
+    }
+
+    let result: QueryResult;
+
+    if (statement.setOperations.length === 0) {
+      result = this.executeSelectCore(statement, context, outer, true);
+    } else {
+      result = this.executeSelectCore(statement, context, outer, false);
+      for (const operation of statement.setOperations) {
+        const right = this.executeStatement(operation.query, context, outer);
+        if (right.columns.length !== result.columns.length) {
+          throw new QueryExecutionError(`${operation.operator} queries must return the same number of columns`);
+        }
+        result = { columns: result.columns, rows: this.applySetOperation(operation.operator, result.rows, right.rows) };
+      }
+      if (statement.orderBy.length > 0) {
+        result = { columns: result.columns, rows: this.orderCombinedRows(statement, result, context, outer) };
+      }
+    }
+
+    const offset = statement.offset || 0;
+    if (offset > 0 || statement.limit !== null) {
+      const end = statement.limit !== null ? offset + statement.limit : undefined;
+      result = { columns: result.columns, rows: result.rows.slice(offset, end) };
+    }
+
+    return result;
+  }
+
+  private executeSelectCore(
+    statement: SelectStatement,
+    context: ExecutionContext,
+    outer: RowScope | undefined,
+    applyOrderBy: boolean
+  ): QueryResult {
+    const relation: Relation = statement.from
+      ? this.buildRelation(statement.from, context, outer)
+      : { sources: [], rows: [[]], usingColumns: new Set() };
+
+    const makeScope = (row: RelationRow, group?: RelationRow[]): RowScope => ({ context, relation, row, group, outer });
+
+    let rows = relation.rows;
+    if (statement.where) {
+      const where = statement.where;
+      rows = rows.filter(row => this.isTruthy(this.evaluate(where, makeScope(row))));
+    }
+
+    const orderBy = applyOrderBy ? statement.orderBy : [];
+    const aggregated =
+      statement.groupBy.length > 0 ||
+      statement.columns.some(item => this.containsAggregate(item.expression)) ||
+      (statement.having !== null && this.containsAggregate(statement.having)) ||
+      orderBy.some(item => this.containsAggregate(item.expression));
+
+    let units: RowScope[];
+
+    if (aggregated) {
+      const groupBy = statement.groupBy.map(expression => this.resolveSelectReference(expression, statement, relation));
+      const groups = new Map<string, RelationRow[]>();
+
+      if (groupBy.length === 0) {
+        groups.set('', rows);
+      } else {
+        for (const row of rows) {
+          const scope = makeScope(row);
+          const key = JSON.stringify(groupBy.map(expression => this.evaluate(expression, scope)));
+          const existing = groups.get(key);
+          if (existing) {
+            existing.push(row);
+          } else {
+            groups.set(key, [row]);
+          }
+        }
+      }
+
+      const emptyRow: RelationRow = relation.sources.map(() => null);
+      units = Array.from(groups.values()).map(groupRows => makeScope(groupRows[0] || emptyRow, groupRows));
+    } else {
+      if (statement.having) {
+        throw new QueryExecutionError('HAVING requires GROUP BY or an aggregate function');
+      }
+      units = rows.map(row => makeScope(row));
+    }
+
+    const columns = this.outputColumns(statement, relation);
+    let projected = units.map(unit => {
+      const values = this.projectRow(statement, unit);
+      const aliases = new Map<string, QueryValue>();
+      columns.forEach((column, index) => {
+        const key = normalizeIdentifier(column);
+        if (!aliases.has(key)) aliases.set(key, values[index]);
+      });
+      return { values, unit: { ...unit, aliases } };
+    });
+
+    // HAVING runs after projection so it can refer to select-list aliases
+    if (statement.having) {
+      const having = statement.having;
+      projected = projected.filter(entry => this.isTruthy(this.evaluate(having, entry.unit)));
+    }
+
+    if (statement.distinct) {
+      const seen = new Set<string>();
+      projected = projected.filter(entry => {
+        const key = JSON.stringify(entry.values);
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      });
+    }
+
+    if (orderBy.length > 0) {
+      const keyed = projected.map(entry => ({
+        values: entry.values,
+        keys: orderBy.map(item => this.evaluateOrderKey(item.expression, entry.values, columns, entry.unit))
+      }));
+      keyed.sort((a, b) => this.compareSortKeys(a.keys, b.keys, orderBy));
+      return { columns, rows: keyed.map(entry => entry.values) };
+    }
+
+    return { columns, rows: projected.map(entry => entry.values) };
+  }
+
+  private outputColumns(statement: SelectStatement, relation: Relation): string[] {
+    const columns: string[] = [];
+    for (const item of statement.columns) {
+      const expression = item.expression;
+      if (expression.type === 'star') {
+        this.starSources(expression.table, relation).forEach(source => columns.push(...source.columns));
+      } else if (item.alias) {
+        columns.push(item.alias);
+      } else if (expression.type === 'column') {
+        columns.push(expression.name);
+      } else {
+        columns.push(expressionToSQL(expression));
+      }
+    }
+    return columns;
+  }
+
+  private projectRow(statement: SelectStatement, scope: RowScope): QueryValue[] {
+    const values: QueryValue[] = [];
+    for (const item of statement.columns) {
+      const expression = item.expression;
+      if (expression.type === 'star') {
+        for (const source of this.starSources(expression.table, scope.relation)) {
+          const sourceIndex = scope.relation.sources.indexOf(source);
+          const sourceValues = scope.row[sourceIndex];
+          source.columns.forEach((_, index) => values.push(sourceValues ? sourceValues[index] : null));
+        }
+      } else {
+        values.push(this.evaluate(expression, scope));
+      }
+    }
+    return values;
+  }
+
+  private starSources(table: string | undefined, relation: Relation): RelationSource[] {
+    if (!table) return relation.sources;
+    const alias = normalizeIdentifier(table);
+    const source = relation.sources.find(s => s.alias === alias);
+    if (!source) {
+      throw new QueryExecutionError(`Unknown table or alias '${table}' in ${table}.*`);
+    }
+    return [source];
+  }
+
+  // GROUP BY may refer to select-list positions or aliases; source columns win over aliases
+  private resolveSelectReference(expression: Expression, statement: SelectStatement, relation: Relation): Expression {
+    if (expression.type === 'literal' && typeof expression.value === 'number') {
+      const item = statement.columns[expression.value - 1];
+      if (!item || item.expression.type === 'star') {
+        throw new QueryExecutionError(`GROUP BY position ${expression.value} is out of range`);
+      }
+      return item.expression;
+    }
+    if (expression.type === 'column' && !expression.table) {
+      const key = normalizeIdentifier(expression.name);
+      const isSourceColumn = relation.sources.some(source => source.index.has(key));
+      const item = statement.columns.find(c => c.alias && normalizeIdentifier(c.alias) === key);
+      if (item && !isSourceColumn) {
+        return item.expression;
+      }
+    }
+    return expression;
+  }
+
+  private evaluateOrderKey(expression: Expression, values: QueryValue[], columns: string[], scope: RowScope): QueryValue {
+    if (expression.type === 'literal' && typeof expression.value === 'number') {
+      const index = expression.value - 1;
+      if (index < 0 || index >= values.length) {
+        throw new QueryExecutionError(`ORDER BY position ${expression.value} is out of range`);
+      }
+      return values[index];
+    }
+    if (expression.type === 'column' && !expression.table) {
+      const index = columns.findIndex(column => normalizeIdentifier(column) === normalizeIdentifier(expression.name));
+      if (index !== -1) return values[index];
+    }
+    return this.evaluate(expression, scope);
+  }
+
+  private orderCombinedRows(
+    statement: SelectStatement,
+    result: QueryResult,
+    context: ExecutionContext,
+    outer: RowScope | undefined
+  ): QueryValue[][] {
+    const source = this.createSource('', result.columns);
+    const relation: Relation = { sources: [source], rows: [], usingColumns: new Set() };
+    const keyed = result.rows.map(values => ({
+      values,
+      keys: statement.orderBy.map(item =>
+        this.evaluateOrderKey(item.expression, values, result.columns, { context, relation, row: [values], outer })
+      )
+    }));
+    keyed.sort((a, b) => this.compareSortKeys(a.keys, b.keys, statement.orderBy));
+    return keyed.map(entry => entry.values);
+  }
+
+  private applySetOperation(operator: string, left: QueryValue[][], right: QueryValue[][]): QueryValue[][] {
+    const key = (row: QueryValue[]) => JSON.stringify(row);
+    const dedupe = (rows: QueryValue[][]) => {
+      const seen = new Set<string>();
+      return rows.filter(row => {
+        const k = key(row);
+        if (seen.has(k)) return false;
+        seen.add(k);
+        return true;
+      });
+    };
+
+    switch (operator) {
+      case 'UNION ALL':
+        return [...left, ...right];
+      case 'UNION':
+        return dedupe([...left, ...right]);
+      case 'EXCEPT': {
+        const rightKeys = new Set(right.map(key));
+        return dedupe(left.filter(row => !rightKeys.has(key(row))));
+      }
+      case 'INTERSECT': {
+        const rightKeys = new Set(right.map(key));
+        return dedupe(left.filter(row => rightKeys.has(key(row))));
+      }
+      default:
+        throw new QueryExecutionError(`Unsupported set operation: ${operator}`);
+    }
+  }
+
+  private compareSortKeys(a: QueryValue[], b: QueryValue[], items: OrderByItem[]): number {
+    for (let i = 0; i < items.length; i++) {
+      const left = a[i];
+      const right = b[i];
+      const { direction, nulls } = items[i];
+      // NULLs sort last in ascending order and first in descending order
+      // unless NULLS FIRST or NULLS LAST says otherwise
+      const nullsFirst = nulls ? nulls === 'FIRST' : direction === 'DESC';
+      if (left === null || right === null) {
+        if (left === right) continue;
+        return (left === null) === nullsFirst ? -1 : 1;
+      }
+      const comparison = this.compareValues(left, right);
+      if (comparison !== 0) {
+        return direction === 'DESC' ? -comparison : comparison;
+      }
+    }
+    return 0;
+  }
+
+  // FROM clause evaluation
+  private buildRelation(reference: TableReference, context: ExecutionContext, outer?: RowScope): Relation {
+    switch (reference.type) {
+      case 'table': {
+        const table = context.tables.get(normalizeIdentifier(reference.name));
+        if (!table) {
+          const available = Array.from(context.tables.values()).map(t => t.name);
+          throw new QueryExecutionError(
+            `Table '${reference.name}' not found. Available tables: ${available.length > 0 ? available.join(', ') : 'none'}`
+          );
+        }
+        const source = this.createSource(reference.alias || reference.name, table.columns);
+        return { sources: [source], rows: table.rows.map(row => [row]), usingColumns: new Set() };
+      }
+      case 'derived': {
+        const result = this.executeStatement(reference.query, context, outer);
+        const source = this.createSource(reference.alias, result.columns);
+        return { sources: [source], rows: result.rows.map(row => [row]), usingColumns: new Set() };
+      }
+      case 'join':
+        return this.buildJoin(reference, context, outer);
+    }
+  }
+
+  private buildJoin(
+    join: Extract<TableReference, { type: 'join' }>,
+    context: ExecutionContext,
+    outer?: RowScope
+  ): Relation {
+    const left = this.buildRelation(join.left, context, outer);
+    const right = this.buildRelation(join.right, context, outer);
+    const usingColumns = new Set([...left.usingColumns, ...right.usingColumns]);
+    (join.using || []).forEach(column => usingColumns.add(normalizeIdentifier(column)));
+
+    const relation: Relation = { sources: [...left.sources, ...right.sources], rows: [], usingColumns };
+    const leftNulls: RelationRow = left.sources.map(() => null);
+    const rightNulls: RelationRow = right.sources.map(() => null);
+
+    if (join.joinType === 'CROSS') {
+      for (const leftRow of left.rows) {
+        for (const rightRow of right.rows) {
+          relation.rows.push([...leftRow, ...rightRow]);
+        }
+      }
+      return relation;
+    }
+
+    const condition: Expression = join.on || this.usingCondition(join.using || [], left, right, join.position);
+    const matches = (row: RelationRow) =>
+      this.isTruthy(this.evaluate(condition, { context, relation, row, outer }));
+    const candidates = this.joinCandidates(condition, left, right, relation, context, outer);
+    const matchedRight = new Set<number>();
+
+    left.rows.forEach((leftRow, leftIndex) => {
+      let matched = false;
+      for (const rightIndex of candidates(leftRow, leftIndex)) {
+        const combined = [...leftRow, ...right.rows[rightIndex]];
+        if (matches(combined)) {
+          matched = true;
+          matchedRight.add(rightIndex);
+          relation.rows.push(combined);
+        }
+      }
+      if (!matched && (join.joinType === 'LEFT' || join.joinType === 'FULL')) {
+        relation.rows.push([...leftRow, ...rightNulls]);
+      }
+    });
+
+    if (join.joinType === 'RIGHT' || join.joinType === 'FULL') {
+      right.rows.forEach((rightRow, rightIndex) => {
+        if (!matchedRight.has(rightIndex)) {
+          relation.rows.push([...leftNulls, ...rightRow]);
+        }
+      });
+    }
+
+    return relation;
+  }
+
+  private usingCondition(columns: string[], left: Relation, right: Relation, position: SourcePosition): Expression {
+    if (columns.length === 0) {
+      throw new QueryExecutionError('JOIN requires an ON or USING clause');
+    }
+    const findAlias = (relation: Relation, column: string) => {
+      const source = relation.sources.find(s => s.index.has(normalizeIdentifier(column)));
+      if (!source) {
+        throw new QueryExecutionError(`USING column '${column}' not found on both sides of the join`);
+      }
+      return source.alias;
+    };
+    return columns
+      .map<Expression>(column => ({
+        type: 'binary',
+        operator: '=',
+        left: { type: 'column', table: findAlias(left, column), name: column, position },
+        right: { type: 'column', table: findAlias(right, column), name: column, position },
+        position
+      }))
+      .reduce((acc, next) => ({ type: 'binary', operator: 'AND', left: acc, right: next, position }));
+  }
+
+  // Equality joins are matched through a hash index on the right side; any
+  // other condition falls back to comparing every pair of rows.
+  private joinCandidates(
+    condition: Expression,
+    left: Relation,
+    right: Relation,
+    combined: Relation,
+    context: ExecutionContext,
+    outer?: RowScope
+  ): (leftRow: RelationRow, leftIndex: number) => number[] {
+    const allRight = right.rows.map((_, index) => index);
+    const equalities = this.collectEqualities(condition);
+    if (!equalities) {
+      return () => allRight;
+    }
+
+    const leftKeys: Expression[] = [];
+    const rightKeys: Expression[] = [];
+    for (const [a, b] of equalities) {
+      const sideA = this.expressionSide(a, left, right);
+      const sideB = this.expressionSide(b, left, right);
+      if (sideA === 'left' && sideB === 'right') {
+        leftKeys.push(a);
+        rightKeys.push(b);
+      } else if (sideA === 'right' && sideB === 'left') {
+        leftKeys.push(b);
+        rightKeys.push(a);
+      }
+    }
+
+    if (leftKeys.length === 0) {
+      return () => allRight;
+    }
+
+    const leftPadding: RelationRow = left.sources.map(() => null);
+    const rightPadding: RelationRow = right.sources.map(() => null);
+    const hashKey = (values: QueryValue[]) =>
+      values.some(value => value === null) ? null : JSON.stringify(values.map(value => this.hashValue(value)));
+
+    const index = new Map<string, number[]>();
+    right.rows.forEach((rightRow, rightIndex) => {
+      const scope: RowScope = { context, relation: combined, row: [...leftPadding, ...rightRow], outer };
+      const key = hashKey(rightKeys.map(expression => this.evaluate(expression, scope)));
+      if (key === null) return;
+      const bucket = index.get(key);
+      if (bucket) {
+        bucket.push(rightIndex);
+      } else {
+        index.set(key, [rightIndex]);
+      }
+    });
+
+    return (leftRow: RelationRow) => {
+      const scope: RowScope = { context, relation: combined, row: [...leftRow, ...rightPadding], outer };
+      const key = hashKey(leftKeys.map(expression => this.evaluate(expression, scope)));
+      return key === null ? [] : index.get(key) || [];
+    };
+  }
+
+  private collectEqualities(expression: Expression): [Expression, Expression][] | null {
+    if (expression.type === 'binary' && expression.operator === 'AND') {
+      const left = this.collectEqualities(expression.left);
+      const right = this.collectEqualities(expression.right);
+      if (!left && !right) return null;
+      return [...(left || []), ...(right || [])];
+    }
+    if (expression.type === 'binary' && expression.operator === '=') {
+      return [[expression.left, expression.right]];
+    }
+    return null;
+  }
+
+  private expressionSide(expression: Expression, left: Relation, right: Relation): 'left' | 'right' | null {
+    if (expression.type !== 'column') return null;
+    const name = normalizeIdentifier(expression.name);
+    const inRelation = (relation: Relation) =>
+      relation.sources.some(
+        source =>
+          (!expression.table || source.alias === normalizeIdentifier(expression.table)) && source.index.has(name)
+      );
+    const inLeft = inRelation(left);
+    const inRight = inRelation(right);
+    if (inLeft && !inRight) return 'left';
+    if (inRight && !inLeft) return 'right';
+    return null;
+  }
+
+  private hashValue(value: QueryValue): QueryValue {
+    if (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))) {
+      return Number(value);
+    }
+    if (typeof value === 'boolean') {
+      return value ? 1 : 0;
+    }
+    return value;
+  }
+
+  private createSource(alias: string, columns: string[]): RelationSource {
+    const index = new Map<string, number>();
+    columns.forEach((column, i) => {
+      const key = normalizeIdentifier(column);
+      if (!index.has(key)) index.set(key, i);
+    });
+    return { alias: normalizeIdentifier(alias), columns, index };
+  }
+
+  // Expression evaluation
+  private evaluate(expression: Expression, scope: RowScope): QueryValue {
+    switch (expression.type) {
+      case 'literal':
+        return expression.value;
+
+      case 'column':
+        return this.resolveColumn(expression.name, expression.table, scope);
+
+      case 'star':
+        throw new QueryExecutionError('* is only allowed in the SELECT list or COUNT(*)');
+
+      case 'unary': {
+        const operand = this.evaluate(expression.operand, scope);
+        if (operand === null) return null;
+        if (expression.operator === 'NOT') return !this.isTruthy(operand);
+        const numeric = this.toNumber(operand);
+        return numeric === null ? null : -numeric;
+      }
+
+      case 'binary':
+        return this.evaluateBinary(expression.operator, expression.left, expression.right, scope);
+
+      case 'function':
+        return this.evaluateFunction(expression, scope);
+
+      case 'case': {
+        const operand = expression.operand ? this.evaluate(expression.operand, scope) : undefined;
+        for (const clause of expression.whenClauses) {
+          const when = this.evaluate(clause.when, scope);
+          const matched = operand === undefined
+            ? this.isTruthy(when)
+            : operand !== null && when !== null && this.compareValues(operand, when) === 0;
+          if (matched) return this.evaluate(clause.then, scope);
+        }
+        return expression.elseResult ? this.evaluate(expression.elseResult, scope) : null;
+      }
+
+      case 'in': {
+        const operand = this.evaluate(expression.operand, scope);
+        if (operand === null) return null;
+        const candidates = expression.subquery
+          ? this.executeStatement(expression.subquery, scope.context, scope).rows.map(row => row[0])
+          : (expression.values || []).map(value => this.evaluate(value, scope));
+        let sawNull = false;
+        for (const candidate of candidates) {
+          if (candidate === null) {
+            sawNull = true;
+          } else if (this.compareValues(operand, candidate) === 0) {
+            return !expression.negated;
+          }
+        }
+        return sawNull ? null : expression.negated;
+      }
+
+      case 'between': {
+        const operand = this.evaluate(expression.operand, scope);
+        const low = this.evaluate(expression.low, scope);
+        const high = this.evaluate(expression.high, scope);
+        if (operand === null || low === null || high === null) return null;
+        const inside = this.compareValues(operand, low) >= 0 && this.compareValues(operand, high) <= 0;
+        return expression.negated ? !inside : inside;
+      }
+
+      case 'like': {
+        const operand = this.evaluate(expression.operand, scope);
+        const pattern = this.evaluate(expression.pattern, scope);
+        if (operand === null || pattern === null) return null;
+        const matched = this.likeToRegExp(String(pattern), expression.caseInsensitive).test(String(operand));
+        return expression.negated ? !matched : matched;
+      }
+
+      case 'isNull': {
+        const isNull = this.evaluate(expression.operand, scope) === null;
+        return expression.negated ? !isNull : isNull;
+      }
+
+      case 'exists': {
+        const exists = this.executeStatement(expression.subquery, scope.context, scope).rows.length > 0;
+        return expression.negated ? !exists : exists;
+      }
+
+      case 'subquery': {
+        const result = this.executeStatement(expression.query, scope.context, scope);
+        if (result.rows.length > 1) {
+          throw new QueryExecutionError('Scalar subquery returned more than one row');
+        }
+        return result.rows.length === 0 ? null : result.rows[0][0];
+      }
+
+      case 'cast':
+        return this.castValue(this.evaluate(expression.operand, scope), expression.dataType);
+    }
+  }
+
+  private resolveColumn(name: string, table: string | undefined, scope: RowScope): QueryValue {
+    const key = normalizeIdentifier(name);
+
+    for (let current: RowScope | undefined = scope; current; current = current.outer) {
+      const { sources } = current.relation;
+
+      if (table) {
+        const alias = normalizeIdentifier(table);
+        const sourceIndex = sources.findIndex(source => source.alias === alias);
+        if (sourceIndex === -1) continue;
+        const columnIndex = sources[sourceIndex].index.get(key);
+        if (columnIndex === undefined) {
+          throw new QueryExecutionError(`Unknown column '${table}.${name}'`);
+        }
+        const values = current.row[sourceIndex];
+        return values ? this.cell(values, columnIndex) : null;
+      }
+
+      const matches: QueryValue[] = [];
+      sources.forEach((source, sourceIndex) => {
+        const columnIndex = source.index.get(key);
+        if (columnIndex !== undefined) {
+          const values = current!.row[sourceIndex];
+          matches.push(values ? this.cell(values, columnIndex) : null);
+        }
+      });
+
+      if (matches.length === 1) return matches[0];
+      if (matches.length > 1) {
+        if (current.relation.usingColumns.has(key)) {
+          return matches.find(value => value !== null) ?? null;
+        }
+        throw new QueryExecutionError(`Column '${name}' is ambiguous; qualify it with a table name or alias`);
+      }
+
+      if (current.aliases && current.aliases.has(key)) {
+        return current.aliases.get(key) as QueryValue;
+      }
+    }
+
+    throw new QueryExecutionError(table ? `Unknown table or alias '${table}'` : `Unknown column '${name}'`);
+  }
+
+  private cell(values: QueryValue[], index: number): QueryValue {
+    const value = values[index];
+    return value === undefined ? null : value;
+  }
+
+  private evaluateBinary(operator: string, leftExpression: Expression, rightExpression: Expression, scope: RowScope): QueryValue {
+    if (operator === 'AND') {
+      const left = this.evaluate(leftExpression, scope);
+      if (left !== null && !this.isTruthy(left)) return false;
+      const right = this.evaluate(rightExpression, scope);
+      if (right !== null && !this.isTruthy(right)) return false;
+      return left === null || right === null ? null : true;
+    }
+
+    if (operator === 'OR') {
+      const left = this.evaluate(leftExpression, scope);
+      if (left !== null && this.isTruthy(left)) return true;
+      const right = this.evaluate(rightExpression, scope);
+      if (right !== null && this.isTruthy(right)) return true;
+      return left === null || right === null ? null : false;
+    }
+
+    // date + INTERVAL '7 days', date - INTERVAL 3 MONTH, INTERVAL '1 day' + date
+    const rightInterval = this.isInterval(rightExpression);
+    if ((operator === '+' || operator === '-') && (rightInterval || (operator === '+' && this.isInterval(leftExpression)))) {
+      const [dateExpression, intervalExpression] = rightInterval ? [leftExpression, rightExpression] : [rightExpression, leftExpression];
+      const date = this.toDate(this.evaluate(dateExpression, scope));
+      const interval = this.evaluateInterval(intervalExpression as FunctionExpression, scope);
+      return date && interval ? this.formatDate(this.addInterval(date, interval, operator === '-' ? -1 : 1)) : null;
+    }
+
+    const left = this.evaluate(leftExpression, scope);
+    const right = this.evaluate(rightExpression, scope);
+    if (left === null || right === null) return null;
+
+    switch (operator) {
+      case '=':
+        return this.compareValues(left, right) === 0;
+      case '<>':
+        return this.compareValues(left, right) !== 0;
+      case '<':
+        return this.compareValues(left, right) < 0;
+      case '>':
+        return this.compareValues(left, right) > 0;
+      case '<=':
+        return this.compareValues(left, right) <= 0;
+      case '>=':
+        return this.compareValues(left, right) >= 0;
+      case '||':
+        return `${this.toText(left)}${this.toText(right)}`;
+    }
+
+    const a = this.toNumber(left);
+    const b = this.toNumber(right);
+    if (a === null || b === null) {
+      const dated = operator === '+' || operator === '-' ? this.evaluateDateArithmetic(operator, left, right, a, b) : undefined;
+      if (dated !== undefined) return dated;
+      if (operator === '+' && typeof left === 'string' && typeof right === 'string') {
+        // SQL Server style string concatenation
+        return left + right;
+      }
+      throw new QueryExecutionError(`Cannot apply '${operator}' to non-numeric values`);
+    }
+
+    switch (operator) {
+      case '+':
+        return a + b;
+      case '-':
+        return a - b;
+      case '*':
+        return a * b;
+      case '/':
+        return b === 0 ? null : a / b;
+      case '%':
+        return b === 0 ? null : a % b;
+      default:
+        throw new QueryExecutionError(`Unsupported operator '${operator}'`);
+    }
+  }
+
+  // Day arithmetic as in PostgreSQL: date - date is a number of days, and
+  // date + n or date - n moves the date by n days
+  private evaluateDateArithmetic(
+    operator: '+' | '-',
+    left: QueryValue,
+    right: QueryValue,
+    leftNumber: number | null,
+    rightNumber: number | null
+  ): QueryValue | undefined {
+    const isDateText = (value: QueryValue) => typeof value === 'string' && /^\d{4}-\d{2}-\d{2}/.test(value.trim());
+    const leftDate = isDateText(left) ? this.toDate(left) : null;
+    const rightDate = isDateText(right) ? this.toDate(right) : null;
+    if (leftDate && rightDate) {
+      if (operator === '+') throw new QueryExecutionError('Cannot add two dates; subtract them to get the days between');
+      return (leftDate.getTime() - rightDate.getTime()) / 86400000;
+    }
+    const sign = operator === '-' ? -1 : 1;
+    if (leftDate && rightNumber !== null) {
+      return this.formatDate(this.addInterval(leftDate, { months: 0, days: rightNumber, milliseconds: 0 }, sign));
+    }
+    if (rightDate && leftNumber !== null && operator === '+') {
+      return this.formatDate(this.addInterval(rightDate, { months: 0, days: leftNumber, milliseconds: 0 }, 1));
+    }
+    return undefined;
+  }
+
+  private evaluateFunction(expression: FunctionExpression, scope: RowScope): QueryValue {
+    const name = expression.name.toUpperCase();
+
+    if (expression.over) {
+      throw new QueryExecutionError(`Window functions such as ${name}() OVER (...) cannot run in the workbook preview`);
+    }
+
+    if (AGGREGATE_FUNCTIONS.has(name)) {
+      return this.evaluateAggregate(name, expression, scope);
+    }
+
+    // DATEPART(year, col) names the date part with a bare word, not a column
+    if (name === 'DATEPART' && expression.args[0]?.type === 'column' && !expression.args[0].table) {
+      return this.datePart(expression.args[0].name, this.evaluate(expression.args[1], scope));
+    }
+
+    // DATEADD(day, 7, col) also names its unit with a bare word
+    if (name === 'DATEADD' && expression.args[0]?.type === 'column' && !expression.args[0].table) {
+      const amount = this.toNumber(this.evaluate(expression.args[1], scope));
+      const date = this.toDate(this.evaluate(expression.args[2], scope));
+      return date && amount !== null ? this.formatDate(this.addInterval(date, this.toInterval(amount, expression.args[0].name), 1)) : null;
+    }
+
+    // MySQL and BigQuery: DATE_ADD(col, INTERVAL 7 DAY), DATE_SUB(col, INTERVAL 1 MONTH)
+    if ((name === 'DATE_ADD' || name === 'DATE_SUB') && this.isInterval(expression.args[1])) {
+      const date = this.toDate(this.evaluate(expression.args[0], scope));
+      const interval = this.evaluateInterval(expression.args[1] as FunctionExpression, scope);
+      return date && interval ? this.formatDate(this.addInterval(date, interval, name === 'DATE_SUB' ? -1 : 1)) : null;
+    }
+
+    // BigQuery's DATE_TRUNC(col, MONTH) puts the bare-word unit second
+    if (name === 'DATE_TRUNC' && expression.args[0]?.type !== 'literal'
+      && expression.args[1]?.type === 'column' && !expression.args[1].table) {
+      const date = this.toDate(this.evaluate(expression.args[0], scope));
+      return date ? this.formatDate(this.truncateDate(expression.args[1].name.toUpperCase(), date)) : null;
+    }
+
+    const args = expression.args.map(arg => this.evaluate(arg, scope));
+    const [first, second, third] = args;
+
+    switch (name) {
+      case 'UPPER':
+      case 'UCASE':
+        return first === null ? null : this.toText(first).toUpperCase();
+      case 'LOWER':
+      case 'LCASE':
+        return first === null ? null : this.toText(first).toLowerCase();
+      case 'LENGTH':
+      case 'LEN':
+      case 'CHAR_LENGTH':
+        return first === null ? null : this.toText(first).length;
+      case 'TRIM':
+        return first === null ? null : this.toText(first).trim();
+      case 'LTRIM':
+        return first === null ? null : this.toText(first).replace(/^\s+/, '');
+      case 'RTRIM':
+        return first === null ? null : this.toText(first).replace(/\s+$/, '');
+      case 'SUBSTRING':
+      case 'SUBSTR': {
+        if (first === null || second === null) return null;
+        const start = Math.max((this.toNumber(second) || 1) - 1, 0);
+        const length = third === undefined || third === null ? undefined : this.toNumber(third) || 0;
+        const text = this.toText(first);
+        return length === undefined ? text.slice(start) : text.slice(start, start + length);
+      }
+      case 'LEFT':
+        return first === null || second === null ? null : this.toText(first).slice(0, this.toNumber(second) || 0);
+      case 'RIGHT': {
+        if (first === null || second === null) return null;
+        const count = this.toNumber(second) || 0;
+        return count <= 0 ? '' : this.toText(first).slice(-count);
+      }
+      case 'CONCAT':
+        return args.map(arg => (arg === null ? '' : this.toText(arg))).join('');
+      case 'REPLACE':
+        return first === null || second === null || third === null || third === undefined
+          ? null
+          : this.toText(first).split(this.toText(second)).join(this.toText(third));
+      case 'ROUND': {
+        const value = first === null ? null : this.toNumber(first);
+        if (value === null) return null;
+        const digits = second === undefined || second === null ? 0 : this.toNumber(second) || 0;
+        const factor = Math.pow(10, digits);
+        return Math.round(value * factor) / factor;
+      }
+      case 'ABS':
+        return this.mapNumber(first, Math.abs);
+      case 'CEIL':
+      case 'CEILING':
+        return this.mapNumber(first, Math.ceil);
+      case 'FLOOR':
+        return this.mapNumber(first, Math.floor);
+      case 'SQRT':
+        return this.mapNumber(first, Math.sqrt);
+      case 'POWER':
+      case 'POW': {
+        const base = first === null ? null : this.toNumber(first);
+        const exponent = second === null || second === undefined ? null : this.toNumber(second);
+        return base === null || exponent === null ? null : Math.pow(base, exponent);
+      }
+      case 'MOD': {
+        const a = first === null ? null : this.toNumber(first);
+        const b = second === null || second === undefined ? null : this.toNumber(second);
+        return a === null || b === null || b === 0 ? null : a % b;
+      }
+      case 'COALESCE':
+      case 'IFNULL':
+      case 'ISNULL':
+      case 'NVL':
+        return args.find(arg => arg !== null) ?? null;
+      case 'NULLIF':
+        return first !== null && second !== null && this.compareValues(first, second) === 0 ? null : first;
+      case 'IIF':
+        return this.isTruthy(first) ? second : third ?? null;
+      case 'GREATEST':
+      case 'LEAST': {
+        const present = args.filter((arg): arg is Exclude<QueryValue, null> => arg !== null);
+        if (present.length === 0) return null;
+        return present.reduce((best, value) => {
+          const comparison = this.compareValues(value, best);
+          return (name === 'GREATEST' ? comparison > 0 : comparison < 0) ? value : best;
+        });
+      }
+      case 'YEAR':
+      case 'MONTH':
+      case 'DAY':
+      case 'QUARTER':
+        return this.datePart(name, first);
+      case 'EXTRACT':
+        return this.datePart(this.toText(first as QueryValue), second);
+      case 'DATEPART':
+        return first === null ? null : this.datePart(this.toText(first), second);
+      case 'STRFTIME':
+        return first === null ? null : this.formatDatePattern(this.toText(first), second);
+      case 'DATE_FORMAT':
+        return second === null || second === undefined ? null : this.formatDatePattern(this.toText(second), first);
+      case 'DATE': {
+        // SQLite modifiers: DATE(d, '+7 days'), DATE(d, 'start of month')
+        const date = this.toDate(first);
+        if (!date) return null;
+        const modified = args.slice(1).reduce<Date | null>((current, modifier) => current && this.applyDateModifier(current, modifier), date);
+        return modified ? this.formatDate(modified) : null;
+      }
+      case 'INTERVAL':
+        throw new QueryExecutionError('INTERVAL values can only be added to or subtracted from dates');
+      case 'DATE_TRUNC': {
+        const date = this.toDate(second);
+        if (!date || first === null) return null;
+        return this.formatDate(this.truncateDate(this.toText(first).toUpperCase(), date));
+      }
+      case 'CURRENT_DATE':
+      case 'CURRENT_TIMESTAMP':
+      case 'NOW':
+      case 'GETDATE':
+      case 'TODAY':
+        return this.formatDate(new Date());
+      default:
+        throw new QueryExecutionError(`Unsupported function: ${expression.name}`);
+    }
+  }
+
+  private evaluateAggregate(name: string, expression: FunctionExpression, scope: RowScope): QueryValue {
+    if (!scope.group) {
+      throw new QueryExecutionError(`Aggregate function ${name} is not allowed here`);
+    }
+
+    const rowScopes = scope.group.map(row => ({ ...scope, row, group: undefined }));
+    const argument = expression.args[0];
+
+    if (name === 'COUNT' && (!argument || argument.type === 'star')) {
+      return rowScopes.length;
+    }
+
+    if (!argument) {
+      throw new QueryExecutionError(`${name} requires an argument`);
+    }
+
+    let values = rowScopes
+      .map(rowScope => this.evaluate(argument, rowScope))
+      .filter((value): value is Exclude<QueryValue, null> => value !== null);
+
+    if (expression.distinct) {
+      const seen = new Set<string>();
+      values = values.filter(value => {
+        const key = JSON.stringify(this.hashValue(value));
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      });
+    }
+
+    switch (name) {
+      case 'COUNT':
+        return values.length;
+      case 'SUM':
+      case 'AVG': {
+        const numbers = values.map(value => this.toNumber(value)).filter((value): value is number => value !== null);
+        if (numbers.length === 0) return null;
+        const total = numbers.reduce((sum, value) => sum + value, 0);
+        return name === 'SUM' ? total : total / numbers.length;
+      }
+      case 'MIN':
+      case 'MAX':
+        if (values.length === 0) return null;
+        return values.reduce((best, value) => {
+          const comparison = this.compareValues(value, best);
+          return (name === 'MAX' ? comparison > 0 : comparison < 0) ? value : best;
+        });
+      case 'STRING_AGG':
+      case 'GROUP_CONCAT': {
+        const separatorExpression = expression.args[1];
+        const separator = separatorExpression ? this.toText(this.evaluate(separatorExpression, scope)) : ',';
+        return values.length === 0 ? null : values.map(value => this.toText(value)).join(separator);
+      }
+      default:
+        throw new QueryExecutionError(`Unsupported aggregate function: ${name}`);
+    }
+  }
+
+  private containsAggregate(expression: Expression): boolean {
+    switch (expression.type) {
+      case 'function':
+        return (!expression.over && AGGREGATE_FUNCTIONS.has(expression.name.toUpperCase())) ||
+          expression.args.some(arg => this.containsAggregate(arg));
+      case 'unary':
+        return this.containsAggregate(expression.operand);
+      case 'binary':
+        return this.containsAggregate(expression.left) || this.containsAggregate(expression.right);
+      case 'case':
+        return (
+          (expression.operand !== undefined && this.containsAggregate(expression.operand)) ||
+          expression.whenClauses.some(c => this.containsAggregate(c.when) || this.containsAggregate(c.then)) ||
+          (expression.elseResult !== undefined && this.containsAggregate(expression.elseResult))
+        );
+      case 'in':
+        return this.containsAggregate(expression.operand) ||
+          (expression.values || []).some(value => this.containsAggregate(value));
+      case 'between':
+        return [expression.operand, expression.low, expression.high].some(e => this.containsAggregate(e));
+      case 'like':
+        return this.containsAggregate(expression.operand) || this.containsAggregate(expression.pattern);
+      case 'isNull':
+      case 'cast':
+        return this.containsAggregate(expression.operand);
+      default:
+        return false;
+    }
+  }
+
+  // Value helpers
+  private compareValues(a: Exclude<QueryValue, null>, b: Exclude<QueryValue, null>): number {
+    const left = typeof a === 'boolean' ? (a ? 1 : 0) : a;
+    const right = typeof b === 'boolean' ? (b ? 1 : 0) : b;
+
+    if (typeof left === 'number' && typeof right === 'number') {
+      return left - right;
+    }
+
+    const leftNumber = this.toNumber(left);
+    const rightNumber = this.toNumber(right);
+    if ((typeof left === 'number' || typeof right === 'number') && leftNumber !== null && rightNumber !== null) {
+      return leftNumber - rightNumber;
+    }
+
+    const leftText = String(left);
+    const rightText = String(right);
+    return leftText < rightText ? -1 : leftText > rightText ? 1 : 0;
+  }
+
+  private isTruthy(value: QueryValue): boolean {
+    return value !== null && value !== false && value !== 0 && value !== '';
+  }
+
+  private toNumber(value: QueryValue): number | null {
+    if (value === null) return null;
+    if (typeof value === 'number') return value;
+    if (typeof value === 'boolean') return value ? 1 : 0;
+    const trimmed = value.trim();
+    if (trimmed === '') return null;
+    const parsed = Number(trimmed);
+    return isNaN(parsed) ? null : parsed;
+  }
+
+  private toText(value: QueryValue): string {
+    return value === null ? '' : String(value);
+  }
+
+  private mapNumber(value: QueryValue | undefined, fn: (n: number) => number): QueryValue {
+    const numeric = value === undefined || value === null ? null : this.toNumber(value);
+    return numeric === null ? null : fn(numeric);
+  }
+
+  private castValue(value: QueryValue, dataType: string): QueryValue {
+    if (value === null) return null;
+    const baseType = dataType.replace(/\(.*\)$/, '');
+    if (/INT/.test(baseType)) {
+      const numeric = this.toNumber(value);
+      return numeric === null ? null : Math.trunc(numeric);
+    }
+    if (/DEC|NUM|FLOAT|DOUBLE|REAL|MONEY/.test(baseType)) {
+      return this.toNumber(value);
+    }
+    if (/DATE|TIME/.test(baseType)) {
+      const date = this.toDate(value);
+      return date ? this.formatDate(date) : null;
+    }
+    if (/BOOL|BIT/.test(baseType)) {
+      return this.isTruthy(value);
+    }
+    return this.toText(value);
+  }
+
+  private likeToRegExp(pattern: string, caseInsensitive: boolean): RegExp {
+    const source = pattern
+      .split('')
+      .map(char => {
+        if (char === '%') return '.*';
+        if (char === '_') return '.';
+        return char.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      })
+      .join('');
+    return new RegExp(`^${source}$`, caseInsensitive ? 'is' : 's');
+  }
+
+  private toDate(value: QueryValue | undefined): Date | null {
+    if (value === null || value === undefined || typeof value === 'boolean') return null;
+    if (typeof value === 'number') {
+      // Excel serial date
+      return new Date(Date.UTC(1899, 11, 30) + value * 86400000);
+    }
+    // SQLite's DATE('now') and STRFTIME('%Y', 'now')
+    if (value.trim().toLowerCase() === 'now') return this.toDate(this.formatDate(new Date()));
+    const match = /^(\d{4})-(\d{2})-(\d{2})/.exec(value.trim());
+    if (match) {
+      return new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])));
+    }
+    const parsed = Date.parse(value);
+    return isNaN(parsed) ? null : new Date(parsed);
+  }
+
+  private formatDate(date: Date): string {
+    return date.toISOString().split('T')[0];
+  }
+
+  private datePart(part: string, value: QueryValue | undefined): QueryValue {
+    const date = this.toDate(value);
+    if (!date) return null;
+    switch (part.toUpperCase()) {
+      case 'YEAR':
+        return date.getUTCFullYear();
+      case 'MONTH':
+        return date.getUTCMonth() + 1;
+      case 'DAY':
+        return date.getUTCDate();
+      case 'QUARTER':
+        return Math.floor(date.getUTCMonth() / 3) + 1;
+      case 'DOW':
+        return date.getUTCDay();
+      default:
+        throw new QueryExecutionError(`Unsupported date part: ${part}`);
+    }
+  }
+
+  // SQLite strftime and MySQL DATE_FORMAT patterns: %Y, %m, %d and %%
+  private formatDatePattern(pattern: string, value: QueryValue | undefined): QueryValue {
+    const date = this.toDate(value);
+    if (!date) return null;
+    const pad = (part: number) => String(part).padStart(2, '0');
+    return pattern.replace(/%([Ymd%])/g, (_, code: string) => {
+      switch (code) {
+        case 'Y':
+          return String(date.getUTCFullYear());
+        case 'm':
+          return pad(date.getUTCMonth() + 1);
+        case 'd':
+          return pad(date.getUTCDate());
+        default:
+          return '%';
+      }
+    });
+  }
+
+  private isInterval(expression: Expression | undefined): boolean {
+    return expression?.type === 'function' && expression.name.toUpperCase() === 'INTERVAL' && !expression.over;
+  }
+
+  // INTERVAL '30 days', INTERVAL '1 year 2 months', INTERVAL '7' DAY, INTERVAL 3 MONTH
+  private evaluateInterval(expression: FunctionExpression, scope: RowScope): DateInterval | null {
+    const value = this.evaluate(expression.args[0], scope);
+    if (value === null) return null;
+    const unitArgument = expression.args[1];
+    if (unitArgument) {
+      const amount = this.toNumber(value);
+      if (amount === null) throw new QueryExecutionError(`Invalid INTERVAL amount: ${this.toText(value)}`);
+      return this.toInterval(amount, this.toText(this.evaluate(unitArgument, scope)));
+    }
+
+    const parts = this.toText(value).trim().split(/\s+/);
+    if (parts.length % 2 !== 0) {
+      throw new QueryExecutionError(`Invalid INTERVAL: '${this.toText(value)}'`);
+    }
+    const interval: DateInterval = { months: 0, days: 0, milliseconds: 0 };
+    for (let i = 0; i < parts.length; i += 2) {
+      const amount = Number(parts[i]);
+      if (isNaN(amount)) throw new QueryExecutionError(`Invalid INTERVAL: '${this.toText(value)}'`);
+      const part = this.toInterval(amount, parts[i + 1]);
+      interval.months += part.months;
+      interval.days += part.days;
+      interval.milliseconds += part.milliseconds;
+    }
+    return interval;
+  }
+
+  private toInterval(amount: number, unit: string): DateInterval {
+    const match = INTERVAL_UNIT_PATTERN.exec(unit.trim());
+    if (!match) throw new QueryExecutionError(`Unsupported interval unit: ${unit}`);
+    const interval: DateInterval = { months: 0, days: 0, milliseconds: 0 };
+    switch (match[1].toLowerCase()) {
+      case 'year':
+        interval.months = amount * 12;
+        break;
+      case 'quarter':
+        interval.months = amount * 3;
+        break;
+      case 'month':
+        interval.months = amount;
+        break;
+      case 'week':
+        interval.days = amount * 7;
+        break;
+      case 'day':
+        interval.days = amount;
+        break;
+      case 'hour':
+        interval.milliseconds = amount * 3600000;
+        break;
+      case 'minute':
+        interval.milliseconds = amount * 60000;
+        break;
+      case 'second':
+        interval.milliseconds = amount * 1000;
+        break;
+      case 'millisecond':
+        interval.milliseconds = amount;
+        break;
+      default:
+        interval.milliseconds = amount / 1000;
+    }
+    return interval;
+  }
+
+  // Month arithmetic keeps the day of the month where it can and otherwise
+  // uses the month's last day, so Jan 31 + 1 month is Feb 28
+  private addInterval(date: Date, interval: DateInterval, sign: 1 | -1): Date {
+    const months = date.getUTCFullYear() * 12 + date.getUTCMonth() + sign * interval.months;
+    const year = Math.floor(months / 12);
+    const month = months - year * 12;
+    const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+    const shifted = Date.UTC(year, month, Math.min(date.getUTCDate(), lastDay))
+      + (date.getTime() - Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+    return new Date(shifted + sign * (interval.days * 86400000 + interval.milliseconds));
+  }
+
+  private applyDateModifier(date: Date, modifier: QueryValue): Date | null {
+    if (modifier === null) return null;
+    const text = this.toText(modifier).trim().toLowerCase();
+    const start = /^start of (month|year)$/.exec(text);
+    if (start) return this.truncateDate(start[1].toUpperCase(), date);
+    const offset = /^([+-]?\d+(?:\.\d+)?)\s+(\w+)$/.exec(text);
+    if (!offset) throw new QueryExecutionError(`Unsupported DATE modifier: '${this.toText(modifier)}'`);
+    return this.addInterval(date, this.toInterval(Number(offset[1]), offset[2]), 1);
+  }
+
+  private truncateDate(unit: string, date: Date): Date {
+    const year = date.getUTCFullYear();
+    switch (unit) {
+      case 'YEAR':
+        return new Date(Date.UTC(year, 0, 1));
+      case 'QUARTER':
+        return new Date(Date.UTC(year, Math.floor(date.getUTCMonth() / 3) * 3, 1));
+      case 'MONTH':
+        return new Date(Date.UTC(year, date.getUTCMonth(), 1));
+      case 'DAY':
+        return date;
+      default:
+        throw new QueryExecutionError(`Unsupported DATE_TRUNC unit: ${unit}`);
+    }
+  }
+}
+
+export const queryEngine = QueryEngine.getInstance();
@@ -1,3 +1,5 @@
+export type QueryStatus = 'success' | 'failed' | 'cancelled';
+
 export interface QueryHistoryItem {
   id: string;
   question: string;
@@ -8,7 +10,39 @@ export interface QueryHistoryItem {
   tags?: string[];
   executionTime?: number;
   success: boolean;
+  status?: QueryStatus; // Missing on items saved before cancellation was tracked
   errorMessage?: string;
+  assumptions?: string[];
+  confidence?: number;
+}
+
+// Details reported by the model alongside the generated SQL
+export interface QueryGenerationDetails {
+  assumptions?: string[];
+  confidence?: number;
+}
+
+// A favorite query chosen as a few-shot example for a new question
+export interface FewShotExample {
+  id: string;
+  question: string;
+  sql: string;
+  score: number;         // 0 to 1, how closely the favorite matches the question
+  matchedTags: string[];
+}
+
+// Words too common to say anything about how similar two questions are
+const STOP_WORDS = new Set([
+  'a', 'an', 'the', 'and', 'or', 'of', 'for', 'to', 'in', 'on', 'by', 'with', 'per', 'from', 'at',
+  'is', 'are', 'was', 'were', 'be', 'me', 'my', 'our', 'we', 'show', 'list', 'get', 'find', 'give',
+  'what', 'which', 'how', 'many', 'much', 'all', 'each', 'every', 'that', 'this', 'these', 'those'
+]);
+
+// Favorites scoring below this are not used as examples
+const MIN_EXAMPLE_SCORE = 0.15;
+
+export function getQueryStatus(item: QueryHistoryItem): QueryStatus {
+  return item.status || (item.success ? 'success' : 'failed');
 }
 
 export interface QueryCategory {
@@ -32,7 +66,14 @@ export class QueryHistoryManager {
   }
 
   // Query History Methods
-  async addQuery(question: string, sql: string, success: boolean = true, executionTime?: number, errorMessage?: string): Promise<string> {
+  async addQuery(
+    question: string,
+    sql: string,
+    status: QueryStatus = 'success',
+    executionTime?: number,
+    errorMessage?: string,
+    details?: QueryGenerationDetails
+  ): Promise<string> {
     const history = await this.getHistory();
     const newItem: QueryHistoryItem = {
       id: this.generateId(),
@@ -40,9 +81,12 @@ export class QueryHistoryManager {
       sql,
       timestamp: Date.now(),
       isFavorite: false,
-      success,
+      success: status === 'success',
+      status,
       executionTime,
       errorMessage,
+      assumptions: details?.assumptions,
+      confidence: details?.confidence,
       tags: this.extractTags(question, sql)
     };
 
@@ -108,6 +152,33 @@ export class QueryHistoryManager {
     return history.filter(item => item.isFavorite);
   }
 
+  // Ranks successful favorites by tag overlap and word similarity with the
+  // question and returns the best matches, most relevant first
+  async findSimilarFavorites(question: string, limit: number): Promise<FewShotExample[]> {
+    if (limit <= 0) return [];
+
+    const favorites = (await this.getFavorites()).filter(item => item.sql.trim() && getQueryStatus(item) === 'success');
+    const questionTags = this.extractTags(question, '');
+    const questionWords = this.getWords(question);
+
+    return favorites
+      .map(item => {
+        const matchedTags = questionTags.filter(tag => item.tags?.includes(tag));
+        const tagScore = questionTags.length > 0 ? matchedTags.length / questionTags.length : 0;
+        const textScore = this.getWordSimilarity(questionWords, this.getWords(item.question));
+        return {
+          id: item.id,
+          question: item.question,
+          sql: item.sql,
+          score: Math.round((0.4 * tagScore + 0.6 * textScore) * 100) / 100,
+          matchedTags
+        };
+      })
+      .filter(example => example.score >= MIN_EXAMPLE_SCORE)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+
   async addToFavorites(id: string): Promise<void> {
     await this.toggleFavorite(id);
   }
@@ -166,12 +237,14 @@ export class QueryHistoryManager {
   async getStatistics(): Promise<{
     totalQueries: number;
     successfulQueries: number;
+    cancelledQueries: number;
     favoriteQueries: number;
     averageExecutionTime: number;
     mostUsedTags: string[];
   }> {
     const history = await this.getHistory();
     const successful = history.filter(h => h.success);
+    const cancelled = history.filter(h => getQueryStatus(h) === 'cancelled');
     const favorites = history.filter(h => h.isFavorite);
     const executionTimes = history.filter(h => h.executionTime).map(h => h.executionTime!);
     
@@ -191,6 +264,7 @@ export class QueryHistoryManager {
     return {
       totalQueries: history.length,
       successfulQueries: successful.length,
+      cancelledQueries: cancelled.length,
       favoriteQueries: favorites.length,
       averageExecutionTime: executionTimes.length > 0 
         ? executionTimes.reduce((a, b) => a + b, 0) / executionTimes.length 
@@ -270,6 +344,24 @@ export class QueryHistoryManager {
     return Array.from(tags);
   }
 
+  // Lower-cased words without stop words or a plural "s", so "carriers" matches "carrier"
+  private getWords(text: string): Set<string> {
+    const words = text.toLowerCase().match(/[a-z0-9]+/g) || [];
+    return new Set(words
+      .filter(word => !STOP_WORDS.has(word))
+      .map(word => word.length > 3 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word));
+  }
+
+  // Dice coefficient of the two word sets
+  private getWordSimilarity(a: Set<string>, b: Set<string>): number {
+    if (a.size === 0 || b.size === 0) return 0;
+    let shared = 0;
+    a.forEach(word => {
+      if (b.has(word)) shared++;
+    });
+    return (2 * shared) / (a.size + b.size);
+  }
+
   private getDefaultCategories(): QueryCategory[] {
     return [
       { id: 'carrier-analysis', name: 'Carrier Analysis', color: '#0078d4', description: 'Carrier performance and cost analysis' },
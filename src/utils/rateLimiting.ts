@@ -0,0 +1,137 @@
+import { getAbortError, sleep, throwIfCancelled } from './cancellation';
+
+// What the client is waiting on, reported so the UI can show it
+export type RequestWaitState =
+  | { state: 'queued'; position: number }
+  | { state: 'throttled'; delayMs: number }
+  | { state: 'retrying'; retry: number; maxRetries: number; delayMs: number; reason: string };
+
+// Allows short bursts up to `capacity` requests, refilled at `refillPerSecond`.
+// A server's Retry-After pauses the bucket until that time.
+export class TokenBucket {
+  private tokens: number;
+  private lastRefill = Date.now();
+  private pausedUntil = 0;
+
+  constructor(private readonly capacity: number, private readonly refillPerSecond: number) {
+    this.tokens = capacity;
+  }
+
+  // Waits until a token is available and takes it
+  async take(signal?: AbortSignal, onWait?: (delayMs: number) => void): Promise<void> {
+    while (true) {
+      throwIfCancelled(signal);
+      const delayMs = this.getDelay();
+      if (delayMs === 0) {
+        this.tokens -= 1;
+        return;
+      }
+      onWait?.(delayMs);
+      await sleep(delayMs, signal);
+    }
+  }
+
+  pauseFor(ms: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+  }
+
+  private getDelay(): number {
+    const now = Date.now();
+    if (now < this.pausedUntil) {
+      return this.pausedUntil - now;
+    }
+
+    this.tokens = Math.min(this.capacity, this.tokens + ((now - this.lastRefill) / 1000) * this.refillPerSecond);
+    this.lastRefill = now;
+    return this.tokens >= 1 ? 0 : Math.ceil(((1 - this.tokens) / this.refillPerSecond) * 1000);
+  }
+}
+
+// Runs tasks one at a time in the order they were queued
+export class RequestQueue {
+  private tail: Promise<unknown> = Promise.resolve();
+  private pending = 0;
+
+  async run<T>(task: () => Promise<T>, signal?: AbortSignal, onQueued?: (position: number) => void): Promise<T> {
+    const previous = this.tail;
+    const position = this.pending;
+    this.pending++;
+
+    const result = (async () => {
+      try {
+        if (position > 0) {
+          onQueued?.(position);
+          await this.waitFor(previous, signal);
+        }
+        throwIfCancelled(signal);
+        return await task();
+      } finally {
+        this.pending--;
+      }
+    })();
+
+    // A request cancelled while queued leaves the queue at once, but the
+    // next one still waits for the request ahead of it
+    this.tail = Promise.all([previous, result.catch(() => undefined)]);
+    return result;
+  }
+
+  // Waits for the requests ahead, rejecting early if the signal aborts
+  private waitFor(previous: Promise<unknown>, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      throwIfCancelled(signal);
+      const onAbort = () => reject(getAbortError(signal!));
+      signal?.addEventListener('abort', onAbort, { once: true });
+      previous.then(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      });
+    });
+  }
+}
+
+export interface RetryOptions {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  signal?: AbortSignal;
+  isRetryable: (error: unknown) => boolean;
+  getRetryAfterMs?: (error: unknown) => number | undefined;
+  onRetry?: (retry: number, delayMs: number, error: unknown) => void;
+}
+
+// Exponential backoff with full jitter: a random delay up to base * 2^retry,
+// capped at maxDelayMs. A server's Retry-After sets the minimum delay.
+export function getBackoffDelay(retry: number, baseDelayMs: number, maxDelayMs: number, retryAfterMs?: number): number {
+  const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** retry);
+  const jittered = Math.round(Math.random() * ceiling);
+  return retryAfterMs !== undefined ? Math.max(retryAfterMs, jittered) : jittered;
+}
+
+export async function retryWithBackoff<T>(operation: () => Promise<T>, options: RetryOptions): Promise<T> {
+  for (let retry = 0; ; retry++) {
+    try {
+      return await operation();
+    } catch (error) {
+      if (retry >= options.maxRetries || !options.isRetryable(error)) {
+        throw error;
+      }
+
+      const delayMs = getBackoffDelay(retry, options.baseDelayMs, options.maxDelayMs, options.getRetryAfterMs?.(error));
+      options.onRetry?.(retry + 1, delayMs, error);
+      await sleep(delayMs, options.signal);
+    }
+  }
+}
+
+export function describeWaitState(wait: RequestWaitState): string {
+  const seconds = (ms: number) => `${Math.max(1, Math.ceil(ms / 1000))}s`;
+  switch (wait.state) {
+    case 'queued':
+      return `Waiting for ${wait.position} earlier request${wait.position === 1 ? '' : 's'} to finish...`;
+    case 'throttled':
+      return `Rate limited: sending in ${seconds(wait.delayMs)}...`;
+    case 'retrying':
+      return `${wait.reason}. Retrying in ${seconds(wait.delayMs)} (retry ${wait.retry} of ${wait.maxRetries})...`;
+  }
+}
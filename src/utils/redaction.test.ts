@@ -0,0 +1,47 @@
+import { DEFAULT_REDACTION_SETTINGS, Redactor } from './redaction';
+import { DatabaseSchema } from './schemaManager';
+
+describe('Redactor', () => {
+  it('masks quoted values but leaves apostrophes alone', () => {
+    const redactor = new Redactor(DEFAULT_REDACTION_SETTINGS);
+    const question = "What's each carrier's average cost for 'Express' shipments?";
+
+    expect(redactor.redactQuestion(question, 'question'))
+      .toBe("What's each carrier's average cost for 'REDACTED_1' shipments?");
+    expect(redactor.restoreText('REDACTED_1')).toBe('Express');
+  });
+
+  it('masks double-quoted values and SQL literals with escaped quotes', () => {
+    const redactor = new Redactor(DEFAULT_REDACTION_SETTINGS);
+
+    expect(redactor.redactQuestion('Orders from "Acme" this year', 'question'))
+      .toBe('Orders from "REDACTED_1" this year');
+    expect(redactor.redactSQL("SELECT * FROM t WHERE name = 'O''Brien'", 'history'))
+      .toBe("SELECT * FROM t WHERE name = 'REDACTED_2'");
+    expect(redactor.restoreSQL("name = 'REDACTED_2'")).toBe("name = 'O''Brien'");
+  });
+
+  it('masks numeric profile bounds that match a pattern', () => {
+    const redactor = new Redactor(DEFAULT_REDACTION_SETTINGS);
+    const schema: DatabaseSchema = {
+      id: 'test',
+      name: 'Test',
+      tables: [{
+        name: 'contracts',
+        columns: [
+          { name: 'contract_number', type: 'INTEGER', nullable: false, profile: { source: 'workbook', min: 1000001, max: 9999999 } },
+          { name: 'amount', type: 'DECIMAL', nullable: true, profile: { source: 'workbook', min: 5, max: 250 } }
+        ]
+      }],
+      createdAt: 0,
+      updatedAt: 0,
+      version: '1.0'
+    };
+
+    const [contracts, amount] = redactor.redactSchema(schema).tables[0].columns;
+
+    expect(contracts.profile?.min).toBe('REDACTED_1');
+    expect(contracts.profile?.max).toBe('REDACTED_2');
+    expect(amount.profile).toMatchObject({ min: 5, max: 250 });
+  });
+});
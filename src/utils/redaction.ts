@@ -0,0 +1,334 @@
+import { DatabaseSchema } from './schemaManager';
+
+// Masks confidential values before prompts leave the add-in. Each masked
+// value becomes a numbered placeholder (REDACTED_1) that the model is told
+// to use as is, and placeholders in the returned SQL are swapped back for
+// the original values locally.
+
+export type RedactionKind = 'literal' | 'email' | 'pattern' | 'sensitive';
+export type RedactionSource = 'question' | 'schema' | 'history' | 'examples' | 'repair';
+
+export const REDACTION_SOURCE_LABELS: Record<RedactionSource, string> = {
+  question: 'question',
+  schema: 'schema',
+  history: 'conversation',
+  examples: 'favorite examples',
+  repair: 'repair request'
+};
+
+export interface RedactionPattern {
+  id: string;
+  name: string;
+  pattern: string; // Regular expression source, matched case-insensitively
+  enabled: boolean;
+}
+
+export interface RedactionSettings {
+  enabled: boolean;
+  maskLiterals: boolean;         // Quoted values in questions and SQL
+  maskEmails: boolean;
+  maskSensitiveColumns: boolean; // Known values of columns flagged sensitive in the schema
+  patterns: RedactionPattern[];
+}
+
+// One masked value. The original stays out of the audit log; only a preview
+// with most characters hidden is kept.
+export interface RedactionItem {
+  placeholder: string;
+  kind: RedactionKind;
+  rule: string;
+  source: RedactionSource;
+  preview: string;
+}
+
+export interface RedactionAuditEntry {
+  id: string;
+  timestamp: number;
+  question: string; // As sent, with placeholders
+  items: RedactionItem[];
+}
+
+export const DEFAULT_REDACTION_SETTINGS: RedactionSettings = {
+  enabled: true,
+  maskLiterals: true,
+  maskEmails: true,
+  maskSensitiveColumns: true,
+  patterns: [
+    { id: 'long-numbers', name: 'Account and contract numbers', pattern: '\\b\\d{6,}\\b', enabled: true },
+    { id: 'currency', name: 'Currency amounts', pattern: '\\$\\s?\\d[\\d,]*(?:\\.\\d+)?', enabled: false }
+  ]
+};
+
+export const REDACTION_INSTRUCTIONS = `
+
+Some values are masked as REDACTED_1, REDACTED_2 and so on. Use a placeholder exactly as given wherever its value belongs, for example status = 'REDACTED_1' or cost > REDACTED_2, and never guess the original value.`;
+
+const EMAIL_PATTERN = /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g;
+const PLACEHOLDER_PATTERN = /REDACTED_(\d+)/g;
+const NUMERIC_VALUE = /^\$?\s?\d[\d,]*(?:\.\d+)?$/;
+const MAX_AUDIT_ENTRIES = 50;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function previewValue(value: string): string {
+  if (value.length <= 2) return '••';
+  return `${value[0]}${'•'.repeat(Math.min(value.length - 2, 6))}${value[value.length - 1]}`;
+}
+
+// Holds the placeholder mapping for one generation, so the same value gets
+// the same placeholder in every message
+export class Redactor {
+  readonly items: RedactionItem[] = [];
+  private readonly values = new Map<string, string>(); // Placeholder to original
+  private readonly placeholders = new Map<string, string>(); // Original to placeholder
+  private readonly patterns: { name: string; regex: RegExp }[];
+  private readonly sensitiveValues: string[];
+
+  constructor(private readonly settings: RedactionSettings, schema?: DatabaseSchema | null) {
+    this.patterns = settings.enabled
+      ? settings.patterns.filter(pattern => pattern.enabled).flatMap(pattern => {
+          try {
+            return [{ name: pattern.name, regex: new RegExp(pattern.pattern, 'gi') }];
+          } catch (error) {
+            console.error(`Invalid redaction pattern ${pattern.name}:`, error);
+            return [];
+          }
+        })
+      : [];
+
+    // Longest first so "Acme Corporation" is masked before "Acme"
+    this.sensitiveValues = settings.enabled && settings.maskSensitiveColumns && schema
+      ? schema.tables
+          .flatMap(table => table.columns.filter(column => column.sensitive))
+          .flatMap(column => column.profile?.sampleValues || [])
+          .filter(value => value.trim().length > 1)
+          .sort((a, b) => b.length - a.length)
+      : [];
+  }
+
+  get enabled(): boolean {
+    return this.settings.enabled;
+  }
+
+  // Questions and clarification answers: quoted values in either quote style.
+  // A quote with a letter before or after it is an apostrophe, as in
+  // "carrier's", so it neither opens nor closes a value.
+  redactQuestion(text: string, source: RedactionSource): string {
+    return this.redact(text, source, /(^|[^A-Za-z])(?:'([^']*)'|"([^"]*)")(?![A-Za-z])/g);
+  }
+
+  // SQL: string literals, with '' escapes, but not double-quoted identifiers.
+  // The empty group stands in for the text before the quote.
+  redactSQL(sql: string, source: RedactionSource): string {
+    return this.redact(sql, source, /()'((?:[^']|'')*)'/g);
+  }
+
+  // Free text with no literals of its own, such as validation errors about
+  // restored SQL: values masked earlier go back to their placeholders
+  redactText(text: string, source: RedactionSource): string {
+    if (!this.settings.enabled || !text) return text;
+    const known = Array.from(this.placeholders.entries()).sort((a, b) => b[0].length - a[0].length);
+    const masked = known.reduce((result, [value, placeholder]) => result.split(value).join(placeholder), text);
+    return this.redact(masked, source);
+  }
+
+  // Descriptions, definitions, synonyms, profiled values and metric
+  // expressions go through the patterns; sensitive columns lose their
+  // profiles altogether
+  redactSchema(schema: DatabaseSchema): DatabaseSchema {
+    if (!this.settings.enabled) return schema;
+    const text = (value?: string) => (value ? this.redact(value, 'schema') : value);
+    const texts = (values?: string[]) => values?.map(value => text(value)!);
+    const bound = (value?: number | string) => {
+      if (value === undefined) return value;
+      const masked = text(String(value));
+      return masked === String(value) ? value : masked;
+    };
+
+    return {
+      ...schema,
+      description: text(schema.description),
+      tables: schema.tables.map(table => ({
+        ...table,
+        description: text(table.description),
+        synonyms: texts(table.synonyms),
+        definition: text(table.definition),
+        columns: table.columns.map(column => {
+          const { profile, ...rest } = column;
+          const keepProfile = profile && !(column.sensitive && this.settings.maskSensitiveColumns);
+          return {
+            ...rest,
+            description: text(column.description),
+            synonyms: texts(column.synonyms),
+            definition: text(column.definition),
+            defaultValue: text(column.defaultValue),
+            ...(keepProfile ? {
+              profile: {
+                ...profile,
+                sampleValues: texts(profile.sampleValues),
+                min: bound(profile.min),
+                max: bound(profile.max)
+              }
+            } : {})
+          };
+        })
+      })),
+      metrics: schema.metrics?.map(metric => ({
+        ...metric,
+        label: text(metric.label)!,
+        synonyms: texts(metric.synonyms),
+        description: text(metric.description),
+        expression: this.redactSQL(metric.expression, 'schema')
+      }))
+    };
+  }
+
+  // Puts the original values back into returned SQL. Numbers masked outside
+  // quotes go back as plain numbers, and quotes in text values are escaped.
+  restoreSQL(sql: string): string {
+    return sql.replace(PLACEHOLDER_PATTERN, (placeholder, _number, offset: number) => {
+      const value = this.values.get(placeholder);
+      if (value === undefined) return placeholder;
+      const quoted = (sql.slice(0, offset).match(/'/g) || []).length % 2 === 1;
+      if (!quoted && NUMERIC_VALUE.test(value)) return value.replace(/[$,\s]/g, '');
+      return quoted ? value.replace(/'/g, "''") : value;
+    });
+  }
+
+  restoreText(text: string): string {
+    return text.replace(PLACEHOLDER_PATTERN, placeholder => this.values.get(placeholder) ?? placeholder);
+  }
+
+  private redact(text: string, source: RedactionSource, literalPattern?: RegExp): string {
+    if (!this.settings.enabled || !text) return text;
+    let result = text;
+
+    if (literalPattern && this.settings.maskLiterals) {
+      result = result.replace(literalPattern, (match, before: string, first?: string, second?: string) => {
+        const inner = first ?? second ?? '';
+        if (!inner.trim() || PLACEHOLDER_PATTERN.test(inner)) {
+          PLACEHOLDER_PATTERN.lastIndex = 0;
+          return match;
+        }
+        const quote = match[before.length];
+        const value = quote === "'" ? inner.replace(/''/g, "'") : inner;
+        return `${before}${quote}${this.mask(value, 'literal', 'Quoted value', source)}${quote}`;
+      });
+    }
+
+    if (this.settings.maskEmails) {
+      result = result.replace(EMAIL_PATTERN, match => this.mask(match, 'email', 'Email address', source));
+    }
+
+    this.sensitiveValues.forEach(value => {
+      const regex = new RegExp(`(^|[^A-Za-z0-9_])(${escapeRegExp(value)})(?![A-Za-z0-9_])`, 'gi');
+      result = result.replace(regex, (_match, before: string, found: string) =>
+        `${before}${this.mask(found, 'sensitive', 'Sensitive column value', source)}`);
+    });
+
+    this.patterns.forEach(({ name, regex }) => {
+      result = result.replace(regex, match => this.mask(match, 'pattern', name, source));
+    });
+
+    return result;
+  }
+
+  private mask(value: string, kind: RedactionKind, rule: string, source: RedactionSource): string {
+    const existing = this.placeholders.get(value);
+    if (existing) return existing;
+
+    const placeholder = `REDACTED_${this.values.size + 1}`;
+    this.values.set(placeholder, value);
+    this.placeholders.set(value, placeholder);
+    this.items.push({ placeholder, kind, rule, source, preview: previewValue(value) });
+    return placeholder;
+  }
+}
+
+export class RedactionManager {
+  private static instance: RedactionManager;
+  private readonly SETTINGS_KEY = 'excel_sql_assistant_redaction';
+  private readonly AUDIT_KEY = 'excel_sql_assistant_redaction_audit';
+
+  static getInstance(): RedactionManager {
+    if (!RedactionManager.instance) {
+      RedactionManager.instance = new RedactionManager();
+    }
+    return RedactionManager.instance;
+  }
+
+  async getSettings(): Promise<RedactionSettings> {
+    try {
+      const stored = localStorage.getItem(this.SETTINGS_KEY);
+      return stored ? { ...DEFAULT_REDACTION_SETTINGS, ...JSON.parse(stored) } : DEFAULT_REDACTION_SETTINGS;
+    } catch (error) {
+      console.error('Error loading redaction settings:', error);
+      return DEFAULT_REDACTION_SETTINGS;
+    }
+  }
+
+  async saveSettings(settings: RedactionSettings): Promise<void> {
+    const invalid = settings.patterns.find(pattern => !this.isValidPattern(pattern.pattern));
+    if (invalid) {
+      throw new Error(`Redaction pattern "${invalid.name}" is not a valid regular expression`);
+    }
+    try {
+      localStorage.setItem(this.SETTINGS_KEY, JSON.stringify(settings));
+    } catch (error) {
+      console.error('Error saving redaction settings:', error);
+    }
+  }
+
+  async createRedactor(schema?: DatabaseSchema | null): Promise<Redactor> {
+    return new Redactor(await this.getSettings(), schema);
+  }
+
+  isValidPattern(pattern: string): boolean {
+    if (!pattern.trim()) return false;
+    try {
+      new RegExp(pattern, 'gi');
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  // Audit Log
+  async recordAudit(question: string, items: RedactionItem[]): Promise<void> {
+    if (items.length === 0) return;
+    const log = await this.getAuditLog();
+    log.unshift({
+      id: Date.now().toString(36) + Math.random().toString(36).substr(2),
+      timestamp: Date.now(),
+      question,
+      items
+    });
+    this.saveAuditLog(log.slice(0, MAX_AUDIT_ENTRIES));
+  }
+
+  async getAuditLog(): Promise<RedactionAuditEntry[]> {
+    try {
+      const stored = localStorage.getItem(this.AUDIT_KEY);
+      return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      console.error('Error loading redaction audit log:', error);
+      return [];
+    }
+  }
+
+  async clearAuditLog(): Promise<void> {
+    this.saveAuditLog([]);
+  }
+
+  private saveAuditLog(log: RedactionAuditEntry[]): void {
+    try {
+      localStorage.setItem(this.AUDIT_KEY, JSON.stringify(log));
+    } catch (error) {
+      console.error('Error saving redaction audit log:', error);
+    }
+  }
+}
+
+export const redactionManager = RedactionManager.getInstance();
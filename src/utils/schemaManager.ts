@@ -1,17 +1,40 @@
+import { SQLDialect, SQL_DIALECTS } from './sqlDialects';
+import { parseSQL } from './sqlParser';
+import { SafetyPolicy, STATEMENT_TYPE_LABELS } from './sqlValidator';
+import { LINT_RULES, LINT_SEVERITY_LABELS, LintSeverity } from './lintRules';
+
 export interface DatabaseTable {
   name: string;
   description?: string;
+  synonyms?: string[];  // Business terms for the table, e.g. "shipments" for freight_data
+  definition?: string;  // Glossary definition given to the model
   columns: DatabaseColumn[];
   primaryKey?: string;
   indexes?: string[];
   foreignKeys?: ForeignKey[];
 }
 
+// What the column's data looks like, so generated filters use real values
+export interface ColumnProfile {
+  source: 'workbook' | 'manual';
+  sampleValues?: string[];  // Most frequent distinct values first
+  min?: number | string;    // Numbers, or ISO dates as text
+  max?: number | string;
+  nullRate?: number;        // 0 to 1
+  distinctCount?: number;
+  rowCount?: number;
+  updatedAt?: number;
+}
+
 export interface DatabaseColumn {
   name: string;
   type: string;
   nullable: boolean;
   description?: string;
+  synonyms?: string[];  // Business terms for the column, e.g. "spend" for cost
+  definition?: string;  // Glossary definition given to the model
+  profile?: ColumnProfile;
+  sensitive?: boolean;  // Values are masked before prompts are sent
   defaultValue?: string;
   constraints?: string[];
 }
@@ -26,17 +49,54 @@ export interface ForeignKey {
   onUpdate?: 'CASCADE' | 'SET NULL' | 'RESTRICT';
 }
 
+export type MetricGrain = 'day' | 'week' | 'month' | 'quarter' | 'year';
+export type MetricFormat = 'number' | 'currency' | 'percent' | 'days';
+
+// A named business metric. Generated SQL always computes it with the same
+// expression so "on-time rate" means the same thing in every query.
+export interface MetricDefinition {
+  name: string;          // Identifier used as the result column, e.g. on_time_rate
+  label: string;         // How users say it, e.g. "on-time rate"
+  synonyms?: string[];
+  description?: string;
+  table: string;         // Table the expression is evaluated over
+  expression: string;    // Aggregate SQL, e.g. SUM(cost) / NULLIF(COUNT(*), 0)
+  grain?: MetricGrain;   // Time bucket used when a trend is asked for
+  dimensions?: string[]; // Columns it may be grouped by; any column when empty
+  format?: MetricFormat;
+}
+
 export interface DatabaseSchema {
   id: string;
   name: string;
   description?: string;
   tables: DatabaseTable[];
+  metrics?: MetricDefinition[];
   createdAt: number;
   updatedAt: number;
   isDefault?: boolean;
+  dialect?: SQLDialect;
+  safetyPolicy?: SafetyPolicy; // Read-only SELECT statements when not set
+  lintRules?: Record<string, LintSeverity>; // Severity overrides by lint rule ID
   version: string;
 }
 
+const METRIC_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+export function formatMetricValue(value: unknown, format: MetricFormat = 'number'): string {
+  if (typeof value !== 'number' || !isFinite(value)) return String(value);
+  switch (format) {
+    case 'currency':
+      return value.toLocaleString(undefined, { style: 'currency', currency: 'USD' });
+    case 'percent':
+      return value.toLocaleString(undefined, { style: 'percent', maximumFractionDigits: 1 });
+    case 'days':
+      return `${value.toLocaleString(undefined, { maximumFractionDigits: 1 })} days`;
+    default:
+      return value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+  }
+}
+
 export class SchemaManager {
   private static instance: SchemaManager;
   private readonly STORAGE_KEY = 'excel_sql_assistant_schemas';
@@ -201,6 +261,50 @@ export class SchemaManager {
     await this.saveSchemas(schemas);
   }
 
+  // Metric Management
+  async addMetric(schemaId: string, metric: MetricDefinition): Promise<void> {
+    const schemas = await this.getSchemas();
+    const schemaIndex = schemas.findIndex(s => s.id === schemaId);
+    if (schemaIndex === -1) {
+      throw new Error('Schema not found');
+    }
+    
+    schemas[schemaIndex].metrics = [...(schemas[schemaIndex].metrics || []), metric];
+    schemas[schemaIndex].updatedAt = Date.now();
+    await this.saveSchemas(schemas);
+  }
+
+  async updateMetric(schemaId: string, metricName: string, updates: Partial<MetricDefinition>): Promise<void> {
+    const schemas = await this.getSchemas();
+    const schemaIndex = schemas.findIndex(s => s.id === schemaId);
+    if (schemaIndex === -1) {
+      throw new Error('Schema not found');
+    }
+    
+    const metrics = schemas[schemaIndex].metrics || [];
+    const metricIndex = metrics.findIndex(m => m.name === metricName);
+    if (metricIndex === -1) {
+      throw new Error('Metric not found');
+    }
+    
+    metrics[metricIndex] = { ...metrics[metricIndex], ...updates };
+    schemas[schemaIndex].metrics = metrics;
+    schemas[schemaIndex].updatedAt = Date.now();
+    await this.saveSchemas(schemas);
+  }
+
+  async deleteMetric(schemaId: string, metricName: string): Promise<void> {
+    const schemas = await this.getSchemas();
+    const schemaIndex = schemas.findIndex(s => s.id === schemaId);
+    if (schemaIndex === -1) {
+      throw new Error('Schema not found');
+    }
+    
+    schemas[schemaIndex].metrics = (schemas[schemaIndex].metrics || []).filter(m => m.name !== metricName);
+    schemas[schemaIndex].updatedAt = Date.now();
+    await this.saveSchemas(schemas);
+  }
+
   // Schema Validation
   validateSchema(schema: DatabaseSchema): { isValid: boolean; errors: string[] } {
     const errors: string[] = [];
@@ -213,6 +317,24 @@ export class SchemaManager {
       errors.push('Schema must have at least one table');
     }
     
+    if (schema.dialect && !SQL_DIALECTS[schema.dialect]) {
+      errors.push(`Unsupported SQL dialect: ${schema.dialect}`);
+    }
+    
+    schema.safetyPolicy?.allowedStatements.forEach(type => {
+      if (!STATEMENT_TYPE_LABELS[type]) {
+        errors.push(`Unknown statement type in the safety policy: ${type}`);
+      }
+    });
+    
+    Object.entries(schema.lintRules || {}).forEach(([id, severity]) => {
+      if (!LINT_RULES[id]) {
+        errors.push(`Unknown lint rule: ${id}`);
+      } else if (!LINT_SEVERITY_LABELS[severity]) {
+        errors.push(`Unsupported severity for lint rule ${id}: ${severity}`);
+      }
+    });
+    
     const tableNames = new Set<string>();
     schema.tables.forEach(table => {
       if (!table.name.trim()) {
@@ -240,7 +362,50 @@ export class SchemaManager {
         if (!column.type.trim()) {
           errors.push(`Column type is required for ${column.name} in table ${table.name}`);
         }
+        
+        // A synonym spelled like another column would make the column ambiguous
+        column.synonyms?.forEach(synonym => {
+          const clash = table.columns.find(other => other !== column && other.name.toLowerCase() === synonym.trim().toLowerCase());
+          if (clash) {
+            errors.push(`Synonym "${synonym}" of ${column.name} is also a column name in table ${table.name}`);
+          }
+        });
+      });
+    });
+    
+    const metricNames = new Set<string>();
+    schema.metrics?.forEach(metric => {
+      if (!METRIC_NAME_PATTERN.test(metric.name)) {
+        errors.push(`Metric name "${metric.name}" must start with a letter or underscore and use only letters, digits and underscores`);
+      } else if (metricNames.has(metric.name.toLowerCase())) {
+        errors.push(`Duplicate metric name: ${metric.name}`);
+      } else {
+        metricNames.add(metric.name.toLowerCase());
+      }
+      
+      if (!metric.label.trim()) {
+        errors.push(`Metric ${metric.name} needs a label`);
+      }
+      
+      const table = schema.tables.find(t => t.name === metric.table);
+      if (!table) {
+        errors.push(`Metric ${metric.name} uses unknown table ${metric.table}`);
+      }
+      metric.dimensions?.forEach(dimension => {
+        if (table && !table.columns.some(column => column.name === dimension)) {
+          errors.push(`Metric ${metric.name} allows grouping by unknown column ${metric.table}.${dimension}`);
+        }
       });
+      
+      if (!metric.expression.trim()) {
+        errors.push(`Metric ${metric.name} needs an expression`);
+      } else {
+        try {
+          parseSQL(`SELECT ${metric.expression} AS ${metric.name} FROM ${metric.table}`);
+        } catch (error) {
+          errors.push(`Metric ${metric.name} has an invalid expression: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+      }
     });
     
     return {
@@ -294,23 +459,67 @@ export class SchemaManager {
     context += `Tables:\n`;
     
     schema.tables.forEach(table => {
-      context += `- ${table.name} (\n`;
+      context += `- ${table.name} (`;
+      if (table.description) {
+        context += ` -- ${table.description}`;
+      }
+      context += `\n`;
       table.columns.forEach(column => {
         const nullable = column.nullable ? 'NULL' : 'NOT NULL';
         const defaultValue = column.defaultValue ? ` DEFAULT ${column.defaultValue}` : '';
-        context += `    ${column.name} ${column.type} ${nullable}${defaultValue},\n`;
+        const primaryKey = table.primaryKey === column.name ? ' PRIMARY KEY' : '';
+        const description = column.description ? ` -- ${column.description}` : '';
+        context += `    ${column.name} ${column.type} ${nullable}${defaultValue}${primaryKey},${description}\n`;
       });
-      context += `  )`;
-      if (table.description) {
-        context += ` -- ${table.description}`;
+      context += `  )\n`;
+      
+      if (table.primaryKey && !table.columns.some(column => column.name === table.primaryKey)) {
+        context += `  Primary key: ${table.primaryKey}\n`;
+      }
+      if (table.foreignKeys && table.foreignKeys.length > 0) {
+        const references = table.foreignKeys.map(fk => `${fk.column} -> ${fk.references.table}.${fk.references.column}`);
+        context += `  Foreign keys: ${references.join(', ')}\n`;
+      }
+      if (table.indexes && table.indexes.length > 0) {
+        context += `  Indexes: ${table.indexes.join(', ')}\n`;
       }
-      context += `\n`;
     });
     
+    if (schema.metrics && schema.metrics.length > 0) {
+      context += `Metrics (when a question names one, compute it with exactly this expression and alias):\n`;
+      schema.metrics.forEach(metric => {
+        const names = [metric.label, ...(metric.synonyms || [])].map(name => `"${name}"`).join(', ');
+        const dimensions = metric.dimensions && metric.dimensions.length > 0 ? `; group only by ${metric.dimensions.join(', ')}` : '';
+        const grain = metric.grain ? `; trends by ${metric.grain}` : '';
+        const description = metric.description ? ` -- ${metric.description}` : '';
+        context += `- ${metric.name} (${names}): ${metric.expression} AS ${metric.name} over ${metric.table}${dimensions}${grain}${description}\n`;
+      });
+    }
+    
+    const glossary = this.generateGlossary(schema);
+    if (glossary) {
+      context += `Business glossary (terms users may use for tables and columns):\n${glossary}`;
+    }
+    
     return context;
   }
 
   // Private Methods
+  // One line per table or column that has synonyms or a definition
+  private generateGlossary(schema: DatabaseSchema): string {
+    const describeTerm = (target: string, synonyms?: string[], definition?: string): string => {
+      const terms = (synonyms || []).map(synonym => synonym.trim()).filter(Boolean);
+      if (terms.length === 0 && !definition?.trim()) return '';
+      const names = terms.length > 0 ? `${terms.map(term => `"${term}"`).join(', ')} -> ` : '';
+      return `- ${names}${target}${definition?.trim() ? `: ${definition.trim()}` : ''}\n`;
+    };
+
+    return schema.tables.map(table =>
+      describeTerm(`table ${table.name}`, table.synonyms, table.definition) +
+      table.columns.map(column => describeTerm(`${table.name}.${column.name}`, column.synonyms, column.definition)).join('')
+    ).join('');
+  }
+
   private async saveSchemas(schemas: DatabaseSchema[]): Promise<void> {
     try {
       localStorage.setItem(this.STORAGE_KEY, JSON.stringify(schemas));
@@ -332,18 +541,19 @@ export class SchemaManager {
         {
           name: 'freight_data',
           description: 'Main freight shipment data',
+          synonyms: ['shipments', 'loads'],
           columns: [
             { name: 'id', type: 'INT', nullable: false, description: 'Primary key' },
-            { name: 'carrier', type: 'VARCHAR(50)', nullable: false, description: 'Carrier name' },
-            { name: 'origin', type: 'VARCHAR(100)', nullable: false, description: 'Origin location' },
-            { name: 'destination', type: 'VARCHAR(100)', nullable: false, description: 'Destination location' },
-            { name: 'cost', type: 'DECIMAL(10,2)', nullable: false, description: 'Shipment cost' },
+            { name: 'carrier', type: 'VARCHAR(50)', nullable: false, description: 'Carrier name', synonyms: ['shipper', 'vendor'] },
+            { name: 'origin', type: 'VARCHAR(100)', nullable: false, description: 'Origin location', synonyms: ['lane', 'ship from'] },
+            { name: 'destination', type: 'VARCHAR(100)', nullable: false, description: 'Destination location', synonyms: ['lane', 'ship to'] },
+            { name: 'cost', type: 'DECIMAL(10,2)', nullable: false, description: 'Shipment cost', synonyms: ['spend', 'freight cost', 'charges'], definition: 'Amount billed by the carrier for the shipment' },
             { name: 'weight', type: 'DECIMAL(8,2)', nullable: true, description: 'Shipment weight' },
             { name: 'shipment_date', type: 'DATE', nullable: false, description: 'Shipment date' },
             { name: 'quarter', type: 'VARCHAR(10)', nullable: false, description: 'Quarter' },
             { name: 'year', type: 'INT', nullable: false, description: 'Year' },
-            { name: 'service_type', type: 'VARCHAR(50)', nullable: true, description: 'Service type' },
-            { name: 'delivery_time_days', type: 'INT', nullable: true, description: 'Delivery time in days' },
+            { name: 'service_type', type: 'VARCHAR(50)', nullable: true, description: 'Service type', synonyms: ['service level'] },
+            { name: 'delivery_time_days', type: 'INT', nullable: true, description: 'Delivery time in days', synonyms: ['transit time', 'lead time'], definition: 'Days from pickup to delivery' },
             { name: 'status', type: 'VARCHAR(20)', nullable: false, description: 'Shipment status' }
           ],
           primaryKey: 'id'
@@ -373,6 +583,36 @@ export class SchemaManager {
           primaryKey: 'id'
         }
       ],
+      metrics: [
+        {
+          name: 'avg_cost_per_shipment',
+          label: 'average cost per shipment',
+          synonyms: ['cost per shipment'],
+          table: 'freight_data',
+          expression: 'SUM(cost) / NULLIF(COUNT(*), 0)',
+          grain: 'month',
+          format: 'currency'
+        },
+        {
+          name: 'on_time_rate',
+          label: 'on-time rate',
+          synonyms: ['on-time delivery', 'on-time percentage'],
+          description: 'Share of delivered shipments that arrived within 3 days',
+          table: 'freight_data',
+          expression: "SUM(CASE WHEN status = 'Delivered' AND delivery_time_days <= 3 THEN 1 ELSE 0 END) * 1.0 / NULLIF(SUM(CASE WHEN status = 'Delivered' THEN 1 ELSE 0 END), 0)",
+          grain: 'month',
+          dimensions: ['carrier', 'origin', 'destination', 'service_type'],
+          format: 'percent'
+        },
+        {
+          name: 'cost_per_mile',
+          label: 'cost per mile',
+          table: 'routes',
+          expression: 'SUM(typical_cost) / NULLIF(SUM(distance_miles), 0)',
+          dimensions: ['origin', 'destination'],
+          format: 'currency'
+        }
+      ],
       createdAt: Date.now(),
       updatedAt: Date.now(),
       isDefault: true,
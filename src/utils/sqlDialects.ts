@@ -0,0 +1,179 @@
+export type SQLDialect = 'postgresql' | 'sqlserver' | 'mysql' | 'bigquery' | 'sqlite';
+
+export interface DialectProfile {
+  id: SQLDialect;
+  label: string;
+  rowLimit: 'limit' | 'top';
+  identifierQuotes: [string, string];
+  concatenation: string;
+  currentDate: string;
+  dateFunctions: string;
+  // Functions from other dialects, mapped to what to use instead
+  foreignFunctions: Record<string, string>;
+}
+
+export const DEFAULT_DIALECT: SQLDialect = 'postgresql';
+
+export const SQL_DIALECTS: Record<SQLDialect, DialectProfile> = {
+  postgresql: {
+    id: 'postgresql',
+    label: 'PostgreSQL',
+    rowLimit: 'limit',
+    identifierQuotes: ['"', '"'],
+    concatenation: "a || ' ' || b",
+    currentDate: 'CURRENT_DATE',
+    dateFunctions: "DATE_TRUNC('month', d), EXTRACT(YEAR FROM d), d + INTERVAL '7 days'",
+    foreignFunctions: {
+      GETDATE: 'CURRENT_DATE or NOW()',
+      CURDATE: 'CURRENT_DATE',
+      DATEADD: "date + INTERVAL '1 day'",
+      DATEDIFF: 'date subtraction or AGE()',
+      DATEPART: 'EXTRACT(part FROM date)',
+      STRFTIME: 'TO_CHAR',
+      DATE_FORMAT: 'TO_CHAR',
+      ISNULL: 'COALESCE',
+      IFNULL: 'COALESCE',
+      LEN: 'LENGTH'
+    }
+  },
+  sqlserver: {
+    id: 'sqlserver',
+    label: 'SQL Server',
+    rowLimit: 'top',
+    identifierQuotes: ['[', ']'],
+    concatenation: "a + ' ' + b or CONCAT(a, ' ', b)",
+    currentDate: 'CAST(GETDATE() AS DATE)',
+    dateFunctions: 'DATEPART(year, d), DATEADD(day, 7, d), DATEDIFF(day, a, b), EOMONTH(d)',
+    foreignFunctions: {
+      NOW: 'GETDATE()',
+      CURDATE: 'CAST(GETDATE() AS DATE)',
+      DATE_TRUNC: 'DATETRUNC or DATEFROMPARTS',
+      EXTRACT: 'DATEPART(part, date)',
+      STRFTIME: 'FORMAT',
+      DATE_FORMAT: 'FORMAT',
+      TO_CHAR: 'FORMAT',
+      IFNULL: 'ISNULL or COALESCE',
+      LENGTH: 'LEN'
+    }
+  },
+  mysql: {
+    id: 'mysql',
+    label: 'MySQL',
+    rowLimit: 'limit',
+    identifierQuotes: ['`', '`'],
+    concatenation: "CONCAT(a, ' ', b)",
+    currentDate: 'CURDATE()',
+    dateFunctions: "YEAR(d), MONTH(d), DATE_ADD(d, INTERVAL 7 DAY), DATE_FORMAT(d, '%Y-%m')",
+    foreignFunctions: {
+      GETDATE: 'NOW() or CURDATE()',
+      DATEADD: 'DATE_ADD',
+      DATEPART: 'EXTRACT(part FROM date) or YEAR()/MONTH()',
+      DATE_TRUNC: 'DATE_FORMAT',
+      STRFTIME: 'DATE_FORMAT',
+      TO_CHAR: 'DATE_FORMAT',
+      LEN: 'CHAR_LENGTH'
+    }
+  },
+  bigquery: {
+    id: 'bigquery',
+    label: 'BigQuery',
+    rowLimit: 'limit',
+    identifierQuotes: ['`', '`'],
+    concatenation: "CONCAT(a, ' ', b) or a || ' ' || b",
+    currentDate: 'CURRENT_DATE()',
+    dateFunctions: 'DATE_TRUNC(d, MONTH), EXTRACT(YEAR FROM d), DATE_ADD(d, INTERVAL 7 DAY)',
+    foreignFunctions: {
+      GETDATE: 'CURRENT_DATE() or CURRENT_TIMESTAMP()',
+      NOW: 'CURRENT_TIMESTAMP()',
+      CURDATE: 'CURRENT_DATE()',
+      DATEADD: 'DATE_ADD',
+      DATEPART: 'EXTRACT(part FROM date)',
+      STRFTIME: 'FORMAT_DATE',
+      DATE_FORMAT: 'FORMAT_DATE',
+      TO_CHAR: 'FORMAT_DATE',
+      ISNULL: 'IFNULL or COALESCE',
+      LEN: 'LENGTH'
+    }
+  },
+  sqlite: {
+    id: 'sqlite',
+    label: 'SQLite',
+    rowLimit: 'limit',
+    identifierQuotes: ['"', '"'],
+    concatenation: "a || ' ' || b",
+    currentDate: "DATE('now')",
+    dateFunctions: "strftime('%Y', d), DATE(d, '+7 days'), DATE(d, 'start of month')",
+    foreignFunctions: {
+      GETDATE: "DATE('now')",
+      NOW: "DATETIME('now')",
+      CURDATE: "DATE('now')",
+      DATEADD: "DATE(date, '+1 day')",
+      DATEPART: "strftime('%Y', date)",
+      DATE_TRUNC: "DATE(date, 'start of month')",
+      EXTRACT: "strftime('%Y', date)",
+      DATE_FORMAT: 'strftime',
+      TO_CHAR: 'strftime',
+      LEN: 'LENGTH'
+    }
+  }
+};
+
+export function getDialect(dialect?: SQLDialect | null): DialectProfile {
+  return SQL_DIALECTS[dialect || DEFAULT_DIALECT] || SQL_DIALECTS[DEFAULT_DIALECT];
+}
+
+// Dialect rules written into the generation prompt
+export function describeDialect(dialect: SQLDialect): string {
+  const profile = getDialect(dialect);
+  const [open, close] = profile.identifierQuotes;
+  const rowLimit = profile.rowLimit === 'top' ? 'SELECT TOP n' : 'LIMIT n';
+
+  return `Write ${profile.label} SQL:
+- Limit rows with ${rowLimit}
+- Quote identifiers that need it with ${open}name${close}
+- Concatenate strings with ${profile.concatenation}
+- Use ${profile.currentDate} for today's date and date functions such as ${profile.dateFunctions}
+- Do not use ${Object.keys(profile.foreignFunctions).join(', ')}`;
+}
+
+export function quoteIdentifier(name: string, dialect: SQLDialect): string {
+  const [open, close] = getDialect(dialect).identifierQuotes;
+  return `${open}${name.split(close).join(close + close)}${close}`;
+}
+
+// Blanks out string literals, quoted identifiers and comments so keyword
+// checks only see SQL code. Offsets and line numbers are preserved.
+export function maskLiterals(sql: string): string {
+  return sql.replace(/'(?:''|[^'])*'|"(?:""|[^"])*"|`[^`]*`|\[[^\]]*\]|--[^\n]*|\/\*[\s\S]*?\*\//g, match =>
+    match.replace(/[^\n]/g, ' ')
+  );
+}
+
+export function hasRowLimit(sql: string): boolean {
+  return /\bLIMIT\s+\d|\bTOP\s*\(?\s*\d|\bFETCH\s+(FIRST|NEXT)\b/i.test(maskLiterals(sql));
+}
+
+// Adds a row limit in the dialect's syntax unless the query already has one.
+// TOP goes after the outermost SELECT, skipping SELECTs nested in CTEs and subqueries.
+export function applyRowLimit(sql: string, limit: number, dialect: SQLDialect): string {
+  if (hasRowLimit(sql)) return sql;
+
+  if (getDialect(dialect).rowLimit === 'limit') {
+    return `${sql}\nLIMIT ${limit}`;
+  }
+
+  const masked = maskLiterals(sql);
+  let depth = 0;
+  for (let i = 0; i < masked.length; i++) {
+    const char = masked[i];
+    if (char === '(') depth++;
+    else if (char === ')') depth--;
+    else if (depth === 0 && /^SELECT\b/i.test(masked.slice(i, i + 7)) && (i === 0 || !/\w/.test(masked[i - 1]))) {
+      const select = masked.slice(i).match(/^SELECT\s+(?:DISTINCT\s+|ALL\s+)?/i)![0];
+      const insertAt = i + select.length;
+      return `${sql.slice(0, insertAt)}TOP ${limit} ${sql.slice(insertAt)}`;
+    }
+  }
+
+  return sql;
+}
@@ -0,0 +1,381 @@
+import {
+  parseSQL,
+  expressionToSQL,
+  Expression,
+  SelectStatement,
+  TableReference,
+  WindowSpecification,
+  SQLSyntaxError
+} from './sqlParser';
+
+export interface SQLExplanationSection {
+  title: string;
+  items: string[];
+}
+
+export interface SQLExplanation {
+  summary: string;
+  sections: SQLExplanationSection[];
+}
+
+const AGGREGATE_DESCRIPTIONS: Record<string, string> = {
+  SUM: 'total',
+  AVG: 'average',
+  MIN: 'lowest',
+  MAX: 'highest',
+  STRING_AGG: 'list',
+  GROUP_CONCAT: 'list'
+};
+
+const COMPARISON_DESCRIPTIONS: Record<string, string> = {
+  '=': 'is',
+  '<>': 'is not',
+  '>': 'is greater than',
+  '>=': 'is at least',
+  '<': 'is less than',
+  '<=': 'is at most'
+};
+
+const ARITHMETIC_DESCRIPTIONS: Record<string, string> = {
+  '+': 'plus',
+  '-': 'minus',
+  '*': 'multiplied by',
+  '/': 'divided by',
+  '%': 'modulo',
+  '||': 'followed by'
+};
+
+const JOIN_DESCRIPTIONS: Record<string, (table: string, condition: string) => string> = {
+  INNER: (table, condition) => `Joined with ${table}${condition}`,
+  LEFT: (table, condition) => `Adds matching rows from ${table}${condition}, keeping rows that have no match`,
+  RIGHT: (table, condition) => `Joined with ${table}${condition}, keeping every row of ${table} even without a match`,
+  FULL: (table, condition) => `Joined with ${table}${condition}, keeping unmatched rows from both sides`,
+  CROSS: table => `Paired with every row of ${table}`
+};
+
+// Describes a SELECT statement clause by clause in plain English, so people who
+// don't read SQL can check whether a query answers their question
+export class SQLExplainer {
+  private static instance: SQLExplainer;
+
+  static getInstance(): SQLExplainer {
+    if (!SQLExplainer.instance) {
+      SQLExplainer.instance = new SQLExplainer();
+    }
+    return SQLExplainer.instance;
+  }
+
+  explain(sql: string): SQLExplanation {
+    let statement: SelectStatement;
+    try {
+      statement = parseSQL(sql);
+    } catch (error) {
+      const detail = error instanceof SQLSyntaxError || error instanceof Error ? error.message : 'Unknown error';
+      throw new Error(`The SQL could not be explained: ${detail}`);
+    }
+
+    return {
+      summary: `Returns ${this.describeQuery(statement)}.`,
+      sections: this.explainStatement(statement)
+    };
+  }
+
+  // Markdown rendering used by exports
+  toMarkdown(explanation: SQLExplanation): string {
+    let markdown = `${explanation.summary}\n\n`;
+    explanation.sections.forEach(section => {
+      markdown += `**${section.title}**\n\n`;
+      section.items.forEach(item => {
+        markdown += `- ${item}\n`;
+      });
+      markdown += '\n';
+    });
+    return markdown.trim();
+  }
+
+  // Statement Methods
+  private explainStatement(statement: SelectStatement): SQLExplanationSection[] {
+    const sections: SQLExplanationSection[] = [];
+    const add = (title: string, items: string[]) => {
+      if (items.length > 0) sections.push({ title, items });
+    };
+
+    add('Intermediate results', statement.with.map(cte =>
+      `"${cte.name}": ${this.describeQuery(cte.query)}`
+    ));
+
+    add('Tables', statement.from ? this.describeSource(statement.from) : []);
+
+    add('Filters', statement.where ? this.splitConditions(statement.where).map(condition =>
+      `Only rows where ${this.describeExpression(condition)}`
+    ) : []);
+
+    add('Grouping', statement.groupBy.length > 0
+      ? [`One row per ${this.joinList(statement.groupBy.map(expression => this.describeExpression(expression)))}`]
+      : []);
+
+    const metrics: string[] = [];
+    const columns: string[] = [];
+    statement.columns.forEach(item => {
+      if (item.expression.type === 'star') {
+        columns.push(item.expression.table ? `All columns of ${item.expression.table}` : 'All columns');
+      } else if (item.expression.type === 'column') {
+        const name = item.expression.name;
+        columns.push(item.alias && item.alias !== name ? `${name} (shown as "${item.alias}")` : name);
+      } else {
+        const label = item.alias || expressionToSQL(item.expression);
+        metrics.push(`"${label}": ${this.describeExpression(item.expression)}`);
+      }
+    });
+    add('Columns', columns.map(column => statement.distinct ? `${column} (duplicates removed)` : column));
+    add('Calculated metrics', metrics);
+
+    add('Group filters', statement.having ? this.splitConditions(statement.having).map(condition =>
+      `Only groups where ${this.describeExpression(condition)}`
+    ) : []);
+
+    add('Combined with', statement.setOperations.map(operation => {
+      const description = `a second query returning ${this.describeQuery(operation.query)}`;
+      switch (operation.operator) {
+        case 'UNION':
+          return `Adds the rows of ${description}, without duplicates`;
+        case 'UNION ALL':
+          return `Adds all rows of ${description}`;
+        case 'EXCEPT':
+          return `Removes rows that also appear in ${description}`;
+        case 'INTERSECT':
+          return `Keeps only rows that also appear in ${description}`;
+        default:
+          return description;
+      }
+    }));
+
+    add('Sorting', statement.orderBy.length > 0
+      ? [`By ${this.joinList(statement.orderBy.map(item =>
+          `${this.describeExpression(item.expression)} (${item.direction === 'DESC' ? 'highest first' : 'lowest first'})`
+        ))}`]
+      : []);
+
+    const limits: string[] = [];
+    if (statement.limit !== null) limits.push(`Returns at most ${statement.limit} row${statement.limit !== 1 ? 's' : ''}`);
+    if (statement.offset !== null) limits.push(`Skips the first ${statement.offset} row${statement.offset !== 1 ? 's' : ''}`);
+    add('Row limit', limits);
+
+    return sections;
+  }
+
+  // Noun phrase for what a statement returns, e.g. "2 calculated values from orders for each region"
+  private describeQuery(statement: SelectStatement): string {
+    const tables = statement.from ? this.getTableNames(statement.from) : [];
+    const source = tables.length > 0 ? ` from ${this.joinList(tables)}` : '';
+    const grouping = statement.groupBy.length > 0
+      ? ` for each ${this.joinList(statement.groupBy.map(expression => this.describeExpression(expression)))}`
+      : '';
+    const filtered = statement.where ? ', filtered' : '';
+
+    const metricCount = statement.columns.filter(item => !['column', 'star'].includes(item.expression.type)).length;
+    const what = metricCount > 0
+      ? `${metricCount} calculated value${metricCount !== 1 ? 's' : ''}`
+      : statement.columns.some(item => item.expression.type === 'star') ? 'all columns' : 'selected columns';
+
+    return `${what}${source}${grouping}${filtered}`;
+  }
+
+  private describeSource(source: TableReference): string[] {
+    switch (source.type) {
+      case 'table':
+        return [this.describeTable(source.name, source.alias)];
+      case 'derived':
+        return [`Subquery "${source.alias}" with ${this.describeQuery(source.query)}`];
+      case 'join': {
+        const right = this.describeSource(source.right);
+        // Join conditions keep their table qualifiers, which carry the meaning
+        const condition = source.on
+          ? ` on ${expressionToSQL(source.on)}`
+          : source.using ? ` on matching ${this.joinList(source.using)}` : '';
+        return [
+          ...this.describeSource(source.left),
+          JOIN_DESCRIPTIONS[source.joinType](right[0], condition),
+          ...right.slice(1)
+        ];
+      }
+    }
+  }
+
+  private describeTable(name: string, alias?: string): string {
+    return alias && alias !== name ? `${name} (as ${alias})` : name;
+  }
+
+  private getTableNames(source: TableReference): string[] {
+    switch (source.type) {
+      case 'table':
+        return [source.name];
+      case 'derived':
+        return [`a subquery (${source.alias})`];
+      case 'join':
+        return [...this.getTableNames(source.left), ...this.getTableNames(source.right)];
+    }
+  }
+
+  // Expression Methods
+  private describeExpression(expression: Expression): string {
+    switch (expression.type) {
+      case 'literal':
+        if (expression.value === null) return 'empty';
+        return typeof expression.value === 'string' ? `'${expression.value}'` : String(expression.value);
+      case 'column':
+        return expression.name;
+      case 'star':
+        return 'all columns';
+      case 'unary':
+        return expression.operator === 'NOT'
+          ? `not (${this.describeExpression(expression.operand)})`
+          : `negative ${this.describeExpression(expression.operand)}`;
+      case 'binary':
+        return this.describeBinary(expression.operator, expression.left, expression.right);
+      case 'function':
+        return this.describeFunction(expression.name.toUpperCase(), expression.args, expression.distinct) +
+          (expression.over ? this.describeWindow(expression.over) : '');
+      case 'case': {
+        const branches = expression.whenClauses.map(clause => {
+          const condition = expression.operand
+            ? `${this.describeExpression(expression.operand)} is ${this.describeExpression(clause.when)}`
+            : this.describeExpression(clause.when);
+          return `${this.describeExpression(clause.then)} when ${condition}`;
+        });
+        const otherwise = expression.elseResult ? `, otherwise ${this.describeExpression(expression.elseResult)}` : '';
+        return `${branches.join('; ')}${otherwise}`;
+      }
+      case 'in': {
+        const operand = this.describeExpression(expression.operand);
+        if (expression.subquery) {
+          return `${operand} is ${expression.negated ? 'not ' : ''}among the results of a subquery (${this.describeQuery(expression.subquery)})`;
+        }
+        const values = (expression.values || []).map(value => this.describeExpression(value));
+        return `${operand} is ${expression.negated ? 'not ' : ''}one of ${this.joinList(values, 'or')}`;
+      }
+      case 'between':
+        return `${this.describeExpression(expression.operand)} is ${expression.negated ? 'not ' : ''}between ` +
+          `${this.describeExpression(expression.low)} and ${this.describeExpression(expression.high)}`;
+      case 'like':
+        return this.describeLike(expression.operand, expression.pattern, expression.negated);
+      case 'isNull':
+        return `${this.describeExpression(expression.operand)} is ${expression.negated ? 'not empty' : 'empty'}`;
+      case 'exists':
+        return `${expression.negated ? 'no' : 'a'} matching row exists in a subquery (${this.describeQuery(expression.subquery)})`;
+      case 'subquery':
+        return `the result of a subquery (${this.describeQuery(expression.query)})`;
+      case 'cast':
+        return `${this.describeExpression(expression.operand)} converted to ${expression.dataType}`;
+    }
+  }
+
+  private describeBinary(operator: string, left: Expression, right: Expression): string {
+    if (operator === 'AND' || operator === 'OR') {
+      const wrap = (side: Expression) => {
+        const text = this.describeExpression(side);
+        return side.type === 'binary' && (side.operator === 'AND' || side.operator === 'OR') && side.operator !== operator
+          ? `(${text})`
+          : text;
+      };
+      return `${wrap(left)} ${operator.toLowerCase()} ${wrap(right)}`;
+    }
+
+    const description = COMPARISON_DESCRIPTIONS[operator] || ARITHMETIC_DESCRIPTIONS[operator] || operator;
+    return `${this.describeExpression(left)} ${description} ${this.describeExpression(right)}`;
+  }
+
+  private describeFunction(name: string, args: Expression[], distinct: boolean): string {
+    const argument = args.length > 0 ? this.describeExpression(args[0]) : '';
+    const distinctPrefix = distinct ? 'distinct ' : '';
+
+    if (name === 'COUNT') {
+      return args.length === 0 || args[0].type === 'star'
+        ? 'number of rows'
+        : `number of ${distinctPrefix}${argument} values`;
+    }
+
+    if (AGGREGATE_DESCRIPTIONS[name]) {
+      return `${AGGREGATE_DESCRIPTIONS[name]} of ${distinctPrefix}${argument}`;
+    }
+
+    switch (name) {
+      case 'ROUND':
+        return args.length > 1
+          ? `${argument} rounded to ${this.describeExpression(args[1])} decimal places`
+          : `${argument} rounded`;
+      case 'COALESCE':
+      case 'IFNULL':
+      case 'ISNULL':
+      case 'NVL':
+        return `${argument}, or ${this.joinList(args.slice(1).map(arg => this.describeExpression(arg)), 'or')} when empty`;
+      case 'NULLIF':
+        return `${argument}, treated as empty when it equals ${this.describeExpression(args[1])}`;
+      case 'YEAR':
+      case 'MONTH':
+      case 'DAY':
+      case 'QUARTER':
+        return `${name.toLowerCase()} of ${argument}`;
+      case 'EXTRACT':
+        return `${String((args[0] as { value?: unknown }).value).toLowerCase()} of ${this.describeExpression(args[1])}`;
+      case 'DATE_TRUNC':
+        return `${this.describeExpression(args[1])} truncated to the ${String((args[0] as { value?: unknown }).value).toLowerCase()}`;
+      case 'CURRENT_DATE':
+      case 'CURRENT_TIMESTAMP':
+      case 'NOW':
+      case 'GETDATE':
+        return 'today';
+      case 'UPPER':
+        return `${argument} in upper case`;
+      case 'LOWER':
+        return `${argument} in lower case`;
+      default:
+        return `${name}(${args.map(arg => this.describeExpression(arg)).join(', ')})`;
+    }
+  }
+
+  private describeWindow(window: WindowSpecification): string {
+    const parts: string[] = [];
+    if (window.partitionBy.length > 0) {
+      parts.push(`within each ${this.joinList(window.partitionBy.map(expression => this.describeExpression(expression)))}`);
+    }
+    if (window.orderBy.length > 0) {
+      parts.push(`ordered by ${this.joinList(window.orderBy.map(item =>
+        `${this.describeExpression(item.expression)}${item.direction === 'DESC' ? ' (highest first)' : ''}`
+      ))}`);
+    }
+    return parts.length > 0 ? ` ${parts.join(', ')}` : ' over all rows';
+  }
+
+  private describeLike(operand: Expression, pattern: Expression, negated: boolean): string {
+    const subject = this.describeExpression(operand);
+    const not = negated ? 'does not ' : '';
+
+    if (pattern.type === 'literal' && typeof pattern.value === 'string') {
+      const value = pattern.value;
+      const inner = value.replace(/^%|%$/g, '');
+      if (!/[%_]/.test(inner)) {
+        if (value.startsWith('%') && value.endsWith('%') && value.length > 1) return `${subject} ${not}${negated ? 'contain' : 'contains'} '${inner}'`;
+        if (value.endsWith('%')) return `${subject} ${not}${negated ? 'start' : 'starts'} with '${inner}'`;
+        if (value.startsWith('%')) return `${subject} ${not}${negated ? 'end' : 'ends'} with '${inner}'`;
+      }
+    }
+
+    return `${subject} ${not}${negated ? 'match' : 'matches'} the pattern ${this.describeExpression(pattern)}`;
+  }
+
+  // Helper Methods
+  private splitConditions(expression: Expression): Expression[] {
+    if (expression.type === 'binary' && expression.operator === 'AND') {
+      return [...this.splitConditions(expression.left), ...this.splitConditions(expression.right)];
+    }
+    return [expression];
+  }
+
+  private joinList(items: string[], conjunction: string = 'and'): string {
+    if (items.length <= 1) return items.join('');
+    return `${items.slice(0, -1).join(', ')} ${conjunction} ${items[items.length - 1]}`;
+  }
+}
+
+export const sqlExplainer = SQLExplainer.getInstance();
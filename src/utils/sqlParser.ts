@@ -0,0 +1,1322 @@
+// Lexer and recursive-descent parser for SELECT statements. The tree covers
+// what the in-browser query engine runs plus the dialect syntax models write,
+// such as window functions, INTERVAL literals and :: casts, so the validator
+// can check any generated query.
+
+export interface SourcePosition {
+  line: number;
+  column: number;
+  offset: number;
+}
+
+export interface LexToken {
+  type: 'keyword' | 'identifier' | 'string' | 'number' | 'operator' | 'punctuation' | 'comment' | 'eof';
+  value: string;
+  line: number;
+  column: number;
+  offset: number;
+  quoted?: boolean;
+}
+
+export type LiteralValue = string | number | boolean | null;
+
+export interface LiteralExpression {
+  type: 'literal';
+  value: LiteralValue;
+  position: SourcePosition;
+}
+
+export interface ColumnExpression {
+  type: 'column';
+  table?: string;
+  name: string;
+  position: SourcePosition;
+}
+
+export interface StarExpression {
+  type: 'star';
+  table?: string;
+  position: SourcePosition;
+}
+
+export interface UnaryExpression {
+  type: 'unary';
+  operator: string;
+  operand: Expression;
+  position: SourcePosition;
+}
+
+export interface BinaryExpression {
+  type: 'binary';
+  operator: string;
+  left: Expression;
+  right: Expression;
+  position: SourcePosition;
+}
+
+export interface FunctionExpression {
+  type: 'function';
+  name: string;
+  args: Expression[];
+  distinct: boolean;
+  over?: WindowSpecification; // Set for window functions
+  position: SourcePosition;
+}
+
+// OVER (PARTITION BY ... ORDER BY ... [frame]); the frame is kept as written
+export interface WindowSpecification {
+  partitionBy: Expression[];
+  orderBy: OrderByItem[];
+  frame?: string;
+}
+
+export interface CaseExpression {
+  type: 'case';
+  operand?: Expression;
+  whenClauses: { when: Expression; then: Expression }[];
+  elseResult?: Expression;
+  position: SourcePosition;
+}
+
+export interface InExpression {
+  type: 'in';
+  operand: Expression;
+  values?: Expression[];
+  subquery?: SelectStatement;
+  negated: boolean;
+  position: SourcePosition;
+}
+
+export interface BetweenExpression {
+  type: 'between';
+  operand: Expression;
+  low: Expression;
+  high: Expression;
+  negated: boolean;
+  position: SourcePosition;
+}
+
+export interface LikeExpression {
+  type: 'like';
+  operand: Expression;
+  pattern: Expression;
+  negated: boolean;
+  caseInsensitive: boolean;
+  position: SourcePosition;
+}
+
+export interface IsNullExpression {
+  type: 'isNull';
+  operand: Expression;
+  negated: boolean;
+  position: SourcePosition;
+}
+
+export interface ExistsExpression {
+  type: 'exists';
+  subquery: SelectStatement;
+  negated: boolean;
+  position: SourcePosition;
+}
+
+export interface SubqueryExpression {
+  type: 'subquery';
+  query: SelectStatement;
+  position: SourcePosition;
+}
+
+export interface CastExpression {
+  type: 'cast';
+  operand: Expression;
+  dataType: string;
+  position: SourcePosition;
+}
+
+export type Expression =
+  | LiteralExpression
+  | ColumnExpression
+  | StarExpression
+  | UnaryExpression
+  | BinaryExpression
+  | FunctionExpression
+  | CaseExpression
+  | InExpression
+  | BetweenExpression
+  | LikeExpression
+  | IsNullExpression
+  | ExistsExpression
+  | SubqueryExpression
+  | CastExpression;
+
+export interface SelectItem {
+  expression: Expression;
+  alias?: string;
+}
+
+export interface TableSource {
+  type: 'table';
+  name: string;
+  alias?: string;
+  position: SourcePosition;
+}
+
+export interface DerivedTableSource {
+  type: 'derived';
+  query: SelectStatement;
+  alias: string;
+  position: SourcePosition;
+}
+
+export interface JoinSource {
+  type: 'join';
+  joinType: 'INNER' | 'LEFT' | 'RIGHT' | 'FULL' | 'CROSS';
+  left: TableReference;
+  right: TableReference;
+  on?: Expression;
+  using?: string[];
+  position: SourcePosition;
+}
+
+export type TableReference = TableSource | DerivedTableSource | JoinSource;
+
+export interface OrderByItem {
+  expression: Expression;
+  direction: 'ASC' | 'DESC';
+  nulls?: 'FIRST' | 'LAST';
+}
+
+export interface CommonTableExpression {
+  name: string;
+  columns?: string[];
+  query: SelectStatement;
+  position: SourcePosition;
+}
+
+export interface SetOperation {
+  operator: 'UNION' | 'UNION ALL' | 'EXCEPT' | 'INTERSECT';
+  query: SelectStatement;
+}
+
+export interface SelectStatement {
+  type: 'select';
+  with: CommonTableExpression[];
+  distinct: boolean;
+  columns: SelectItem[];
+  from: TableReference | null;
+  where: Expression | null;
+  groupBy: Expression[];
+  having: Expression | null;
+  setOperations: SetOperation[];
+  orderBy: OrderByItem[];
+  limit: number | null;
+  offset: number | null;
+  position: SourcePosition;
+}
+
+export class SQLSyntaxError extends Error {
+  reason: string; // The message without its position
+  line: number;
+  column: number;
+
+  constructor(message: string, position: { line: number; column: number }) {
+    super(`${message} (line ${position.line}, column ${position.column})`);
+    this.name = 'SQLSyntaxError';
+    this.reason = message;
+    this.line = position.line;
+    this.column = position.column;
+  }
+}
+
+// Reserved words; anything else that looks like a word is lexed as an identifier
+// so column names such as "year", "quarter" or "type" keep working.
+const RESERVED_KEYWORDS = new Set([
+  'SELECT', 'FROM', 'WHERE', 'GROUP', 'BY', 'HAVING', 'ORDER', 'LIMIT', 'OFFSET', 'JOIN', 'INNER',
+  'LEFT', 'RIGHT', 'FULL', 'OUTER', 'CROSS', 'ON', 'USING', 'AS', 'AND', 'OR', 'NOT', 'IN', 'IS',
+  'NULL', 'LIKE', 'ILIKE', 'BETWEEN', 'CASE', 'WHEN', 'THEN', 'ELSE', 'END', 'DISTINCT', 'ALL',
+  'UNION', 'EXCEPT', 'INTERSECT', 'WITH', 'ASC', 'DESC', 'EXISTS', 'TRUE', 'FALSE'
+]);
+
+export function isReservedKeyword(word: string): boolean {
+  return RESERVED_KEYWORDS.has(word.toUpperCase());
+}
+
+const MULTI_CHAR_OPERATORS = ['<>', '!=', '<=', '>=', '||', '::'];
+
+// Units after INTERVAL n, as in MySQL and BigQuery: INTERVAL 3 MONTH
+const INTERVAL_UNITS = new Set([
+  'MICROSECOND', 'MILLISECOND', 'SECOND', 'MINUTE', 'HOUR', 'DAY', 'WEEK', 'MONTH', 'QUARTER', 'YEAR',
+  'SECONDS', 'MINUTES', 'HOURS', 'DAYS', 'WEEKS', 'MONTHS', 'QUARTERS', 'YEARS'
+]);
+
+export function tokenizeSQL(sql: string): LexToken[] {
+  const tokens: LexToken[] = [];
+  let offset = 0;
+  let line = 1;
+  let column = 1;
+
+  const advance = (count: number) => {
+    for (let i = 0; i < count; i++) {
+      if (sql[offset] === '\n') {
+        line++;
+        column = 1;
+      } else {
+        column++;
+      }
+      offset++;
+    }
+  };
+
+  while (offset < sql.length) {
+    const char = sql[offset];
+    const start = { line, column, offset };
+
+    if (/\s/.test(char)) {
+      advance(1);
+      continue;
+    }
+
+    // Line comments
+    if (char === '-' && sql[offset + 1] === '-') {
+      let end = sql.indexOf('\n', offset);
+      if (end === -1) end = sql.length;
+      tokens.push({ type: 'comment', value: sql.slice(offset, end), ...start });
+      advance(end - offset);
+      continue;
+    }
+
+    // Block comments
+    if (char === '/' && sql[offset + 1] === '*') {
+      const close = sql.indexOf('*/', offset + 2);
+      if (close === -1) {
+        throw new SQLSyntaxError('Unterminated block comment', start);
+      }
+      tokens.push({ type: 'comment', value: sql.slice(offset, close + 2), ...start });
+      advance(close + 2 - offset);
+      continue;
+    }
+
+    // String literals, with '' as an escaped quote
+    if (char === "'") {
+      let value = '';
+      let i = offset + 1;
+      while (true) {
+        if (i >= sql.length) {
+          throw new SQLSyntaxError('Unterminated string literal', start);
+        }
+        if (sql[i] === "'") {
+          if (sql[i + 1] === "'") {
+            value += "'";
+            i += 2;
+            continue;
+          }
+          break;
+        }
+        value += sql[i];
+        i++;
+      }
+      tokens.push({ type: 'string', value, ...start });
+      advance(i + 1 - offset);
+      continue;
+    }
+
+    // Quoted identifiers: "name", `name` and [name]
+    if (char === '"' || char === '`' || char === '[') {
+      const closing = char === '[' ? ']' : char;
+      const close = sql.indexOf(closing, offset + 1);
+      if (close === -1) {
+        throw new SQLSyntaxError('Unterminated quoted identifier', start);
+      }
+      tokens.push({ type: 'identifier', value: sql.slice(offset + 1, close), quoted: true, ...start });
+      advance(close + 1 - offset);
+      continue;
+    }
+
+    const numberMatch = /^(\d+(\.\d*)?|\.\d+)([eE][+-]?\d+)?/.exec(sql.slice(offset));
+    if (numberMatch) {
+      tokens.push({ type: 'number', value: numberMatch[0], ...start });
+      advance(numberMatch[0].length);
+      continue;
+    }
+
+    const wordMatch = /^[A-Za-z_][A-Za-z0-9_$]*/.exec(sql.slice(offset));
+    if (wordMatch) {
+      const word = wordMatch[0];
+      const upper = word.toUpperCase();
+      if (RESERVED_KEYWORDS.has(upper)) {
+        tokens.push({ type: 'keyword', value: upper, ...start });
+      } else {
+        tokens.push({ type: 'identifier', value: word, ...start });
+      }
+      advance(word.length);
+      continue;
+    }
+
+    const twoChars = sql.slice(offset, offset + 2);
+    if (MULTI_CHAR_OPERATORS.includes(twoChars)) {
+      tokens.push({ type: 'operator', value: twoChars, ...start });
+      advance(2);
+      continue;
+    }
+
+    if ('+-*/%=<>'.includes(char)) {
+      tokens.push({ type: 'operator', value: char, ...start });
+      advance(1);
+      continue;
+    }
+
+    if ('(),.;'.includes(char)) {
+      tokens.push({ type: 'punctuation', value: char, ...start });
+      advance(1);
+      continue;
+    }
+
+    throw new SQLSyntaxError(`Unexpected character '${char}'`, start);
+  }
+
+  tokens.push({ type: 'eof', value: '', line, column, offset });
+  return tokens;
+}
+
+class Parser {
+  private tokens: LexToken[];
+  private index = 0;
+
+  constructor(sql: string) {
+    this.tokens = tokenizeSQL(sql).filter(token => token.type !== 'comment');
+  }
+
+  parseStatement(): SelectStatement {
+    const statement = this.parseQuery();
+    while (this.matchPunctuation(';')) {
+      // Allow trailing semicolons
+    }
+    if (this.peek().type !== 'eof') {
+      this.fail(`Unexpected ${this.describe(this.peek())}`);
+    }
+    return statement;
+  }
+
+  // query := [WITH ...] select-core (set-op select-core)* [ORDER BY ...]
+  //          [LIMIT n [OFFSET m] | OFFSET m [ROWS] [FETCH {FIRST|NEXT} n {ROW|ROWS} ONLY]]
+  private parseQuery(): SelectStatement {
+    const position = this.position();
+    const ctes: CommonTableExpression[] = [];
+
+    if (this.matchKeyword('WITH')) {
+      do {
+        const ctePosition = this.position();
+        const name = this.expectIdentifier();
+        let columns: string[] | undefined;
+        if (this.matchPunctuation('(')) {
+          columns = this.parseIdentifierList();
+          this.expectPunctuation(')');
+        }
+        this.expectKeyword('AS');
+        this.expectPunctuation('(');
+        const query = this.parseQuery();
+        this.expectPunctuation(')');
+        ctes.push({ name, columns, query, position: ctePosition });
+      } while (this.matchPunctuation(','));
+    }
+
+    const statement = this.parseSelectCore(position);
+    statement.with = ctes;
+
+    while (this.isKeyword('UNION') || this.isKeyword('EXCEPT') || this.isKeyword('INTERSECT')) {
+      const keyword = this.next().value;
+      let operator: SetOperation['operator'] = keyword as SetOperation['operator'];
+      if (keyword === 'UNION' && this.matchKeyword('ALL')) {
+        operator = 'UNION ALL';
+      } else {
+        this.matchKeyword('DISTINCT');
+      }
+      const query = this.parseSetOperand();
+      statement.setOperations.push({ operator, query });
+    }
+
+    if (this.matchKeyword('ORDER')) {
+      this.expectKeyword('BY');
+      statement.orderBy = this.parseOrderByList();
+    }
+
+    if (this.matchKeyword('LIMIT')) {
+      statement.limit = this.parseNonNegativeInteger('LIMIT');
+      if (this.matchPunctuation(',')) {
+        // MySQL style: LIMIT offset, count
+        statement.offset = statement.limit;
+        statement.limit = this.parseNonNegativeInteger('LIMIT');
+      }
+    }
+
+    if (this.matchKeyword('OFFSET')) {
+      statement.offset = this.parseNonNegativeInteger('OFFSET');
+      if (!this.matchWord('ROWS')) this.matchWord('ROW');
+    }
+
+    // SQL Server / ANSI paging: [OFFSET m ROWS] FETCH NEXT n ROWS ONLY
+    if (this.matchWord('FETCH')) {
+      if (!this.matchWord('NEXT') && !this.matchWord('FIRST')) {
+        this.fail(`Expected NEXT or FIRST but found ${this.describe(this.peek())}`);
+      }
+      statement.limit = this.parseNonNegativeInteger('FETCH');
+      if (!this.matchWord('ROWS') && !this.matchWord('ROW')) {
+        this.fail(`Expected ROWS but found ${this.describe(this.peek())}`);
+      }
+      if (!this.matchWord('ONLY')) {
+        this.fail(`Expected ONLY but found ${this.describe(this.peek())}`);
+      }
+    }
+
+    return statement;
+  }
+
+  private parseSetOperand(): SelectStatement {
+    if (this.matchPunctuation('(')) {
+      const query = this.parseQuery();
+      this.expectPunctuation(')');
+      return query;
+    }
+    return this.parseSelectCore(this.position());
+  }
+
+  private parseSelectCore(position: SourcePosition): SelectStatement {
+    this.expectKeyword('SELECT');
+
+    const statement: SelectStatement = {
+      type: 'select',
+      with: [],
+      distinct: false,
+      columns: [],
+      from: null,
+      where: null,
+      groupBy: [],
+      having: null,
+      setOperations: [],
+      orderBy: [],
+      limit: null,
+      offset: null,
+      position
+    };
+
+    if (this.matchKeyword('DISTINCT')) {
+      statement.distinct = true;
+    } else {
+      this.matchKeyword('ALL');
+    }
+
+    // SQL Server: SELECT TOP n / TOP (n)
+    const afterTop = this.peek(1);
+    if (this.isWord('TOP') && (afterTop.type === 'number' || afterTop.value === '(')) {
+      this.next();
+      const parenthesized = this.matchPunctuation('(');
+      statement.limit = this.parseNonNegativeInteger('TOP');
+      if (parenthesized) this.expectPunctuation(')');
+    }
+
+    do {
+      statement.columns.push(this.parseSelectItem());
+    } while (this.matchPunctuation(','));
+
+    if (this.matchKeyword('FROM')) {
+      statement.from = this.parseFromClause();
+    }
+
+    if (this.matchKeyword('WHERE')) {
+      statement.where = this.parseExpression();
+    }
+
+    if (this.matchKeyword('GROUP')) {
+      this.expectKeyword('BY');
+      do {
+        statement.groupBy.push(this.parseExpression());
+      } while (this.matchPunctuation(','));
+    }
+
+    if (this.matchKeyword('HAVING')) {
+      statement.having = this.parseExpression();
+    }
+
+    return statement;
+  }
+
+  private parseSelectItem(): SelectItem {
+    const expression = this.parseExpression();
+    const alias = this.parseOptionalAlias();
+    return alias ? { expression, alias } : { expression };
+  }
+
+  private parseOptionalAlias(): string | undefined {
+    if (this.matchKeyword('AS')) {
+      const token = this.peek();
+      if (token.type === 'string') {
+        this.next();
+        return token.value;
+      }
+      return this.expectIdentifier();
+    }
+    if (this.peek().type === 'identifier') {
+      return this.next().value;
+    }
+    return undefined;
+  }
+
+  private parseFromClause(): TableReference {
+    let source = this.parseJoinedTable();
+    while (this.matchPunctuation(',')) {
+      const right = this.parseJoinedTable();
+      source = { type: 'join', joinType: 'CROSS', left: source, right, position: right.position };
+    }
+    return source;
+  }
+
+  private parseJoinedTable(): TableReference {
+    let source = this.parseTablePrimary();
+
+    while (true) {
+      const position = this.position();
+      let joinType: JoinSource['joinType'] | null = null;
+
+      if (this.matchKeyword('JOIN')) {
+        joinType = 'INNER';
+      } else if (this.matchKeyword('INNER')) {
+        this.expectKeyword('JOIN');
+        joinType = 'INNER';
+      } else if (this.isKeyword('LEFT') || this.isKeyword('RIGHT') || this.isKeyword('FULL')) {
+        joinType = this.next().value as JoinSource['joinType'];
+        this.matchKeyword('OUTER');
+        this.expectKeyword('JOIN');
+      } else if (this.matchKeyword('CROSS')) {
+        this.expectKeyword('JOIN');
+        joinType = 'CROSS';
+      }
+
+      if (!joinType) {
+        return source;
+      }
+
+      const right = this.parseTablePrimary();
+      const join: JoinSource = { type: 'join', joinType, left: source, right, position };
+
+      if (joinType !== 'CROSS') {
+        if (this.matchKeyword('ON')) {
+          join.on = this.parseExpression();
+        } else if (this.matchKeyword('USING')) {
+          this.expectPunctuation('(');
+          join.using = this.parseIdentifierList();
+          this.expectPunctuation(')');
+        } else {
+          this.fail(`Expected ON or USING after ${joinType} JOIN`);
+        }
+      }
+
+      source = join;
+    }
+  }
+
+  private parseTablePrimary(): TableReference {
+    const position = this.position();
+
+    if (this.matchPunctuation('(')) {
+      if (this.isKeyword('SELECT') || this.isKeyword('WITH')) {
+        const query = this.parseQuery();
+        this.expectPunctuation(')');
+        const alias = this.parseOptionalAlias();
+        if (!alias) {
+          this.fail('Subquery in FROM must have an alias');
+        }
+        return { type: 'derived', query, alias: alias as string, position };
+      }
+      const nested = this.parseFromClause();
+      this.expectPunctuation(')');
+      return nested;
+    }
+
+    let name = this.expectIdentifier();
+    // Qualified names such as schema.table keep only the table part
+    while (this.matchPunctuation('.')) {
+      name = this.expectIdentifier();
+    }
+    const alias = this.parseOptionalAlias();
+    return alias ? { type: 'table', name, alias, position } : { type: 'table', name, position };
+  }
+
+  private parseOrderByList(): OrderByItem[] {
+    const items: OrderByItem[] = [];
+    do {
+      const expression = this.parseExpression();
+      let direction: OrderByItem['direction'] = 'ASC';
+      if (this.matchKeyword('DESC')) {
+        direction = 'DESC';
+      } else {
+        this.matchKeyword('ASC');
+      }
+      const item: OrderByItem = { expression, direction };
+      if (this.matchWord('NULLS')) {
+        if (this.matchWord('FIRST')) {
+          item.nulls = 'FIRST';
+        } else if (this.matchWord('LAST')) {
+          item.nulls = 'LAST';
+        } else {
+          this.fail(`Expected FIRST or LAST but found ${this.describe(this.peek())}`);
+        }
+      }
+      items.push(item);
+    } while (this.matchPunctuation(','));
+    return items;
+  }
+
+  private parseIdentifierList(): string[] {
+    const names: string[] = [];
+    do {
+      names.push(this.expectIdentifier());
+    } while (this.matchPunctuation(','));
+    return names;
+  }
+
+  // Expression grammar, lowest precedence first
+  private parseExpression(): Expression {
+    return this.parseOr();
+  }
+
+  private parseOr(): Expression {
+    let left = this.parseAnd();
+    while (this.isKeyword('OR')) {
+      const position = this.position();
+      this.next();
+      left = { type: 'binary', operator: 'OR', left, right: this.parseAnd(), position };
+    }
+    return left;
+  }
+
+  private parseAnd(): Expression {
+    let left = this.parseNot();
+    while (this.isKeyword('AND')) {
+      const position = this.position();
+      this.next();
+      left = { type: 'binary', operator: 'AND', left, right: this.parseNot(), position };
+    }
+    return left;
+  }
+
+  private parseNot(): Expression {
+    if (this.isKeyword('NOT')) {
+      const position = this.position();
+      this.next();
+      if (this.isKeyword('EXISTS')) {
+        const exists = this.parsePrimary() as ExistsExpression;
+        return { ...exists, negated: true };
+      }
+      return { type: 'unary', operator: 'NOT', operand: this.parseNot(), position };
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): Expression {
+    const left = this.parseAdditive();
+    const position = this.position();
+
+    if (this.peek().type === 'operator' && ['=', '<>', '!=', '<', '>', '<=', '>='].includes(this.peek().value)) {
+      const operator = this.next().value;
+      const right = this.parseAdditive();
+      return { type: 'binary', operator: operator === '!=' ? '<>' : operator, left, right, position };
+    }
+
+    if (this.matchKeyword('IS')) {
+      const negated = this.matchKeyword('NOT');
+      this.expectKeyword('NULL');
+      return { type: 'isNull', operand: left, negated, position };
+    }
+
+    const negated = this.matchKeyword('NOT');
+
+    if (this.matchKeyword('IN')) {
+      this.expectPunctuation('(');
+      if (this.isKeyword('SELECT') || this.isKeyword('WITH')) {
+        const subquery = this.parseQuery();
+        this.expectPunctuation(')');
+        return { type: 'in', operand: left, subquery, negated, position };
+      }
+      const values: Expression[] = [];
+      do {
+        values.push(this.parseExpression());
+      } while (this.matchPunctuation(','));
+      this.expectPunctuation(')');
+      return { type: 'in', operand: left, values, negated, position };
+    }
+
+    if (this.matchKeyword('BETWEEN')) {
+      const low = this.parseAdditive();
+      this.expectKeyword('AND');
+      const high = this.parseAdditive();
+      return { type: 'between', operand: left, low, high, negated, position };
+    }
+
+    if (this.isKeyword('LIKE') || this.isKeyword('ILIKE')) {
+      const caseInsensitive = this.next().value === 'ILIKE';
+      const pattern = this.parseAdditive();
+      return { type: 'like', operand: left, pattern, negated, caseInsensitive, position };
+    }
+
+    if (negated) {
+      this.fail('Expected IN, BETWEEN or LIKE after NOT');
+    }
+
+    return left;
+  }
+
+  private parseAdditive(): Expression {
+    let left = this.parseMultiplicative();
+    while (this.peek().type === 'operator' && ['+', '-', '||'].includes(this.peek().value)) {
+      const position = this.position();
+      const operator = this.next().value;
+      left = { type: 'binary', operator, left, right: this.parseMultiplicative(), position };
+    }
+    return left;
+  }
+
+  private parseMultiplicative(): Expression {
+    let left = this.parseUnary();
+    while (this.peek().type === 'operator' && ['*', '/', '%'].includes(this.peek().value)) {
+      const position = this.position();
+      const operator = this.next().value;
+      left = { type: 'binary', operator, left, right: this.parseUnary(), position };
+    }
+    return left;
+  }
+
+  private parseUnary(): Expression {
+    if (this.peek().type === 'operator' && (this.peek().value === '-' || this.peek().value === '+')) {
+      const position = this.position();
+      const operator = this.next().value;
+      const operand = this.parseUnary();
+      if (operator === '+') return operand;
+      if (operand.type === 'literal' && typeof operand.value === 'number') {
+        return { ...operand, value: -operand.value, position };
+      }
+      return { type: 'unary', operator: '-', operand, position };
+    }
+    return this.parsePostfix();
+  }
+
+  // PostgreSQL casts: value::type
+  private parsePostfix(): Expression {
+    let expression = this.parsePrimary();
+    while (this.peek().type === 'operator' && this.peek().value === '::') {
+      const position = this.position();
+      this.next();
+      expression = { type: 'cast', operand: expression, dataType: this.parseDataType(), position };
+    }
+    return expression;
+  }
+
+  private parsePrimary(): Expression {
+    const token = this.peek();
+    const position = this.position();
+
+    if (token.type === 'number') {
+      this.next();
+      return { type: 'literal', value: Number(token.value), position };
+    }
+
+    if (token.type === 'string') {
+      this.next();
+      return { type: 'literal', value: token.value, position };
+    }
+
+    if (token.type === 'keyword') {
+      switch (token.value) {
+        case 'NULL':
+          this.next();
+          return { type: 'literal', value: null, position };
+        case 'TRUE':
+        case 'FALSE':
+          this.next();
+          return { type: 'literal', value: token.value === 'TRUE', position };
+        case 'CASE':
+          return this.parseCase();
+        case 'EXISTS': {
+          this.next();
+          this.expectPunctuation('(');
+          const subquery = this.parseQuery();
+          this.expectPunctuation(')');
+          return { type: 'exists', subquery, negated: false, position };
+        }
+        case 'LEFT':
+        case 'RIGHT':
+          // LEFT(str, n) and RIGHT(str, n) are functions when followed by '('
+          if (this.peek(1).value === '(') {
+            this.next();
+            return this.parseFunctionCall(token.value, position);
+          }
+          break;
+      }
+    }
+
+    if (token.type === 'operator' && token.value === '*') {
+      this.next();
+      return { type: 'star', position };
+    }
+
+    if (token.type === 'punctuation' && token.value === '(') {
+      this.next();
+      if (this.isKeyword('SELECT') || this.isKeyword('WITH')) {
+        const query = this.parseQuery();
+        this.expectPunctuation(')');
+        return { type: 'subquery', query, position };
+      }
+      const inner = this.parseExpression();
+      this.expectPunctuation(')');
+      return inner;
+    }
+
+    if (token.type === 'identifier') {
+      this.next();
+      const upper = token.value.toUpperCase();
+
+      if (!token.quoted && this.peek().value === '(' && this.peek().type === 'punctuation') {
+        if (upper === 'CAST') {
+          return this.parseCast(position);
+        }
+        if (upper === 'EXTRACT') {
+          return this.parseExtract(position);
+        }
+        return this.parseFunctionCall(upper, position);
+      }
+
+      if (!token.quoted && upper === 'INTERVAL' && ['string', 'number'].includes(this.peek().type)) {
+        return this.parseInterval(position);
+      }
+
+      // Typed literals such as DATE '2025-01-01'
+      if (!token.quoted && ['DATE', 'TIMESTAMP'].includes(upper) && this.peek().type === 'string') {
+        return { type: 'literal', value: this.next().value, position };
+      }
+
+      if (!token.quoted && ['CURRENT_DATE', 'CURRENT_TIMESTAMP'].includes(upper)) {
+        return { type: 'function', name: upper, args: [], distinct: false, position };
+      }
+
+      if (this.matchPunctuation('.')) {
+        if (this.peek().type === 'operator' && this.peek().value === '*') {
+          this.next();
+          return { type: 'star', table: token.value, position };
+        }
+        let name = this.expectIdentifier();
+        let table = token.value;
+        // schema.table.column keeps the last two parts
+        while (this.matchPunctuation('.')) {
+          table = name;
+          name = this.expectIdentifier();
+        }
+        return { type: 'column', table, name, position };
+      }
+
+      return { type: 'column', name: token.value, position };
+    }
+
+    return this.fail(`Unexpected ${this.describe(token)}`);
+  }
+
+  private parseFunctionCall(name: string, position: SourcePosition): FunctionExpression {
+    this.expectPunctuation('(');
+    const args: Expression[] = [];
+    let distinct = false;
+
+    if (!this.matchPunctuation(')')) {
+      if (this.matchKeyword('DISTINCT')) {
+        distinct = true;
+      } else {
+        this.matchKeyword('ALL');
+      }
+      do {
+        args.push(this.parseExpression());
+      } while (this.matchPunctuation(','));
+      this.expectPunctuation(')');
+    }
+
+    const call: FunctionExpression = { type: 'function', name, args, distinct, position };
+    if (this.isWord('OVER') && this.peek(1).value === '(') {
+      this.next();
+      call.over = this.parseWindowSpecification();
+    }
+    return call;
+  }
+
+  private parseWindowSpecification(): WindowSpecification {
+    this.expectPunctuation('(');
+    const window: WindowSpecification = { partitionBy: [], orderBy: [] };
+
+    if (this.matchWord('PARTITION')) {
+      this.expectKeyword('BY');
+      do {
+        window.partitionBy.push(this.parseExpression());
+      } while (this.matchPunctuation(','));
+    }
+
+    if (this.matchKeyword('ORDER')) {
+      this.expectKeyword('BY');
+      window.orderBy = this.parseOrderByList();
+    }
+
+    // ROWS BETWEEN UNBOUNDED PRECEDING AND CURRENT ROW and the like
+    if (this.isWord('ROWS') || this.isWord('RANGE') || this.isWord('GROUPS')) {
+      const words: string[] = [];
+      while (this.peek().type !== 'eof' && !(this.peek().type === 'punctuation' && this.peek().value === ')')) {
+        words.push(this.next().value.toUpperCase());
+      }
+      window.frame = words.join(' ');
+    }
+
+    this.expectPunctuation(')');
+    return window;
+  }
+
+  // INTERVAL '3 months', INTERVAL '1' DAY or INTERVAL 3 MONTH, kept as an
+  // INTERVAL(value[, unit]) call in the way EXTRACT keeps its date part
+  private parseInterval(position: SourcePosition): FunctionExpression {
+    const token = this.next();
+    const args: Expression[] = [{
+      type: 'literal',
+      value: token.type === 'number' ? Number(token.value) : token.value,
+      position
+    }];
+    if (this.peek().type === 'identifier' && INTERVAL_UNITS.has(this.peek().value.toUpperCase())) {
+      args.push({ type: 'literal', value: this.next().value.toUpperCase(), position });
+    }
+    return { type: 'function', name: 'INTERVAL', args, distinct: false, position };
+  }
+
+  private parseCast(position: SourcePosition): CastExpression {
+    this.expectPunctuation('(');
+    const operand = this.parseExpression();
+    this.expectKeyword('AS');
+    const dataType = this.parseDataType();
+    this.expectPunctuation(')');
+    return { type: 'cast', operand, dataType, position };
+  }
+
+  // Type names such as DATE, VARCHAR(20), NUMERIC(10,2) or DOUBLE PRECISION
+  private parseDataType(): string {
+    let dataType = this.expectIdentifier().toUpperCase();
+    if (dataType === 'DOUBLE' && this.matchWord('PRECISION')) {
+      dataType = 'DOUBLE PRECISION';
+    }
+    if (this.matchPunctuation('(')) {
+      const params: string[] = [];
+      do {
+        params.push(this.next().value);
+      } while (this.matchPunctuation(','));
+      this.expectPunctuation(')');
+      dataType += `(${params.join(',')})`;
+    }
+    return dataType;
+  }
+
+  private parseExtract(position: SourcePosition): FunctionExpression {
+    this.expectPunctuation('(');
+    const part = this.expectIdentifier().toUpperCase();
+    this.expectKeyword('FROM');
+    const source = this.parseExpression();
+    this.expectPunctuation(')');
+    return {
+      type: 'function',
+      name: 'EXTRACT',
+      args: [{ type: 'literal', value: part, position }, source],
+      distinct: false,
+      position
+    };
+  }
+
+  private parseCase(): CaseExpression {
+    const position = this.position();
+    this.expectKeyword('CASE');
+    const expression: CaseExpression = { type: 'case', whenClauses: [], position };
+
+    if (!this.isKeyword('WHEN')) {
+      expression.operand = this.parseExpression();
+    }
+
+    while (this.matchKeyword('WHEN')) {
+      const when = this.parseExpression();
+      this.expectKeyword('THEN');
+      const then = this.parseExpression();
+      expression.whenClauses.push({ when, then });
+    }
+
+    if (expression.whenClauses.length === 0) {
+      this.fail('CASE requires at least one WHEN clause');
+    }
+
+    if (this.matchKeyword('ELSE')) {
+      expression.elseResult = this.parseExpression();
+    }
+
+    this.expectKeyword('END');
+    return expression;
+  }
+
+  private parseNonNegativeInteger(clause: string): number {
+    const token = this.peek();
+    if (token.type !== 'number' || !/^\d+$/.test(token.value)) {
+      this.fail(`${clause} expects a whole number`);
+    }
+    this.next();
+    return parseInt(token.value, 10);
+  }
+
+  // Token helpers
+  private peek(ahead: number = 0): LexToken {
+    return this.tokens[Math.min(this.index + ahead, this.tokens.length - 1)];
+  }
+
+  private next(): LexToken {
+    const token = this.peek();
+    if (token.type !== 'eof') this.index++;
+    return token;
+  }
+
+  private position(): SourcePosition {
+    const token = this.peek();
+    return { line: token.line, column: token.column, offset: token.offset };
+  }
+
+  private isKeyword(keyword: string): boolean {
+    const token = this.peek();
+    return token.type === 'keyword' && token.value === keyword;
+  }
+
+  private matchKeyword(keyword: string): boolean {
+    if (this.isKeyword(keyword)) {
+      this.next();
+      return true;
+    }
+    return false;
+  }
+
+  private expectKeyword(keyword: string): void {
+    if (!this.matchKeyword(keyword)) {
+      this.fail(`Expected ${keyword} but found ${this.describe(this.peek())}`);
+    }
+  }
+
+  // Unreserved words such as TOP, ROWS or FETCH lex as identifiers
+  private isWord(word: string): boolean {
+    const token = this.peek();
+    return token.type === 'identifier' && !token.quoted && token.value.toUpperCase() === word;
+  }
+
+  private matchWord(word: string): boolean {
+    if (this.isWord(word)) {
+      this.next();
+      return true;
+    }
+    return false;
+  }
+
+  private matchPunctuation(value: string): boolean {
+    const token = this.peek();
+    if (token.type === 'punctuation' && token.value === value) {
+      this.next();
+      return true;
+    }
+    return false;
+  }
+
+  private expectPunctuation(value: string): void {
+    if (!this.matchPunctuation(value)) {
+      this.fail(`Expected '${value}' but found ${this.describe(this.peek())}`);
+    }
+  }
+
+  private expectIdentifier(): string {
+    const token = this.peek();
+    if (token.type !== 'identifier') {
+      this.fail(`Expected identifier but found ${this.describe(token)}`);
+    }
+    this.next();
+    return token.value;
+  }
+
+  private describe(token: LexToken): string {
+    if (token.type === 'eof') return 'end of query';
+    return `'${token.value}'`;
+  }
+
+  private fail(message: string): never {
+    throw new SQLSyntaxError(message, this.peek());
+  }
+}
+
+export function parseSQL(sql: string): SelectStatement {
+  return new Parser(sql).parseStatement();
+}
+
+// Render an expression back to SQL text, used for default column labels
+export function expressionToSQL(expression: Expression): string {
+  switch (expression.type) {
+    case 'literal':
+      if (expression.value === null) return 'NULL';
+      if (typeof expression.value === 'string') return `'${expression.value.replace(/'/g, "''")}'`;
+      if (typeof expression.value === 'boolean') return expression.value ? 'TRUE' : 'FALSE';
+      return String(expression.value);
+    case 'column':
+      return expression.table ? `${expression.table}.${expression.name}` : expression.name;
+    case 'star':
+      return expression.table ? `${expression.table}.*` : '*';
+    case 'unary':
+      return expression.operator === 'NOT'
+        ? `NOT ${expressionToSQL(expression.operand)}`
+        : `-${expressionToSQL(expression.operand)}`;
+    case 'binary':
+      return `${expressionToSQL(expression.left)} ${expression.operator} ${expressionToSQL(expression.right)}`;
+    case 'function':
+      if (expression.name === 'EXTRACT' && expression.args.length === 2) {
+        return `EXTRACT(${(expression.args[0] as LiteralExpression).value} FROM ${expressionToSQL(expression.args[1])})`;
+      }
+      if (['CURRENT_DATE', 'CURRENT_TIMESTAMP'].includes(expression.name) && expression.args.length === 0) {
+        return expression.name;
+      }
+      if (expression.name === 'INTERVAL' && expression.args[0]?.type === 'literal') {
+        const unit = expression.args[1]?.type === 'literal' ? ` ${expression.args[1].value}` : '';
+        return `INTERVAL ${expressionToSQL(expression.args[0])}${unit}`;
+      }
+      return `${expression.name}(${expression.distinct ? 'DISTINCT ' : ''}${expression.args.map(expressionToSQL).join(', ')})` +
+        (expression.over ? ` OVER (${windowToSQL(expression.over)})` : '');
+    case 'case': {
+      const parts = ['CASE'];
+      if (expression.operand) parts.push(expressionToSQL(expression.operand));
+      expression.whenClauses.forEach(clause => {
+        parts.push(`WHEN ${expressionToSQL(clause.when)} THEN ${expressionToSQL(clause.then)}`);
+      });
+      if (expression.elseResult) parts.push(`ELSE ${expressionToSQL(expression.elseResult)}`);
+      parts.push('END');
+      return parts.join(' ');
+    }
+    case 'in': {
+      const list = expression.subquery ? '(subquery)' : `(${(expression.values || []).map(expressionToSQL).join(', ')})`;
+      return `${expressionToSQL(expression.operand)} ${expression.negated ? 'NOT IN' : 'IN'} ${list}`;
+    }
+    case 'between':
+      return `${expressionToSQL(expression.operand)} ${expression.negated ? 'NOT BETWEEN' : 'BETWEEN'} ` +
+        `${expressionToSQL(expression.low)} AND ${expressionToSQL(expression.high)}`;
+    case 'like': {
+      const keyword = expression.caseInsensitive ? 'ILIKE' : 'LIKE';
+      return `${expressionToSQL(expression.operand)} ${expression.negated ? `NOT ${keyword}` : keyword} ${expressionToSQL(expression.pattern)}`;
+    }
+    case 'isNull':
+      return `${expressionToSQL(expression.operand)} IS ${expression.negated ? 'NOT NULL' : 'NULL'}`;
+    case 'exists':
+      return `${expression.negated ? 'NOT EXISTS' : 'EXISTS'} (subquery)`;
+    case 'subquery':
+      return '(subquery)';
+    case 'cast':
+      return `CAST(${expressionToSQL(expression.operand)} AS ${expression.dataType})`;
+  }
+}
+
+function windowToSQL(window: WindowSpecification): string {
+  const parts: string[] = [];
+  if (window.partitionBy.length > 0) {
+    parts.push(`PARTITION BY ${window.partitionBy.map(expressionToSQL).join(', ')}`);
+  }
+  if (window.orderBy.length > 0) {
+    parts.push(`ORDER BY ${window.orderBy.map(item => `${expressionToSQL(item.expression)} ${item.direction}`).join(', ')}`);
+  }
+  if (window.frame) parts.push(window.frame);
+  return parts.join(' ');
+}
+
+// Visits every SELECT in a statement: CTEs, set operations, derived tables
+// and subqueries. Callbacks receive the SELECT they belong to and how deeply
+// it is nested, with 0 for the outermost query.
+export interface SQLVisitor {
+  statement?: (statement: SelectStatement, depth: number) => void;
+  table?: (source: TableSource, statement: SelectStatement, depth: number) => void;
+  expression?: (expression: Expression, statement: SelectStatement, depth: number) => void;
+}
+
+export function walkStatement(statement: SelectStatement, visitor: SQLVisitor, depth: number = 0): void {
+  visitor.statement?.(statement, depth);
+  const visit = (expression: Expression | null | undefined) => {
+    if (expression) walkExpression(expression, statement, visitor, depth);
+  };
+
+  statement.with.forEach(cte => walkStatement(cte.query, visitor, depth + 1));
+  statement.columns.forEach(item => visit(item.expression));
+  if (statement.from) walkTableReference(statement.from, statement, visitor, depth);
+  visit(statement.where);
+  statement.groupBy.forEach(visit);
+  visit(statement.having);
+  statement.setOperations.forEach(operation => walkStatement(operation.query, visitor, depth));
+  statement.orderBy.forEach(item => visit(item.expression));
+}
+
+function walkTableReference(source: TableReference, statement: SelectStatement, visitor: SQLVisitor, depth: number): void {
+  switch (source.type) {
+    case 'table':
+      visitor.table?.(source, statement, depth);
+      break;
+    case 'derived':
+      walkStatement(source.query, visitor, depth + 1);
+      break;
+    case 'join':
+      walkTableReference(source.left, statement, visitor, depth);
+      walkTableReference(source.right, statement, visitor, depth);
+      if (source.on) walkExpression(source.on, statement, visitor, depth);
+      break;
+  }
+}
+
+function walkExpression(expression: Expression, statement: SelectStatement, visitor: SQLVisitor, depth: number): void {
+  visitor.expression?.(expression, statement, depth);
+  childExpressions(expression).forEach(child => walkExpression(child, statement, visitor, depth));
+  const subquery = expressionSubquery(expression);
+  if (subquery) walkStatement(subquery, visitor, depth + 1);
+}
+
+// The direct operands of an expression, including the PARTITION BY and
+// ORDER BY of a window function, but not the contents of subqueries
+export function childExpressions(expression: Expression): Expression[] {
+  switch (expression.type) {
+    case 'unary':
+    case 'isNull':
+    case 'cast':
+      return [expression.operand];
+    case 'binary':
+      return [expression.left, expression.right];
+    case 'function':
+      return [
+        ...expression.args,
+        ...(expression.over?.partitionBy || []),
+        ...(expression.over?.orderBy.map(item => item.expression) || [])
+      ];
+    case 'case':
+      return [
+        ...(expression.operand ? [expression.operand] : []),
+        ...expression.whenClauses.flatMap(clause => [clause.when, clause.then]),
+        ...(expression.elseResult ? [expression.elseResult] : [])
+      ];
+    case 'in':
+      return [expression.operand, ...(expression.values || [])];
+    case 'between':
+      return [expression.operand, expression.low, expression.high];
+    case 'like':
+      return [expression.operand, expression.pattern];
+    default:
+      return [];
+  }
+}
+
+// The query of an IN (SELECT ...), EXISTS or scalar subquery
+export function expressionSubquery(expression: Expression): SelectStatement | null {
+  switch (expression.type) {
+    case 'in':
+      return expression.subquery || null;
+    case 'exists':
+      return expression.subquery;
+    case 'subquery':
+      return expression.query;
+    default:
+      return null;
+  }
+}
@@ -1,9 +1,29 @@
+import { SQLDialect, getDialect } from './sqlDialects';
+import {
+  parseSQL,
+  tokenizeSQL,
+  walkStatement,
+  expressionToSQL,
+  childExpressions,
+  expressionSubquery,
+  LexToken,
+  SelectStatement,
+  TableReference,
+  Expression,
+  ColumnExpression,
+  FunctionExpression,
+  SourcePosition,
+  SQLSyntaxError
+} from './sqlParser';
+import { LINT_RULES, LintSeverity, getLintSeverity, parseLintDirectives } from './lintRules';
+
 export interface ValidationError {
   type: 'error' | 'warning' | 'info';
   message: string;
   line?: number;
   column?: number;
   suggestion?: string;
+  rule?: string; // ID of the lint rule that reported it
 }
 
 export interface ValidationResult {
@@ -14,22 +34,182 @@ export interface ValidationResult {
   performanceHints: string[];
 }
 
-export interface SQLToken {
-  type: 'keyword' | 'identifier' | 'string' | 'number' | 'operator' | 'punctuation' | 'comment';
-  value: string;
+export type StatementType =
+  | 'select' | 'insert' | 'update' | 'delete' | 'merge'
+  | 'create' | 'alter' | 'drop' | 'truncate' | 'grant' | 'execute' | 'other';
+
+export const STATEMENT_TYPE_LABELS: Record<StatementType, string> = {
+  select: 'SELECT (read-only)',
+  insert: 'INSERT',
+  update: 'UPDATE',
+  delete: 'DELETE',
+  merge: 'MERGE',
+  create: 'CREATE',
+  alter: 'ALTER',
+  drop: 'DROP',
+  truncate: 'TRUNCATE',
+  grant: 'GRANT / REVOKE',
+  execute: 'EXEC / CALL',
+  other: 'Other statements'
+};
+
+// Which statements may run or be exported for a schema. Anything not listed
+// is blocked, and so is more than one statement unless stacking is allowed.
+export interface SafetyPolicy {
+  allowedStatements: StatementType[];
+  allowMultipleStatements?: boolean;
+}
+
+export const DEFAULT_SAFETY_POLICY: SafetyPolicy = {
+  allowedStatements: ['select'],
+  allowMultipleStatements: false
+};
+
+export interface ClassifiedStatement {
+  type: StatementType;
+  keyword: string; // The words that decided the type, e.g. DROP or SELECT INTO
   line: number;
   column: number;
 }
 
+// Thrown when SQL is about to run or be exported but the safety policy blocks
+// it. `unparsed` means the SQL couldn't be read, not that it is destructive.
+export class UnsafeSQLError extends Error {
+  constructor(readonly violations: ValidationError[], readonly unparsed: boolean = false) {
+    super(violations[0]?.message || 'The SQL is blocked by the safety policy');
+    this.name = 'UnsafeSQLError';
+  }
+}
+
+const STATEMENT_KEYWORDS: Record<string, StatementType> = {
+  SELECT: 'select',
+  WITH: 'select',
+  INSERT: 'insert',
+  REPLACE: 'insert',
+  UPSERT: 'insert',
+  UPDATE: 'update',
+  DELETE: 'delete',
+  MERGE: 'merge',
+  CREATE: 'create',
+  ALTER: 'alter',
+  RENAME: 'alter',
+  DROP: 'drop',
+  TRUNCATE: 'truncate',
+  GRANT: 'grant',
+  REVOKE: 'grant',
+  DENY: 'grant',
+  EXEC: 'execute',
+  EXECUTE: 'execute',
+  CALL: 'execute'
+};
+
+// Statements that can modify data from inside a WITH clause, as in
+// Postgres's WITH removed AS (DELETE ... RETURNING *) SELECT ...
+const DATA_MODIFYING_KEYWORDS = new Set(['INSERT', 'UPDATE', 'DELETE', 'MERGE']);
+
+const at = (position: SourcePosition) => ({ line: position.line, column: position.column });
+
+// Bare words that some functions take as arguments and that parse as column
+// references: date parts in DATEADD(month, ...) or DATE_TRUNC(d, MONTH), and
+// types in CONVERT(VARCHAR, ...). Only ignored when no column has the name.
+const NON_COLUMN_ARGUMENTS = new Set([
+  'year', 'yy', 'yyyy', 'quarter', 'qq', 'q', 'month', 'mm', 'm', 'week', 'wk', 'ww', 'isoweek', 'day', 'dd', 'd',
+  'dayofweek', 'dayofyear', 'dy', 'weekday', 'dw', 'hour', 'hh', 'minute', 'mi', 'n', 'second', 'ss', 's',
+  'millisecond', 'ms', 'microsecond', 'date', 'datetime', 'varchar', 'nvarchar', 'char', 'int', 'decimal', 'float'
+]);
+
+// Types the checker tells apart; 'unknown' is never reported
+type ValueType = 'number' | 'text' | 'date' | 'boolean' | 'interval' | 'unknown';
+
+// Maps a declared type such as DECIMAL(10,2), VARCHAR(50) or TIMESTAMP
+function toValueType(declared: string | undefined): ValueType {
+  const type = (declared || '').toUpperCase();
+  if (/INT|DECIMAL|NUMERIC|FLOAT|DOUBLE|REAL|MONEY|NUMBER/.test(type)) return 'number';
+  if (/CHAR|TEXT|STRING|CLOB/.test(type)) return 'text';
+  if (/DATE|TIME/.test(type)) return 'date';
+  if (/BOOL|BIT/.test(type)) return 'boolean';
+  return 'unknown';
+}
+
+const DATE_LITERAL = /^\d{4}-\d{2}-\d{2}([ T]\d{2}:\d{2}(:\d{2}(\.\d+)?)?)?$/;
+const NUMERIC_LITERAL = /^\s*-?\d+(\.\d+)?\s*$/;
+
+const NUMERIC_AGGREGATES = new Set(['SUM', 'AVG', 'STDDEV', 'STDDEV_POP', 'STDDEV_SAMP', 'VARIANCE', 'VAR_POP', 'VAR_SAMP']);
+const NUMERIC_FUNCTIONS = new Set(['ROUND', 'ABS', 'CEIL', 'CEILING', 'FLOOR', 'SQRT', 'POWER', 'MOD', 'LN', 'LOG', 'EXP', 'SIGN']);
+const NUMBER_RESULTS = new Set([
+  'COUNT', 'ROW_NUMBER', 'RANK', 'DENSE_RANK', 'NTILE', 'PERCENT_RANK', 'CUME_DIST', 'EXTRACT', 'DATEPART', 'DATEDIFF',
+  'DATE_DIFF', 'YEAR', 'MONTH', 'DAY', 'QUARTER', 'LENGTH', 'LEN', 'CHAR_LENGTH'
+]);
+const TEXT_RESULTS = new Set([
+  'UPPER', 'LOWER', 'TRIM', 'LTRIM', 'RTRIM', 'CONCAT', 'SUBSTRING', 'SUBSTR', 'LEFT', 'RIGHT', 'REPLACE',
+  'TO_CHAR', 'FORMAT', 'FORMAT_DATE', 'DATE_FORMAT', 'STRFTIME', 'STRING_AGG', 'GROUP_CONCAT'
+]);
+const DATE_RESULTS = new Set([
+  'CURRENT_DATE', 'CURRENT_TIMESTAMP', 'NOW', 'GETDATE', 'CURDATE', 'DATE_TRUNC', 'DATETRUNC', 'DATE_ADD', 'DATE_SUB',
+  'DATEADD', 'DATEFROMPARTS', 'TIMESTAMP_TRUNC', 'TO_DATE', 'DATE'
+]);
+// Functions whose result has the type of their first argument
+const PASS_THROUGH_RESULTS = new Set(['MIN', 'MAX', 'COALESCE', 'IFNULL', 'ISNULL', 'NVL', 'NULLIF', 'LAG', 'LEAD', 'FIRST_VALUE', 'LAST_VALUE']);
+
+const COMPARISON_OPERATORS = new Set(['=', '<>', '<', '>', '<=', '>=']);
+const ARITHMETIC_OPERATORS = new Set(['+', '-', '*', '/', '%']);
+
+interface ScopeColumn {
+  name: string;
+  type: ValueType;
+  declaredType?: string; // As written in the schema, for messages
+}
+
+// A table, CTE or derived table visible in a SELECT, under the name queries
+// use for it. Columns are null when they can't be known, such as for a table
+// missing from the schema.
+interface ScopeRelation {
+  name: string;
+  columns: ScopeColumn[] | null;
+}
+
+interface ColumnScope {
+  relations: ScopeRelation[];
+  outputAliases: Set<string>; // SELECT list aliases, usable in GROUP BY, HAVING and ORDER BY
+  usingColumns: Set<string>;  // JOIN ... USING columns, which are not ambiguous
+  outer?: ColumnScope;        // The enclosing query, for correlated subqueries
+}
+
+type OutputColumns = ScopeColumn[] | null;
+
+function editDistance(a: string, b: string): number {
+  const previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j];
+      previous[j] = Math.min(previous[j] + 1, previous[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diagonal = above;
+    }
+  }
+  return previous[b.length];
+}
+
+// The closest candidate within about a third of the name's length, so typos
+// and near misses match but unrelated names don't
+function closestMatch(name: string, candidates: string[]): string | undefined {
+  const target = name.toLowerCase();
+  const limit = Math.max(1, Math.floor(target.length / 3));
+  let best: { candidate: string; distance: number } | undefined;
+
+  candidates.forEach(candidate => {
+    const distance = editDistance(target, candidate.toLowerCase());
+    if (distance <= limit && (!best || distance < best.distance)) {
+      best = { candidate, distance };
+    }
+  });
+
+  return best?.candidate;
+}
+
 export class SQLValidator {
   private static instance: SQLValidator;
-  private readonly SQL_KEYWORDS = [
-    'SELECT', 'FROM', 'WHERE', 'GROUP BY', 'ORDER BY', 'HAVING', 'JOIN', 'LEFT JOIN', 'RIGHT JOIN', 
-    'INNER JOIN', 'OUTER JOIN', 'UNION', 'UNION ALL', 'WITH', 'AS', 'ON', 'AND', 'OR', 'IN', 
-    'BETWEEN', 'LIKE', 'IS NULL', 'IS NOT NULL', 'LIMIT', 'OFFSET', 'DISTINCT', 'COUNT', 'SUM', 
-    'AVG', 'MAX', 'MIN', 'CASE', 'WHEN', 'THEN', 'ELSE', 'END', 'OVER', 'PARTITION BY', 'ROW_NUMBER',
-    'RANK', 'DENSE_RANK', 'LAG', 'LEAD', 'FIRST_VALUE', 'LAST_VALUE'
-  ];
 
   private readonly PERFORMANCE_KEYWORDS = [
     'EXPLAIN', 'ANALYZE', 'INDEX', 'HINT', 'FORCE', 'IGNORE'
@@ -42,29 +222,52 @@ export class SQLValidator {
     return SQLValidator.instance;
   }
 
-  validateSQL(sql: string, schema?: any): ValidationResult {
-    const tokens = this.tokenize(sql);
+  // The SQL is lexed and parsed into a tree, and every check runs on the
+  // tokens or the tree. Syntax errors stop the tree-based checks, but
+  // dialect checks on the tokens still run.
+  // The dialect defaults to the schema's dialect; without either, dialect checks are skipped
+  validateSQL(sql: string, schema?: any, dialect?: SQLDialect): ValidationResult {
     const errors: ValidationError[] = [];
     const warnings: ValidationError[] = [];
     const suggestions: ValidationError[] = [];
     const performanceHints: string[] = [];
 
     // Basic syntax validation
-    this.validateBasicSyntax(tokens, errors, warnings);
-    
-    // SQL structure validation
-    this.validateSQLStructure(tokens, errors, warnings);
-    
-    // Performance validation
-    this.validatePerformance(sql, tokens, warnings, performanceHints);
-    
-    // Schema validation (if schema provided)
-    if (schema) {
-      this.validateAgainstSchema(tokens, schema, errors, warnings);
+    const lexed = this.tokenize(sql, errors);
+    const tokens = lexed && lexed.filter(token => token.type !== 'comment');
+
+    // Safety policy: only single SELECT statements go on to the tree-based checks
+    const statements = tokens ? this.classify(tokens) : [];
+    this.validateSafety(statements, schema?.safetyPolicy, errors);
+    const readOnly = statements.length <= 1 && statements.every(s => s.type === 'select');
+    if (tokens && !readOnly && errors.length === 0) {
+      warnings.push({
+        type: 'warning',
+        message: 'Only single SELECT statements are checked for syntax and schema errors'
+      });
+    }
+
+    const statement = tokens && readOnly ? this.parse(sql, tokens, errors) : null;
+
+    if (statement) {
+      // SQL structure validation
+      this.validateSQLStructure(statement, errors);
+
+      // Lint rules for performance and best practices, as configured for the schema
+      const comments = lexed!.filter(token => token.type === 'comment');
+      this.lint(statement, comments, schema?.lintRules, { errors, warnings, suggestions, performanceHints });
+
+      // Schema validation (if schema provided)
+      if (schema) {
+        this.validateAgainstSchema(statement, schema, dialect || schema.dialect, errors, warnings);
+      }
     }
 
-    // Best practices validation
-    this.validateBestPractices(sql, tokens, suggestions);
+    // Dialect validation
+    const targetDialect = dialect || schema?.dialect;
+    if (targetDialect && tokens) {
+      this.validateDialect(sql, tokens, statement, targetDialect, errors, warnings);
+    }
 
     return {
       isValid: errors.length === 0,
@@ -75,272 +278,767 @@ export class SQLValidator {
     };
   }
 
-  private tokenize(sql: string): SQLToken[] {
-    const tokens: SQLToken[] = [];
-    const lines = sql.split('\n');
-    
-    for (let lineNum = 0; lineNum < lines.length; lineNum++) {
-      const line = lines[lineNum];
-      const trimmedLine = line.trim();
-      
-      // Skip empty lines
-      if (!trimmedLine) continue;
-      
-      // Handle comments
-      if (trimmedLine.startsWith('--')) {
-        tokens.push({
-          type: 'comment',
-          value: trimmedLine,
-          line: lineNum + 1,
-          column: 1
-        });
-        continue;
-      }
+  // Splits the SQL on semicolons and classifies each statement by its first
+  // word. SELECT INTO and data-modifying statements inside WITH count as
+  // the writes they are.
+  classifyStatements(sql: string): ClassifiedStatement[] {
+    return this.classify(tokenizeSQL(sql).filter(token => token.type !== 'comment' && token.type !== 'eof'));
+  }
 
-      // Simple tokenization (for basic validation)
-      const words = trimmedLine.split(/\s+/);
-      let column = 1;
-      
-      for (const word of words) {
-        if (!word) continue;
-        
-        let type: SQLToken['type'] = 'identifier';
-        
-        if (this.SQL_KEYWORDS.includes(word.toUpperCase())) {
-          type = 'keyword';
-        } else if (word.match(/^[0-9]+(\.[0-9]+)?$/)) {
-          type = 'number';
-        } else if (word.startsWith("'") && word.endsWith("'")) {
-          type = 'string';
-        } else if (word.match(/^[+\-*/=<>!]+$/)) {
-          type = 'operator';
-        } else if (word.match(/^[(),;.]+$/)) {
-          type = 'punctuation';
-        }
-        
-        tokens.push({
-          type,
-          value: word,
-          line: lineNum + 1,
-          column
-        });
-        
-        column += word.length + 1; // +1 for space
-      }
-    }
-    
-    return tokens;
+  // Errors for each statement the policy blocks. SQL that can't be read is
+  // held back too, since its statements can't be told apart, with the parse
+  // error as the reason.
+  checkSafety(sql: string, policy?: SafetyPolicy): ValidationError[] {
+    return this.safetyErrors(sql, policy).errors;
   }
 
-  private validateBasicSyntax(tokens: SQLToken[], errors: ValidationError[], warnings: ValidationError[]): void {
-    let hasSelect = false;
-    let hasFrom = false;
-    let parenCount = 0;
-    
-    for (const token of tokens) {
-      if (token.type === 'keyword') {
-        if (token.value.toUpperCase() === 'SELECT') {
-          hasSelect = true;
-        } else if (token.value.toUpperCase() === 'FROM') {
-          hasFrom = true;
-        }
-      } else if (token.type === 'punctuation') {
-        if (token.value === '(') {
-          parenCount++;
-        } else if (token.value === ')') {
-          parenCount--;
-          if (parenCount < 0) {
-            errors.push({
-              type: 'error',
-              message: 'Unmatched closing parenthesis',
-              line: token.line,
-              column: token.column
-            });
-          }
-        }
-      }
+  // Called before SQL is executed or exported
+  assertSafe(sql: string, policy?: SafetyPolicy): void {
+    const { errors, unparsed } = this.safetyErrors(sql, policy);
+    if (errors.length > 0) {
+      throw new UnsafeSQLError(errors, unparsed);
     }
-    
-    if (!hasSelect) {
+  }
+
+  private safetyErrors(sql: string, policy?: SafetyPolicy): { errors: ValidationError[]; unparsed: boolean } {
+    const errors: ValidationError[] = [];
+    const lexErrors: ValidationError[] = [];
+    const tokens = this.tokenize(sql, lexErrors)?.filter(token => token.type !== 'comment');
+    if (!tokens) {
+      const [lexError] = lexErrors;
       errors.push({
         type: 'error',
-        message: 'Missing SELECT clause',
-        suggestion: 'Add a SELECT clause to specify which columns to retrieve'
+        message: `Could not parse the SQL: ${lexError.message} (line ${lexError.line}, column ${lexError.column})`,
+        line: lexError.line,
+        column: lexError.column,
+        suggestion: /'[@$?:]'/.test(lexError.message)
+          ? 'Query parameters such as @name or $1 are not supported; use literal values instead'
+          : 'Fix the syntax errors shown in the validation tab'
       });
+      return { errors, unparsed: true };
     }
-    
-    if (!hasFrom) {
+    this.validateSafety(this.classify(tokens), policy, errors);
+    return { errors, unparsed: false };
+  }
+
+  private classify(tokens: LexToken[]): ClassifiedStatement[] {
+    const statements: ClassifiedStatement[] = [];
+    let current: LexToken[] = [];
+    const flush = () => {
+      if (current.length > 0) statements.push(this.classifyStatement(current));
+      current = [];
+    };
+    tokens.forEach(token => {
+      if (token.type === 'punctuation' && token.value === ';') {
+        flush();
+      } else {
+        current.push(token);
+      }
+    });
+    flush();
+    return statements;
+  }
+
+  private classifyStatement(tokens: LexToken[]): ClassifiedStatement {
+    const word = (token?: LexToken) =>
+      token && (token.type === 'keyword' || token.type === 'identifier') && !token.quoted ? token.value.toUpperCase() : '';
+
+    // A parenthesized query starts with its first word inside the parentheses
+    const first = tokens.find(token => !(token.type === 'punctuation' && token.value === '(')) || tokens[0];
+    const keyword = word(first);
+    const type: StatementType = STATEMENT_KEYWORDS[keyword] || 'other';
+    if (type !== 'select') {
+      return { type, keyword: keyword || first.value, line: first.line, column: first.column };
+    }
+
+    let depth = 0;
+    for (let i = 0; i < tokens.length; i++) {
+      const token = tokens[i];
+      if (token.type === 'punctuation' && token.value === '(') depth++;
+      if (token.type === 'punctuation' && token.value === ')') depth--;
+      const current = word(token);
+      const previous = tokens[i - 1];
+      const startsQuery = depth === 0 || (previous?.type === 'punctuation' && previous.value === '(');
+
+      if (keyword === 'WITH' && DATA_MODIFYING_KEYWORDS.has(current) && startsQuery) {
+        return { type: STATEMENT_KEYWORDS[current], keyword: current, line: token.line, column: token.column };
+      }
+      // SELECT ... INTO new_table creates a table; INSERT ... SELECT is caught by its first word
+      if (current === 'INTO' && depth === 0) {
+        return { type: 'create', keyword: 'SELECT INTO', line: token.line, column: token.column };
+      }
+    }
+    return { type, keyword, line: first.line, column: first.column };
+  }
+
+  private validateSafety(statements: ClassifiedStatement[], policy: SafetyPolicy = DEFAULT_SAFETY_POLICY, errors: ValidationError[]): void {
+    const allowed = new Set(policy.allowedStatements);
+    const allowedText = policy.allowedStatements.map(type => STATEMENT_TYPE_LABELS[type]).join(', ') || 'no';
+
+    if (statements.length > 1 && !policy.allowMultipleStatements) {
+      const extra = statements[1];
       errors.push({
         type: 'error',
-        message: 'Missing FROM clause',
-        suggestion: 'Add a FROM clause to specify the table(s) to query'
+        message: `Multiple statements are not allowed; found ${statements.length} separated by semicolons`,
+        line: extra.line,
+        column: extra.column,
+        suggestion: 'Run one statement at a time'
       });
     }
-    
-    if (parenCount > 0) {
+
+    statements.filter(statement => !allowed.has(statement.type)).forEach(statement => {
       errors.push({
         type: 'error',
-        message: 'Unmatched opening parenthesis',
-        suggestion: 'Check for missing closing parentheses'
+        message: `${statement.keyword} statements are blocked by the safety policy`,
+        line: statement.line,
+        column: statement.column,
+        suggestion: `This schema allows ${allowedText} statements`
       });
+    });
+  }
+
+  // Tokens without the end marker, or null when the SQL can't be lexed
+  private tokenize(sql: string, errors: ValidationError[]): LexToken[] | null {
+    try {
+      return tokenizeSQL(sql).filter(token => token.type !== 'eof');
+    } catch (error) {
+      if (!(error instanceof SQLSyntaxError)) throw error;
+      errors.push({ type: 'error', message: error.reason, line: error.line, column: error.column });
+      return null;
     }
   }
 
-  private validateSQLStructure(tokens: SQLToken[], errors: ValidationError[], warnings: ValidationError[]): void {
-    const keywords = tokens.filter(t => t.type === 'keyword').map(t => t.value.toUpperCase());
-    const keywordSequence = keywords.join(' ');
-    
-    // Check for common structural issues
-    if (keywordSequence.includes('GROUP BY') && !keywordSequence.includes('SELECT')) {
+  private parse(sql: string, tokens: LexToken[], errors: ValidationError[]): SelectStatement | null {
+    if (!tokens.some(token => token.type === 'keyword' && token.value === 'SELECT')) {
       errors.push({
         type: 'error',
-        message: 'GROUP BY without SELECT',
-        suggestion: 'GROUP BY must be used with SELECT'
+        message: 'Missing SELECT clause',
+        suggestion: 'Add a SELECT clause to specify which columns to retrieve'
       });
+      return null;
     }
-    
-    if (keywordSequence.includes('HAVING') && !keywordSequence.includes('GROUP BY')) {
+
+    // Unbalanced parentheses get their own message rather than the parser's
+    // "Expected ')'" at wherever it gave up
+    const open: LexToken[] = [];
+    let balanced = true;
+    tokens.filter(token => token.type === 'punctuation').forEach(token => {
+      if (token.value === '(') {
+        open.push(token);
+      } else if (token.value === ')' && !open.pop()) {
+        balanced = false;
+        errors.push({ type: 'error', message: 'Unmatched closing parenthesis', line: token.line, column: token.column });
+      }
+    });
+    if (open.length > 0) {
       errors.push({
         type: 'error',
-        message: 'HAVING without GROUP BY',
-        suggestion: 'HAVING must be used with GROUP BY'
+        message: 'Unmatched opening parenthesis',
+        line: open[open.length - 1].line,
+        column: open[open.length - 1].column,
+        suggestion: 'Check for missing closing parentheses'
       });
+      balanced = false;
     }
-    
-    if (keywordSequence.includes('ORDER BY') && !keywordSequence.includes('SELECT')) {
+    if (!balanced) return null;
+
+    try {
+      return parseSQL(sql);
+    } catch (error) {
+      if (!(error instanceof SQLSyntaxError)) throw error;
+      errors.push({ type: 'error', message: `Syntax error: ${error.reason}`, line: error.line, column: error.column });
+      return null;
+    }
+  }
+
+  private validateSQLStructure(statement: SelectStatement, errors: ValidationError[]): void {
+    if (!statement.from) {
       errors.push({
         type: 'error',
-        message: 'ORDER BY without SELECT',
-        suggestion: 'ORDER BY must be used with SELECT'
+        message: 'Missing FROM clause',
+        line: statement.position.line,
+        column: statement.position.column,
+        suggestion: 'Add a FROM clause to specify the table(s) to query'
       });
     }
-    
-    // Check for SELECT * without LIMIT
-    const hasSelectStar = tokens.some(t => 
-      t.type === 'keyword' && t.value.toUpperCase() === 'SELECT' &&
-      tokens[tokens.indexOf(t) + 1]?.value === '*'
+  }
+
+  // Runs every lint rule the schema hasn't turned off, at its configured
+  // severity. Rules named in `-- lint-disable` comments are skipped, and a
+  // bare `-- lint-disable` skips them all.
+  private lint(
+    statement: SelectStatement,
+    comments: LexToken[],
+    overrides: Record<string, LintSeverity> | undefined,
+    result: Pick<ValidationResult, 'errors' | 'warnings' | 'suggestions' | 'performanceHints'>
+  ): void {
+    const disabled = new Set<string>();
+    let disableAll = false;
+    parseLintDirectives(comments).forEach(directive => {
+      disableAll = disableAll || directive.rules.length === 0;
+      directive.rules.forEach(id => {
+        if (LINT_RULES[id]) {
+          disabled.add(id);
+          return;
+        }
+        const match = closestMatch(id, Object.keys(LINT_RULES));
+        result.warnings.push({
+          type: 'warning',
+          message: `Unknown lint rule '${id}' in lint-disable comment`,
+          line: directive.line,
+          column: directive.column,
+          suggestion: match ? `Did you mean '${match}'?` : `Known rules: ${Object.keys(LINT_RULES).join(', ')}`
+        });
+      });
+    });
+    if (disableAll) return;
+
+    Object.values(LINT_RULES).forEach(rule => {
+      const severity = getLintSeverity(rule, overrides);
+      if (severity === 'off' || disabled.has(rule.id)) return;
+
+      rule.check(statement).forEach(finding => {
+        const item: ValidationError = {
+          type: severity,
+          message: finding.message,
+          ...(finding.position ? at(finding.position) : {}),
+          suggestion: finding.suggestion,
+          rule: rule.id
+        };
+        if (severity === 'error') {
+          result.errors.push(item);
+        } else if (severity === 'warning') {
+          result.warnings.push(item);
+        } else if (rule.category === 'performance') {
+          result.performanceHints.push(`${finding.message} (${rule.id})`);
+        } else {
+          result.suggestions.push(item);
+        }
+      });
+    });
+  }
+
+  private validateAgainstSchema(
+    statement: SelectStatement,
+    schema: any,
+    dialect: SQLDialect | undefined,
+    errors: ValidationError[],
+    warnings: ValidationError[]
+  ): void {
+    if (!schema.tables) return;
+
+    // Tables read in FROM and JOIN clauses at any depth, except CTEs
+    const cteNames = this.getCTENames(statement);
+    const schemaTableNames: string[] = schema.tables.map((t: any) => t.name.toLowerCase());
+    const reported = new Set<string>();
+
+    walkStatement(statement, {
+      table: source => {
+        const key = source.name.toLowerCase();
+        if (cteNames.has(key) || schemaTableNames.includes(key) || reported.has(key)) return;
+        reported.add(key);
+        errors.push({
+          type: 'error',
+          message: `Table '${source.name}' not found in schema`,
+          ...at(source.position),
+          suggestion: `Use one of the schema tables: ${schema.tables.map((t: any) => t.name).join(', ')}`
+        });
+      }
+    });
+
+    this.validateColumns(statement, schema, dialect, errors, warnings);
+  }
+
+  // Resolves every column reference through table aliases, CTEs and
+  // subquery outputs, and checks the types of the expressions using them.
+  // References that can't be resolved for certain, such as columns of a
+  // table missing from the schema, are left alone.
+  private validateColumns(
+    statement: SelectStatement,
+    schema: any,
+    dialect: SQLDialect | undefined,
+    errors: ValidationError[],
+    warnings: ValidationError[]
+  ): void {
+    const schemaColumns = new Map<string, ScopeColumn[]>(
+      schema.tables.map((table: any) => [
+        table.name.toLowerCase(),
+        (table.columns || []).map((column: any) => ({ name: column.name, type: toValueType(column.type), declaredType: column.type }))
+      ])
     );
-    
-    if (hasSelectStar && !keywordSequence.includes('LIMIT')) {
-      warnings.push({
-        type: 'warning',
-        message: 'SELECT * without LIMIT may return large result sets',
-        suggestion: 'Consider adding a LIMIT clause or selecting specific columns'
+    const reported = new Set<string>();
+    const report = (error: ValidationError) => {
+      if (reported.has(error.message)) return;
+      reported.add(error.message);
+      (error.type === 'error' ? errors : warnings).push(error);
+    };
+
+    const resolveQuery = (query: SelectStatement, outer: ColumnScope | undefined, ctes: Map<string, OutputColumns>): OutputColumns => {
+      const visibleCTEs = new Map(ctes);
+      query.with.forEach(cte => {
+        const output = resolveQuery(cte.query, outer, visibleCTEs);
+        visibleCTEs.set(
+          cte.name.toLowerCase(),
+          cte.columns ? cte.columns.map((name, index) => ({ name, type: output?.[index]?.type || 'unknown' })) : output
+        );
       });
-    }
+
+      const scope: ColumnScope = { relations: [], outputAliases: new Set(), usingColumns: new Set(), outer };
+      const joinConditions: Expression[] = [];
+      const addSource = (source: TableReference) => {
+        switch (source.type) {
+          case 'table': {
+            const key = source.name.toLowerCase();
+            const columns = visibleCTEs.has(key) ? visibleCTEs.get(key)! : schemaColumns.get(key) || null;
+            scope.relations.push({ name: source.alias || source.name, columns });
+            break;
+          }
+          case 'derived':
+            scope.relations.push({ name: source.alias, columns: resolveQuery(source.query, outer, visibleCTEs) });
+            break;
+          case 'join':
+            addSource(source.left);
+            addSource(source.right);
+            if (source.on) joinConditions.push(source.on);
+            source.using?.forEach(column => scope.usingColumns.add(column.toLowerCase()));
+            break;
+        }
+      };
+      if (query.from) addSource(query.from);
+      query.columns.forEach(item => {
+        if (item.alias) scope.outputAliases.add(item.alias.toLowerCase());
+      });
+
+      const check = (expression: Expression, isArgument: boolean = false) => {
+        this.checkTypes(expression, scope, dialect, report);
+        if (expression.type === 'column') {
+          this.checkColumnReference(expression, scope, isArgument, report);
+        } else if (expression.type === 'star' && expression.table && !this.findRelation(scope, expression.table)) {
+          report(this.unknownRelation(expression.table, scope, expression.position));
+        }
+
+        const subquery = expressionSubquery(expression);
+        if (subquery) resolveQuery(subquery, scope, visibleCTEs);
+
+        if (expression.type === 'function') {
+          expression.args.forEach(arg => check(arg, true));
+          childExpressions(expression).slice(expression.args.length).forEach(child => check(child));
+        } else {
+          childExpressions(expression).forEach(child => check(child));
+        }
+      };
+
+      query.columns.forEach(item => check(item.expression));
+      joinConditions.forEach(condition => check(condition));
+      if (query.where) check(query.where);
+      query.groupBy.forEach(expression => check(expression));
+      if (query.having) check(query.having);
+      query.orderBy.forEach(item => check(item.expression));
+      query.setOperations.forEach(operation => resolveQuery(operation.query, outer, visibleCTEs));
+
+      return this.getOutputColumns(query, scope);
+    };
+
+    resolveQuery(statement, undefined, new Map());
   }
 
-  private validatePerformance(sql: string, tokens: SQLToken[], warnings: ValidationError[], performanceHints: string[]): void {
-    const upperSQL = sql.toUpperCase();
-    
-    // Check for potential performance issues
-    if (upperSQL.includes('SELECT *') && !upperSQL.includes('LIMIT')) {
-      performanceHints.push('Consider selecting specific columns instead of using SELECT *');
+  private checkColumnReference(
+    reference: ColumnExpression,
+    scope: ColumnScope,
+    isArgument: boolean,
+    report: (error: ValidationError) => void
+  ): void {
+    const name = reference.name.toLowerCase();
+
+    if (reference.table) {
+      const relation = this.findRelation(scope, reference.table);
+      if (!relation) {
+        report(this.unknownRelation(reference.table, scope, reference.position));
+      } else if (relation.columns && !relation.columns.some(column => column.name.toLowerCase() === name)) {
+        const names = relation.columns.map(column => column.name);
+        const match = closestMatch(reference.name, names);
+        report({
+          type: 'error',
+          message: `Column '${reference.table}.${reference.name}' not found in ${relation.name}`,
+          ...at(reference.position),
+          suggestion: match ? `Did you mean '${reference.table}.${match}'?` : `Use one of: ${names.join(', ')}`
+        });
+      }
+      return;
     }
-    
-    if (upperSQL.includes('LIKE') && upperSQL.includes('%') && !upperSQL.includes('INDEX')) {
-      performanceHints.push('LIKE queries with leading wildcards may be slow; consider using indexes');
+
+    // Innermost query first, then each enclosing query for correlated references
+    for (let current: ColumnScope | undefined = scope; current; current = current.outer) {
+      const matches = current.relations.filter(relation => relation.columns?.some(column => column.name.toLowerCase() === name));
+      if (matches.length > 1 && !current.usingColumns.has(name) && !(current === scope && scope.outputAliases.has(name))) {
+        report({
+          type: 'error',
+          message: `Column '${reference.name}' is ambiguous; it is in ${matches.map(relation => relation.name).join(' and ')}`,
+          ...at(reference.position),
+          suggestion: `Qualify it with a table name or alias, such as ${matches[0].name}.${reference.name}`
+        });
+        return;
+      }
+      if (matches.length > 0 || (current === scope && scope.outputAliases.has(name))) return;
+      // A relation with unknown columns might have it
+      if (current.relations.some(relation => relation.columns === null)) return;
     }
-    
-    if (upperSQL.includes('ORDER BY') && !upperSQL.includes('LIMIT')) {
-      performanceHints.push('ORDER BY without LIMIT may be expensive on large datasets');
+
+    if (isArgument && NON_COLUMN_ARGUMENTS.has(name)) return;
+
+    const candidates = Array.from(new Set(scope.relations.flatMap(relation => (relation.columns || []).map(column => column.name))));
+    if (candidates.length === 0) return;
+    const match = closestMatch(reference.name, candidates);
+    report({
+      type: 'error',
+      message: `Column '${reference.name}' not found in ${scope.relations.map(relation => relation.name).join(', ')}`,
+      ...at(reference.position),
+      suggestion: match ? `Did you mean '${match}'?` : `Use one of: ${candidates.join(', ')}`
+    });
+  }
+
+  private findRelation(scope: ColumnScope, name: string): ScopeRelation | undefined {
+    const key = name.toLowerCase();
+    for (let current: ColumnScope | undefined = scope; current; current = current.outer) {
+      const relation = current.relations.find(candidate => candidate.name.toLowerCase() === key);
+      if (relation) return relation;
     }
-    
-    if (upperSQL.includes('GROUP BY') && !upperSQL.includes('HAVING')) {
-      performanceHints.push('Consider if you need HAVING clause with GROUP BY');
+    return undefined;
+  }
+
+  private unknownRelation(name: string, scope: ColumnScope, position: SourcePosition): ValidationError {
+    const names: string[] = [];
+    for (let current: ColumnScope | undefined = scope; current; current = current.outer) {
+      names.push(...current.relations.map(relation => relation.name));
     }
-    
-    // Check for missing WHERE clauses on large tables
-    const hasFrom = tokens.some(t => t.type === 'keyword' && t.value.toUpperCase() === 'FROM');
-    const hasWhere = tokens.some(t => t.type === 'keyword' && t.value.toUpperCase() === 'WHERE');
-    
-    if (hasFrom && !hasWhere) {
-      warnings.push({
-        type: 'warning',
-        message: 'Query without WHERE clause may scan entire table',
-        suggestion: 'Consider adding a WHERE clause to filter results'
-      });
+    const match = closestMatch(name, names);
+    return {
+      type: 'error',
+      message: `Unknown table or alias '${name}'`,
+      ...at(position),
+      suggestion: match ? `Did you mean '${match}'?` : names.length > 0 ? `Use one of: ${names.join(', ')}` : undefined
+    };
+  }
+
+  // The column a reference resolves to, if it can be known
+  private lookupColumn(reference: ColumnExpression, scope: ColumnScope): ScopeColumn | undefined {
+    const name = reference.name.toLowerCase();
+    const find = (relation: ScopeRelation) => relation.columns?.find(column => column.name.toLowerCase() === name);
+
+    if (reference.table) {
+      const relation = this.findRelation(scope, reference.table);
+      return relation && find(relation);
+    }
+    for (let current: ColumnScope | undefined = scope; current; current = current.outer) {
+      for (const relation of current.relations) {
+        const column = find(relation);
+        if (column) return column;
+      }
     }
+    return undefined;
   }
 
-  private validateAgainstSchema(tokens: SQLToken[], schema: any, errors: ValidationError[], warnings: ValidationError[]): void {
-    // Extract table names from FROM and JOIN clauses
-    const tableNames = new Set<string>();
-    const columnReferences = new Set<string>();
-    
-    for (let i = 0; i < tokens.length; i++) {
-      const token = tokens[i];
-      
-      if (token.type === 'keyword' && token.value.toUpperCase() === 'FROM') {
-        const nextToken = tokens[i + 1];
-        if (nextToken && nextToken.type === 'identifier') {
-          tableNames.add(nextToken.value);
-        }
+  private inferType(expression: Expression, scope: ColumnScope): ValueType {
+    switch (expression.type) {
+      case 'literal':
+        if (typeof expression.value === 'number') return 'number';
+        if (typeof expression.value === 'boolean') return 'boolean';
+        return typeof expression.value === 'string' ? 'text' : 'unknown';
+      case 'column':
+        return this.lookupColumn(expression, scope)?.type || 'unknown';
+      case 'unary':
+        return expression.operator === 'NOT' ? 'boolean' : this.inferType(expression.operand, scope);
+      case 'binary': {
+        if (expression.operator === '||') return 'text';
+        if (!ARITHMETIC_OPERATORS.has(expression.operator)) return 'boolean';
+        const left = this.inferType(expression.left, scope);
+        const right = this.inferType(expression.right, scope);
+        if (left === 'date' && right === 'date') return expression.operator === '-' ? 'number' : 'unknown';
+        if (left === 'date' || right === 'date') return 'date';
+        if (left === 'text' && right === 'text') return 'text';
+        return left === 'number' && right === 'number' ? 'number' : 'unknown';
       }
-      
-      if (token.type === 'keyword' && token.value.toUpperCase().includes('JOIN')) {
-        const nextToken = tokens[i + 1];
-        if (nextToken && nextToken.type === 'identifier') {
-          tableNames.add(nextToken.value);
-        }
+      case 'function': {
+        const name = expression.name.toUpperCase();
+        if (name === 'INTERVAL') return 'interval';
+        if (NUMERIC_AGGREGATES.has(name) || NUMERIC_FUNCTIONS.has(name) || NUMBER_RESULTS.has(name)) return 'number';
+        if (TEXT_RESULTS.has(name)) return 'text';
+        if (DATE_RESULTS.has(name)) return 'date';
+        if (PASS_THROUGH_RESULTS.has(name) && expression.args[0]) return this.inferType(expression.args[0], scope);
+        return 'unknown';
       }
+      case 'case': {
+        const results = [...expression.whenClauses.map(clause => clause.then), ...(expression.elseResult ? [expression.elseResult] : [])];
+        const known = results.map(result => this.inferType(result, scope)).find(type => type !== 'unknown');
+        return known || 'unknown';
+      }
+      case 'cast':
+        return toValueType(expression.dataType);
+      case 'in':
+      case 'between':
+      case 'like':
+      case 'isNull':
+      case 'exists':
+        return 'boolean';
+      default:
+        return 'unknown';
     }
-    
-    // Validate table names against schema
-    if (schema.tables) {
-      const schemaTableNames = schema.tables.map((t: any) => t.name);
-      
-      for (const tableName of tableNames) {
-        if (!schemaTableNames.includes(tableName)) {
-          warnings.push({
-            type: 'warning',
-            message: `Table '${tableName}' not found in schema`,
-            suggestion: 'Verify table name or check schema definition'
-          });
+  }
+
+  // "carrier (VARCHAR(50))" for columns, the SQL text for anything else
+  private describeOperand(expression: Expression, scope: ColumnScope): string {
+    const declared = expression.type === 'column' ? this.lookupColumn(expression, scope)?.declaredType : undefined;
+    return declared ? `${expressionToSQL(expression)} (${declared})` : expressionToSQL(expression);
+  }
+
+  // Checks one expression node; children are checked as the caller walks them
+  private checkTypes(expression: Expression, scope: ColumnScope, dialect: SQLDialect | undefined, report: (error: ValidationError) => void): void {
+    switch (expression.type) {
+      case 'function': {
+        const name = expression.name.toUpperCase();
+        const argument = expression.args[0];
+        if (!argument || (!NUMERIC_AGGREGATES.has(name) && !NUMERIC_FUNCTIONS.has(name))) return;
+
+        const type = this.inferType(argument, scope);
+        if (type !== 'text' && type !== 'date') return;
+        const numeric = scope.relations
+          .flatMap(relation => relation.columns || [])
+          .find(column => column.type === 'number' && !/(^|_)id$/i.test(column.name));
+        report({
+          type: 'error',
+          message: `${name}() needs a number, but ${this.describeOperand(argument, scope)} is ${type === 'date' ? 'a date' : 'text'}`,
+          ...at(expression.position),
+          suggestion: NUMERIC_AGGREGATES.has(name)
+            ? `Use COUNT(${expressionToSQL(argument)}) to count values${numeric ? `, or ${name}() a numeric column such as ${numeric.name}` : ''}`
+            : `Apply ${name}() to a numeric column, or CAST(${expressionToSQL(argument)} AS DECIMAL) if it holds numbers`
+        });
+        return;
+      }
+
+      case 'binary':
+        if (COMPARISON_OPERATORS.has(expression.operator)) {
+          this.checkComparison(expression.left, expression.right, expression.position, scope, report);
+        } else if (ARITHMETIC_OPERATORS.has(expression.operator)) {
+          this.checkArithmetic(expression.operator, expression.left, expression.right, expression.position, scope, dialect, report);
         }
+        return;
+
+      case 'between':
+        this.checkComparison(expression.operand, expression.low, expression.position, scope, report);
+        this.checkComparison(expression.operand, expression.high, expression.position, scope, report);
+        return;
+
+      case 'in':
+        expression.values?.forEach(value => this.checkComparison(expression.operand, value, expression.position, scope, report));
+        return;
+    }
+  }
+
+  private checkComparison(
+    left: Expression,
+    right: Expression,
+    position: SourcePosition,
+    scope: ColumnScope,
+    report: (error: ValidationError) => void
+  ): void {
+    // Put the typed side first, so 'x' = col reads as col = 'x'
+    const [typed, other] = this.inferType(left, scope) === 'unknown' || left.type === 'literal' ? [right, left] : [left, right];
+    const type = this.inferType(typed, scope);
+    const otherType = this.inferType(other, scope);
+    const literal = other.type === 'literal' ? other.value : undefined;
+    const subject = this.describeOperand(typed, scope);
+
+    if (type === 'date') {
+      if (typeof literal === 'string' && !DATE_LITERAL.test(literal.trim())) {
+        report({
+          type: 'error',
+          message: `${subject} is a date but is compared with '${literal}', which is not a date`,
+          ...at(position),
+          suggestion: "Compare it with a date in 'YYYY-MM-DD' form, or with a date range for periods such as quarters"
+        });
+      } else if (otherType === 'number') {
+        report({
+          type: 'error',
+          message: `${subject} is a date but is compared with the number ${expressionToSQL(other)}`,
+          ...at(position),
+          suggestion: `Compare the year or month extracted from ${expressionToSQL(typed)}, or use a date in 'YYYY-MM-DD' form`
+        });
+      }
+    } else if (type === 'number') {
+      if (typeof literal === 'string' && !NUMERIC_LITERAL.test(literal)) {
+        report({
+          type: 'error',
+          message: `${subject} is a number but is compared with '${literal}', which is not a number`,
+          ...at(position),
+          suggestion: 'Compare it with a number, or filter on a text column that holds this value'
+        });
       }
+    } else if (type === 'text' && otherType === 'number' && typed.type === 'column') {
+      report({
+        type: 'warning',
+        message: `${subject} is text but is compared with the number ${expressionToSQL(other)}`,
+        ...at(position),
+        suggestion: `Quote the value, as in ${expressionToSQL(typed)} = '${expressionToSQL(other)}'`
+      });
     }
   }
 
-  private validateBestPractices(sql: string, tokens: SQLToken[], suggestions: ValidationError[]): void {
-    const upperSQL = sql.toUpperCase();
-    
-    // Check for best practices
-    if (upperSQL.includes('SELECT *')) {
-      suggestions.push({
-        type: 'info',
-        message: 'Consider selecting specific columns instead of SELECT *',
-        suggestion: 'This improves performance and makes the query more explicit'
+  private checkArithmetic(
+    operator: string,
+    left: Expression,
+    right: Expression,
+    position: SourcePosition,
+    scope: ColumnScope,
+    dialect: SQLDialect | undefined,
+    report: (error: ValidationError) => void
+  ): void {
+    const leftType = this.inferType(left, scope);
+    const rightType = this.inferType(right, scope);
+
+    // + joins strings in SQL Server
+    if (operator === '+' && dialect === 'sqlserver' && (leftType === 'text' || rightType === 'text')) return;
+
+    const textSide = [left, right].find((side, index) => {
+      const type = index === 0 ? leftType : rightType;
+      return type === 'text' && !(side.type === 'literal' && typeof side.value === 'string' && NUMERIC_LITERAL.test(side.value));
+    });
+    if (textSide) {
+      report({
+        type: 'error',
+        message: `Arithmetic '${operator}' on text: ${this.describeOperand(textSide, scope)} is not a number`,
+        ...at(position),
+        suggestion: operator === '+'
+          ? `Use ${dialect ? getDialect(dialect).concatenation : 'CONCAT(a, b)'} to join text, or CAST(${expressionToSQL(textSide)} AS DECIMAL) if it holds numbers`
+          : `Use a numeric column, or CAST(${expressionToSQL(textSide)} AS DECIMAL) if it holds numbers`
       });
+      return;
     }
-    
-    if (!upperSQL.includes('ORDER BY') && upperSQL.includes('LIMIT')) {
-      suggestions.push({
-        type: 'info',
-        message: 'Consider adding ORDER BY with LIMIT',
-        suggestion: 'Without ORDER BY, the results may be unpredictable'
+
+    // Dates can be shifted by numbers or intervals and subtracted from each other, nothing else
+    const dateOperation = leftType === 'date' || rightType === 'date';
+    const allowed = operator === '+'
+      ? !(leftType === 'date' && rightType === 'date')
+      : operator === '-' && leftType === 'date';
+    if (dateOperation && !allowed) {
+      const dateSide = leftType === 'date' ? left : right;
+      report({
+        type: 'error',
+        message: `Arithmetic '${operator}' on a date: ${this.describeOperand(dateSide, scope)} can only be shifted or subtracted`,
+        ...at(position),
+        suggestion: 'Add or subtract an interval, or subtract two dates to get the days between them'
       });
     }
-    
-    if (upperSQL.includes('COUNT(*)') && upperSQL.includes('WHERE')) {
-      suggestions.push({
-        type: 'info',
-        message: 'Consider using COUNT(1) instead of COUNT(*)',
-        suggestion: 'COUNT(1) is often more efficient than COUNT(*)' 
+  }
+
+  // Column names a query returns, for CTEs and derived tables; null when
+  // they can't all be named, such as an unaliased SUM(cost) or a SELECT *
+  // over a relation with unknown columns
+  private getOutputColumns(query: SelectStatement, scope: ColumnScope): OutputColumns {
+    const columns: ScopeColumn[] = [];
+    for (const item of query.columns) {
+      const expression = item.expression;
+      if (item.alias) {
+        columns.push({ name: item.alias, type: this.inferType(expression, scope) });
+      } else if (expression.type === 'column') {
+        columns.push({ ...this.lookupColumn(expression, scope), name: expression.name, type: this.inferType(expression, scope) });
+      } else if (expression.type === 'star') {
+        const relations = expression.table
+          ? scope.relations.filter(relation => relation.name.toLowerCase() === expression.table!.toLowerCase())
+          : scope.relations;
+        if (relations.some(relation => relation.columns === null)) return null;
+        relations.forEach(relation => columns.push(...relation.columns!));
+      } else {
+        return null;
+      }
+    }
+    return columns;
+  }
+
+  // Row limits and identifier quoting are lexical, so they are checked on
+  // the tokens; operators and functions are checked on the tree
+  private validateDialect(
+    sql: string,
+    tokens: LexToken[],
+    statement: SelectStatement | null,
+    dialect: SQLDialect,
+    errors: ValidationError[],
+    warnings: ValidationError[]
+  ): void {
+    const profile = getDialect(dialect);
+    const report = (position: { line: number; column: number } | undefined, error: Omit<ValidationError, 'type' | 'line' | 'column'>) => {
+      if (position) {
+        errors.push({ type: 'error', ...error, line: position.line, column: position.column });
+      }
+    };
+
+    if (profile.rowLimit === 'top') {
+      report(tokens.find((token, index) => token.type === 'keyword' && token.value === 'LIMIT' && tokens[index + 1]?.type === 'number'), {
+        message: `LIMIT is not supported in ${profile.label}`,
+        suggestion: 'Use SELECT TOP n or OFFSET ... FETCH NEXT n ROWS ONLY'
+      });
+    } else {
+      report(tokens.find((token, index) =>
+        token.type === 'identifier' && !token.quoted && token.value.toUpperCase() === 'TOP' &&
+        ['SELECT', 'DISTINCT'].includes(tokens[index - 1]?.value) &&
+        (tokens[index + 1]?.type === 'number' || tokens[index + 1]?.value === '(')
+      ), {
+        message: `TOP is not supported in ${profile.label}`,
+        suggestion: 'Use LIMIT n at the end of the query'
       });
     }
-    
-    // Check for proper aliasing
-    const hasJoins = upperSQL.includes('JOIN');
-    const hasAliases = /[A-Za-z_][A-Za-z0-9_]*\s+AS\s+[A-Za-z_][A-Za-z0-9_]*/i.test(sql);
-    
-    if (hasJoins && !hasAliases) {
-      suggestions.push({
-        type: 'info',
-        message: 'Consider using table aliases for better readability',
-        suggestion: 'Example: FROM table1 t1 JOIN table2 t2 ON t1.id = t2.id'
+
+    // The lexer accepts every quoting style; the dialect decides which are valid
+    const quotedWith = (quote: string) => tokens.find(token => token.quoted && sql[token.offset] === quote);
+    const [open, close] = profile.identifierQuotes;
+    const quoting = `Quote identifiers with ${open}name${close}`;
+    if (open !== '`') {
+      report(quotedWith('`'), { message: `Backtick-quoted identifiers are not supported in ${profile.label}`, suggestion: quoting });
+    }
+    if (open !== '[') {
+      report(quotedWith('['), { message: `Bracket-quoted identifiers are not supported in ${profile.label}`, suggestion: quoting });
+    }
+    if (dialect === 'mysql') {
+      const doubleQuoted = quotedWith('"');
+      if (doubleQuoted) {
+        warnings.push({ type: 'warning', message: 'MySQL treats double-quoted text as a string unless ANSI_QUOTES is enabled', ...at(doubleQuoted), suggestion: quoting });
+      }
+    }
+
+    if (!statement) return;
+
+    const expressions: Expression[] = [];
+    walkStatement(statement, { expression: expression => expressions.push(expression) });
+
+    if (dialect === 'mysql' || dialect === 'sqlserver') {
+      report(expressions.find(expression => expression.type === 'binary' && expression.operator === '||')?.position, {
+        message: `|| does not concatenate strings in ${profile.label}`,
+        suggestion: `Concatenate with ${profile.concatenation}`
+      });
+    }
+
+    if (dialect !== 'postgresql') {
+      report(expressions.find(expression => expression.type === 'like' && expression.caseInsensitive)?.position, {
+        message: `ILIKE is not supported in ${profile.label}`,
+        suggestion: 'Use LOWER(column) LIKE LOWER(pattern)'
       });
     }
+
+    const functions = expressions.filter((expression): expression is FunctionExpression => expression.type === 'function');
+    Object.entries(profile.foreignFunctions).forEach(([name, replacement]) => {
+      report(functions.find(call => call.name.toUpperCase() === name)?.position, {
+        message: `${name}() is not available in ${profile.label}`,
+        suggestion: `Use ${replacement}`
+      });
+    });
+  }
+
+  // Names defined in WITH clauses at any depth, so they aren't treated as schema tables
+  private getCTENames(statement: SelectStatement): Set<string> {
+    const names = new Set<string>();
+    walkStatement(statement, {
+      statement: query => query.with.forEach(cte => names.add(cte.name.toLowerCase()))
+    });
+    return names;
   }
 
   // Format SQL with proper indentation
@@ -380,30 +1078,6 @@ export class SQLValidator {
     
     return formattedLines.join('\n');
   }
-
-  // Get SQL suggestions based on common patterns
-  getSuggestions(sql: string): string[] {
-    const suggestions: string[] = [];
-    const upperSQL = sql.toUpperCase();
-    
-    if (upperSQL.includes('SELECT *')) {
-      suggestions.push('Replace SELECT * with specific column names for better performance');
-    }
-    
-    if (upperSQL.includes('LIKE') && upperSQL.includes('%')) {
-      suggestions.push('Consider using indexes for LIKE queries with wildcards');
-    }
-    
-    if (upperSQL.includes('ORDER BY') && !upperSQL.includes('LIMIT')) {
-      suggestions.push('Add LIMIT clause to ORDER BY for better performance');
-    }
-    
-    if (upperSQL.includes('GROUP BY') && !upperSQL.includes('HAVING')) {
-      suggestions.push('Consider if HAVING clause is needed for filtering grouped results');
-    }
-    
-    return suggestions;
-  }
 }
 
 export const sqlValidator = SQLValidator.getInstance(); 
\ No newline at end of file
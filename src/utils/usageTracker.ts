@@ -0,0 +1,240 @@
+import { LLMProviderType } from './llmProviders';
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface UsageTally extends TokenUsage {
+  requests: number;
+  cost: number; // USD
+}
+
+export interface UsageRecord extends TokenUsage {
+  timestamp: number;
+  provider: LLMProviderType;
+  model: string;
+  cost: number;
+  estimated: boolean; // Token counts were estimated because the provider reported none
+}
+
+// Spend limits in USD. Soft limits warn; hard limits block generation.
+export interface UsageBudgets {
+  dailySoftLimit?: number;
+  dailyHardLimit?: number;
+  monthlySoftLimit?: number;
+  monthlyHardLimit?: number;
+}
+
+export interface BudgetStatus {
+  level: 'ok' | 'warning' | 'blocked';
+  messages: string[];
+}
+
+export interface UsageSummary {
+  today: UsageTally;
+  month: UsageTally;
+  lastRequest?: UsageRecord;
+  budgets: UsageBudgets;
+  status: BudgetStatus;
+}
+
+interface UsageData {
+  records: UsageRecord[];
+  daily: Record<string, UsageTally>;   // Keyed by local date, YYYY-MM-DD
+  monthly: Record<string, UsageTally>; // Keyed by YYYY-MM
+}
+
+// USD per million tokens. Matched by model name prefix, so more specific names come first.
+export const MODEL_PRICING: { prefix: string; input: number; output: number }[] = [
+  { prefix: 'gpt-4o-mini', input: 0.15, output: 0.6 },
+  { prefix: 'gpt-4o', input: 2.5, output: 10 },
+  { prefix: 'gpt-4.1-nano', input: 0.1, output: 0.4 },
+  { prefix: 'gpt-4.1-mini', input: 0.4, output: 1.6 },
+  { prefix: 'gpt-4.1', input: 2, output: 8 },
+  { prefix: 'gpt-4-turbo', input: 10, output: 30 },
+  { prefix: 'gpt-4', input: 30, output: 60 },
+  { prefix: 'gpt-3.5-turbo', input: 0.5, output: 1.5 },
+  { prefix: 'o3-mini', input: 1.1, output: 4.4 },
+  { prefix: 'o1-mini', input: 1.1, output: 4.4 }
+];
+
+// Thrown when a hard budget has been reached
+export class BudgetExceededError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+export function estimateCost(model: string, usage: TokenUsage): number {
+  const name = model.toLowerCase();
+  const pricing = MODEL_PRICING.find(entry => name.startsWith(entry.prefix));
+  if (!pricing) return 0; // Local models and unknown deployments are not priced
+
+  return (usage.promptTokens * pricing.input + usage.completionTokens * pricing.output) / 1_000_000;
+}
+
+// Rough count for providers that don't report usage (about four characters per token)
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+export function formatCost(cost: number): string {
+  return cost > 0 && cost < 0.01 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`;
+}
+
+export class UsageTracker {
+  private static instance: UsageTracker;
+  private readonly STORAGE_KEY = 'excel_sql_assistant_usage';
+  private readonly BUDGETS_KEY = 'excel_sql_assistant_usage_budgets';
+  private readonly MAX_RECORDS = 200;
+  private readonly MAX_DAYS = 90;
+  private readonly MAX_MONTHS = 24;
+
+  static getInstance(): UsageTracker {
+    if (!UsageTracker.instance) {
+      UsageTracker.instance = new UsageTracker();
+    }
+    return UsageTracker.instance;
+  }
+
+  async recordUsage(provider: LLMProviderType, model: string, usage: TokenUsage, estimated: boolean = false): Promise<UsageRecord> {
+    const record: UsageRecord = {
+      timestamp: Date.now(),
+      provider,
+      model,
+      promptTokens: usage.promptTokens,
+      completionTokens: usage.completionTokens,
+      cost: estimateCost(model, usage),
+      estimated
+    };
+
+    const data = this.loadData();
+    const date = new Date(record.timestamp);
+    data.daily[this.getDayKey(date)] = this.addToTally(data.daily[this.getDayKey(date)], record);
+    data.monthly[this.getMonthKey(date)] = this.addToTally(data.monthly[this.getMonthKey(date)], record);
+
+    data.records.unshift(record);
+    data.records.splice(this.MAX_RECORDS);
+    data.daily = this.keepLatest(data.daily, this.MAX_DAYS);
+    data.monthly = this.keepLatest(data.monthly, this.MAX_MONTHS);
+
+    this.saveData(data);
+    return record;
+  }
+
+  async getSummary(): Promise<UsageSummary> {
+    const data = this.loadData();
+    const now = new Date();
+    const today = data.daily[this.getDayKey(now)] || this.emptyTally();
+    const month = data.monthly[this.getMonthKey(now)] || this.emptyTally();
+    const budgets = await this.getBudgets();
+
+    return {
+      today,
+      month,
+      lastRequest: data.records[0],
+      budgets,
+      status: this.getBudgetStatus(today, month, budgets)
+    };
+  }
+
+  // Throws BudgetExceededError once a hard limit is reached
+  async assertWithinBudget(): Promise<BudgetStatus> {
+    const { status } = await this.getSummary();
+    if (status.level === 'blocked') {
+      throw new BudgetExceededError(status.messages.join(' '));
+    }
+    return status;
+  }
+
+  async getBudgets(): Promise<UsageBudgets> {
+    try {
+      const stored = localStorage.getItem(this.BUDGETS_KEY);
+      return stored ? JSON.parse(stored) : {};
+    } catch (error) {
+      console.error('Error loading usage budgets:', error);
+      return {};
+    }
+  }
+
+  async saveBudgets(budgets: UsageBudgets): Promise<void> {
+    try {
+      localStorage.setItem(this.BUDGETS_KEY, JSON.stringify(budgets));
+    } catch (error) {
+      console.error('Error saving usage budgets:', error);
+    }
+  }
+
+  // Private Methods
+  private getBudgetStatus(today: UsageTally, month: UsageTally, budgets: UsageBudgets): BudgetStatus {
+    const status: BudgetStatus = { level: 'ok', messages: [] };
+    const check = (spent: number, limit: number | undefined, period: string, hard: boolean) => {
+      if (!limit || spent < limit) return;
+      if (hard) {
+        status.level = 'blocked';
+        status.messages.push(`The ${period} hard budget of ${formatCost(limit)} has been reached, so generation is paused.`);
+      } else {
+        if (status.level === 'ok') status.level = 'warning';
+        status.messages.push(`The ${period} soft budget of ${formatCost(limit)} has been reached (${formatCost(spent)} spent).`);
+      }
+    };
+
+    check(today.cost, budgets.dailyHardLimit, 'daily', true);
+    check(month.cost, budgets.monthlyHardLimit, 'monthly', true);
+    if (status.level !== 'blocked') {
+      check(today.cost, budgets.dailySoftLimit, 'daily', false);
+      check(month.cost, budgets.monthlySoftLimit, 'monthly', false);
+    }
+
+    return status;
+  }
+
+  private addToTally(tally: UsageTally | undefined, record: UsageRecord): UsageTally {
+    const current = tally || this.emptyTally();
+    return {
+      requests: current.requests + 1,
+      promptTokens: current.promptTokens + record.promptTokens,
+      completionTokens: current.completionTokens + record.completionTokens,
+      cost: current.cost + record.cost
+    };
+  }
+
+  private emptyTally(): UsageTally {
+    return { requests: 0, promptTokens: 0, completionTokens: 0, cost: 0 };
+  }
+
+  // Keys sort chronologically, so the latest entries are the last ones
+  private keepLatest(tallies: Record<string, UsageTally>, count: number): Record<string, UsageTally> {
+    return Object.fromEntries(Object.entries(tallies).sort(([a], [b]) => a.localeCompare(b)).slice(-count));
+  }
+
+  private getDayKey(date: Date): string {
+    return `${this.getMonthKey(date)}-${String(date.getDate()).padStart(2, '0')}`;
+  }
+
+  private getMonthKey(date: Date): string {
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+  }
+
+  private loadData(): UsageData {
+    try {
+      const stored = localStorage.getItem(this.STORAGE_KEY);
+      return stored ? JSON.parse(stored) : { records: [], daily: {}, monthly: {} };
+    } catch (error) {
+      console.error('Error loading usage data:', error);
+      return { records: [], daily: {}, monthly: {} };
+    }
+  }
+
+  private saveData(data: UsageData): void {
+    try {
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(data));
+    } catch (error) {
+      console.error('Error saving usage data:', error);
+    }
+  }
+}
+
+export const usageTracker = UsageTracker.getInstance();